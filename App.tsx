@@ -1,37 +1,70 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Song, AudioState, AppSettings, AppMode } from './types';
-import { WALLPAPER_URL, DEFAULT_ACCENT_COLOR, DEFAULT_SETTINGS } from './constants';
-import { formatTime, getFileNameWithoutExtension, extractAlbumArt, parseMusicInfo, readFileAsText, matchLyrics, matchVideos, VideoFile } from './utils';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Song, AudioState, AppSettings, AppMode, ImportProgressInfo, NamedPlaylist, PlaylistImportReport, LibraryViewOptions, SmartPlaylistRules, ParsedMusicInfo, QueuePosition } from './types';
+import { WALLPAPER_URL, DEFAULT_ACCENT_COLOR, DEFAULT_SETTINGS, DEFAULT_LIBRARY_VIEW, REPEAT_MODES } from './constants';
+import { formatTime, nextRepeatMode, getFileNameWithoutExtension, extractAlbumArt, parseMusicInfo, mergeTagInfo, mapWithConcurrency, probeDuration, readFileAsText, matchLyrics, matchVideos, isAudioFile, isLyricsFile, isVideoFile, isFolderArtFile, isPlaylistFile, isImportableFileName, matchFolderArt, getDirectoryPath } from './utils';
+import { extractZip, isZipFile } from './utils/zip';
+import { PlaylistExportFormat, downloadPlaylist, parsePlaylist, readPlaylistText, resolvePlaylistEntries } from './utils/playlists';
+import { resolveMysteryCode } from './utils/mysteryCode';
+import { getDroppedFiles, getRelativePath, isFileSystemAccessSupported } from './utils/fileSystem';
+import { readTags } from './utils/tagReader';
+import { buildTaggedFile, canWriteTags, downloadFile } from './utils/tagWriter';
+import { getSongId } from './utils/songIds';
+import { forgetCoverArt } from './utils/coverArt';
+import { releaseSongUrls, restoreSongUrls } from './utils/libraryStore';
+import { applyMetadataOverrides, deleteMetadataOverride, deriveFileMetadata, getDisplayNames, saveMetadataOverride, withMetadata } from './utils/metadataOverrides';
+import { arrangeByIds, isManualOrder, moveBlock, orderSongs } from './utils/librarySort';
+import { evaluateSmartPlaylist } from './utils/smartPlaylists';
+import { ListenSession, finishListen, hasListenedEnough, startListen, trackListen } from './utils/playStats';
+import { getCrossfadeSeconds } from './utils/crossfade';
 import Controls from './components/Controls';
 import Playlist from './components/Playlist';
+import FolderBrowser from './components/FolderBrowser';
 import Settings from './components/Settings';
 import LyricsView from './components/LyricsView';
 import CoverFlow from './components/CoverFlow';
 import ShelfView from './components/ShelfView';
 import ModeControls from './components/ModeControls';
-import { ListMusic, Settings as SettingsIcon, Disc, Mic2, Music2, Pause, Play, Upload, FileMusic, Video, X } from 'lucide-react';
-import { usePresentationSync } from './hooks/usePresentationSync';
+import { ListMusic, Settings as SettingsIcon, Disc, Mic2, Music2, Pause, Play, Upload, FileMusic, Video, X, FolderTree, Archive, BarChart3, ListOrdered } from 'lucide-react';
+import { usePresentationSync, SyncPlaylistSummary, SyncQueueEntry } from './hooks/usePresentationSync';
+import { useLibraryPersistence } from './hooks/useLibraryPersistence';
+import { usePlaylists } from './hooks/usePlaylists';
+import { usePlayStats } from './hooks/usePlayStats';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { usePlayQueue } from './hooks/usePlayQueue';
+import { useShuffle } from './hooks/useShuffle';
+import { useGaplessPlayback } from './hooks/useGaplessPlayback';
+import { useWatchedFolders, ImportOptions } from './hooks/useWatchedFolders';
 import ControllerView from './components/ControllerView';
 import AppBackground from './components/AppBackground';
 import MysteryCodeModal from './components/MysteryCodeModal';
+import ImportProgress from './components/ImportProgress';
+import ImportReport from './components/ImportReport';
+import SmartPlaylistEditor from './components/SmartPlaylistEditor';
+import MetadataEditor from './components/MetadataEditor';
+import StatsView from './components/StatsView';
+import QueuePanel from './components/QueuePanel';
+import UndoToast from './components/UndoToast';
 
-type DesktopViewMode = 'library' | 'lyrics';
+type DesktopViewMode = 'library' | 'folders' | 'lyrics' | 'stats' | 'queue';
 
 const App: React.FC = () => {
+  // Determine Role based on URL
+  const isController = new URLSearchParams(window.location.search).get('mode') === 'controller';
+
   // --- State ---
   const [songs, setSongs] = useState<Song[]>([]);
   const [currentSong, setCurrentSong] = useState<Song | null>(null);
   const [currentCover, setCurrentCover] = useState<string | null>(null);
 
-  const [audioState, setAudioState] = useState<AudioState>({
+  const [audioState, setAudioState] = useState<AudioState>(() => ({
     isPlaying: false,
     currentTime: 0,
     duration: 0,
     volume: 0.8,
-    isLooping: false,
+    repeatMode: REPEAT_MODES.find(m => m === localStorage.getItem('rakko_repeat_mode')) || 'off',
     isShuffle: false,
-  });
+  }));
 
   const [settings, setSettings] = useState<AppSettings>(() => {
     const saved = localStorage.getItem('rakko_settings');
@@ -47,7 +80,11 @@ const App: React.FC = () => {
       bassBoost: false,
       accentColor: DEFAULT_ACCENT_COLOR,
       performanceMode: DEFAULT_SETTINGS.performanceMode,
-      idleMode: DEFAULT_SETTINGS.idleMode
+      idleMode: DEFAULT_SETTINGS.idleMode,
+      smartShuffle: DEFAULT_SETTINGS.smartShuffle,
+      crossfade: DEFAULT_SETTINGS.crossfade,
+      crossfadeSameAlbum: DEFAULT_SETTINGS.crossfadeSameAlbum,
+      crossfadeOnSkip: DEFAULT_SETTINGS.crossfadeOnSkip
     };
   });
 
@@ -56,6 +93,85 @@ const App: React.FC = () => {
     localStorage.setItem('rakko_settings', JSON.stringify(settings));
   }, [settings]);
 
+  // Restore the library from IndexedDB and keep it saved (the player owns the library)
+  const { isRestored: isLibraryRestored } = useLibraryPersistence(songs, setSongs, !isController);
+  const {
+    playlists: storedPlaylists,
+    upsertPlaylist,
+    removePlaylist,
+    createPlaylist,
+    renamePlaylist,
+    duplicatePlaylist,
+    updateSmartPlaylist,
+    setPlaylistSongs,
+    addToPlaylist,
+    removeFromPlaylist
+  } = usePlaylists(!isController);
+  const { playStats, historyVersion, recordPlay, recordListen } = usePlayStats(!isController);
+  const { toast: undoToast, pushUndo, undo, redo, dismissToast } = useUndoHistory(!isController);
+  const { queue, enqueue, moveEntry: moveQueueEntry, removeEntry: removeQueueEntry, clearQueue, peekNext, takeNext } = usePlayQueue(!isController);
+
+  // Smart playlists are re-evaluated whenever the library or play counts change
+  const playlists = useMemo(
+    () => storedPlaylists.map(p => p.smart ? { ...p, songIds: evaluateSmartPlaylist(p.smart, songs, playStats) } : p),
+    [storedPlaylists, songs, playStats]
+  );
+  const [smartEditor, setSmartEditor] = useState<{ playlistId: string | null } | null>(null);
+  const [metadataEditorSongId, setMetadataEditorSongId] = useState<string | null>(null);
+  const metadataEditorSong = metadataEditorSongId ? songs.find(s => s.id === metadataEditorSongId) || null : null;
+
+  // Playback follows the active playlist; null plays through the whole library
+  const [activePlaylistId, setActivePlaylistId] = useState<string | null>(() => localStorage.getItem('rakko_active_playlist'));
+
+  useEffect(() => {
+    if (isController) return;
+    if (activePlaylistId) localStorage.setItem('rakko_active_playlist', activePlaylistId);
+    else localStorage.removeItem('rakko_active_playlist');
+  }, [activePlaylistId, isController]);
+
+  useEffect(() => {
+    if (isController) return;
+    localStorage.setItem('rakko_repeat_mode', audioState.repeatMode);
+  }, [audioState.repeatMode, isController]);
+
+  // Sort & group for the list and the shelf; playback follows the same order
+  const [libraryView, setLibraryView] = useState<LibraryViewOptions>(() => {
+    const saved = localStorage.getItem('rakko_library_view');
+    if (saved) {
+      try {
+        return { ...DEFAULT_LIBRARY_VIEW, ...JSON.parse(saved) };
+      } catch (e) {
+        console.error("Failed to parse library view", e);
+      }
+    }
+    return DEFAULT_LIBRARY_VIEW;
+  });
+
+  useEffect(() => {
+    localStorage.setItem('rakko_library_view', JSON.stringify(libraryView));
+  }, [libraryView]);
+
+  const activePlaylist = playlists.find(p => p.id === activePlaylistId) || null;
+  const activeSongs = useMemo(() => {
+    let list = songs;
+    if (activePlaylist) {
+      const byId = new Map(songs.map(s => [s.id, s] as const));
+      list = activePlaylist.songIds.map(id => byId.get(id)).filter((s): s is Song => !!s);
+    }
+    return orderSongs(list, libraryView);
+  }, [songs, activePlaylist, libraryView]);
+  const shelfSongs = useMemo(() => orderSongs(songs, libraryView), [songs, libraryView]);
+
+  // Latest library, playlists and song for async imports and undo steps that outlive a render
+  const songsRef = useRef(songs);
+  const playlistsRef = useRef(playlists);
+  const currentSongRef = useRef(currentSong);
+  useEffect(() => {
+    songsRef.current = songs;
+    playlistsRef.current = playlists;
+    currentSongRef.current = currentSong;
+  });
+
   // Loading State
   const [isLoading, setIsLoading] = useState(true);
 
@@ -81,6 +197,8 @@ const App: React.FC = () => {
 
   // Drag and Drop State
   const [isDragging, setIsDragging] = useState(false);
+  const [importProgress, setImportProgress] = useState<ImportProgressInfo | null>(null);
+  const [importReports, setImportReports] = useState<PlaylistImportReport[]>([]);
 
   // Mystery Code Modal
   const [isMysteryCodeOpen, setIsMysteryCodeOpen] = useState(false);
@@ -89,6 +207,8 @@ const App: React.FC = () => {
   const audioRef = useRef<HTMLAudioElement>(new Audio());
   const videoRef = useRef<HTMLVideoElement>(null);
   const isRecoveringFromBackground = useRef(false);
+  // The listen in progress, logged to the play history once playback moves on
+  const listenRef = useRef<ListenSession | null>(null);
 
   // --- Effects ---
 
@@ -114,8 +234,24 @@ const App: React.FC = () => {
     const currentTime = audioRef.current.currentTime;
     setAudioState(prev => ({ ...prev, currentTime }));
 
+    // Right after a gapless handover the next song is already playing, but this render still has the last one
+    if (!currentSong || audioRef.current.src !== currentSong.url) return;
+
+    // A new listen starts with each song and each time a looping song restarts
+    if (listenRef.current?.song.id !== currentSong.id) listenRef.current = startListen(currentSong);
+    const listen = listenRef.current;
+    trackListen(listen, currentTime);
+    if (!listen.counted && hasListenedEnough(listen.playedSeconds, audioRef.current.duration)) {
+      listen.counted = true;
+      recordPlay(currentSong.id);
+    }
+
     // Sync Video if it exists
-    if (videoRef.current && currentSong?.videoUrl && !isRecoveringFromBackground.current) {
+    if (videoRef.current && currentSong.videoUrl && !isRecoveringFromBackground.current) {
+      // A song that took over gaplessly brings its own video, which starts here
+      if (videoRef.current.paused && !videoRef.current.ended && !audioRef.current.paused && !document.hidden) {
+        videoRef.current.play().catch(e => console.error("Video play error", e));
+      }
       const videoTime = videoRef.current.currentTime;
       const diff = videoTime - currentTime; // Positive: Video is ahead, Negative: Video is behind
 
@@ -147,30 +283,96 @@ const App: React.FC = () => {
   };
 
   const handleLoadedMetadata = () => {
-    setAudioState(prev => ({ ...prev, duration: audioRef.current.duration }));
+    const duration = audioRef.current.duration;
+    setAudioState(prev => ({ ...prev, duration }));
+    // Remember the length for exports
+    if (currentSong && isFinite(duration) && currentSong.duration !== duration) {
+      const songId = currentSong.id;
+      setSongs(prev => prev.map(s => s.id === songId && s.duration !== duration ? { ...s, duration } : s));
+    }
     if (audioState.isPlaying) {
       audioRef.current.play().catch(e => console.error("Play error:", e));
       // Video play handled in play/pause effect
     }
   };
 
-  const playNext = useCallback(() => {
-    if (songs.length === 0) return;
+  const { peekShuffled, takeShuffled, takePrevious } = useShuffle(activeSongs, currentSong, audioState.isShuffle, settings.smartShuffle);
+
+  // While queued songs play, where library order picks up again afterwards
+  const queueResumeRef = useRef<{ playingId: string; anchorId: string | null } | null>(null);
 
-    let nextIndex;
-    const currentIndex = songs.findIndex(s => s.id === currentSong?.id);
+  // Where the last song played from the list sat in it. Smart playlists re-evaluate as songs
+  // play, so the current song can drop out of a "never played" list while it plays.
+  const listPositionRef = useRef<{ songId: string; index: number } | null>(null);
+  useEffect(() => {
+    const index = currentSong ? activeSongs.findIndex(s => s.id === currentSong.id) : -1;
+    if (index !== -1) listPositionRef.current = { songId: currentSong!.id, index };
+  }, [activeSongs, currentSong?.id]);
+
+  // Position of a song in the list; one that just dropped out sits between its old neighbours (x.5)
+  const getListPosition = useCallback((songId: string | null | undefined): number => {
+    const index = activeSongs.findIndex(s => s.id === songId);
+    if (index !== -1 || !songId || listPositionRef.current?.songId !== songId) return index;
+    return listPositionRef.current.index - 0.5;
+  }, [activeSongs]);
+
+  // What plays after the current song: the queue first, then shuffle or list order.
+  // `auto` is set when a song finished by itself; only then does repeat off stop at the end.
+  // Without `take`, nothing is used up, so the answer can be preloaded.
+  const chooseNext = useCallback((auto: boolean, take: boolean): { song: Song; fromQueue: boolean } | null => {
+    const isAvailable = (id: string) => songsRef.current.some(s => s.id === id);
+    const queuedId = take ? takeNext(isAvailable) : peekNext(isAvailable);
+    const queued = queuedId ? songsRef.current.find(s => s.id === queuedId) : undefined;
+    if (queued) return { song: queued, fromQueue: true };
+
+    if (activeSongs.length === 0) return null;
+    const stopAtEnd = auto && audioState.repeatMode === 'off';
 
     if (audioState.isShuffle) {
-      nextIndex = Math.floor(Math.random() * songs.length);
+      const shuffled = take ? takeShuffled(!stopAtEnd) : peekShuffled(!stopAtEnd);
+      return shuffled ? { song: shuffled, fromQueue: false } : null;
+    }
+
+    // Only valid while the queued song it was set for is still the one playing
+    const resume = queueResumeRef.current?.playingId === currentSong?.id ? queueResumeRef.current : null;
+    const anchorId = resume ? resume.anchorId : currentSong?.id;
+    const nextIndex = Math.floor(getListPosition(anchorId)) + 1;
+    if (stopAtEnd && nextIndex >= activeSongs.length) return null;
+    return { song: activeSongs[nextIndex % activeSongs.length], fromQueue: false };
+  }, [activeSongs, currentSong, audioState.isShuffle, audioState.repeatMode, getListPosition, takeNext, peekNext, takeShuffled, peekShuffled]);
+
+  const advance = useCallback((auto: boolean) => {
+    const resume = queueResumeRef.current?.playingId === currentSong?.id ? queueResumeRef.current : null;
+    const next = chooseNext(auto, true);
+    queueResumeRef.current = next?.fromQueue
+      ? { playingId: next.song.id, anchorId: resume ? resume.anchorId : currentSong?.id ?? null }
+      : null;
+
+    if (!next) {
+      // The end of the list with repeat off
+      if (auto) setAudioState(p => ({ ...p, isPlaying: false }));
+    } else if (next.song.id === currentSong?.id) {
+      // A one-song list going round again
+      audioRef.current.currentTime = 0;
+      audioRef.current.play().catch(e => console.error("Play error:", e));
     } else {
-      nextIndex = (currentIndex + 1) % songs.length;
+      setCurrentSong(next.song);
     }
+  }, [chooseNext, currentSong]);
 
-    setCurrentSong(songs[nextIndex]);
-  }, [songs, currentSong, audioState.isShuffle]);
+  const playNext = useCallback(() => advance(false), [advance]);
+
+  const endListen = useCallback((completed: boolean) => {
+    const listen = listenRef.current;
+    if (!listen) return;
+    listenRef.current = null;
+    const event = finishListen(listen, completed, audioRef.current.duration);
+    if (event) recordListen(event);
+  }, [recordListen]);
 
   const handleEnded = useCallback(() => {
-    if (audioState.isLooping) {
+    endListen(true);
+    if (audioState.repeatMode === 'one') {
       audioRef.current.currentTime = 0;
       audioRef.current.play();
       if (videoRef.current) {
@@ -178,31 +380,43 @@ const App: React.FC = () => {
         videoRef.current.play();
       }
     } else {
-      playNext();
+      advance(true);
     }
-  }, [audioState.isLooping, playNext]);
+  }, [audioState.repeatMode, advance, endListen]);
+
+  // The next song starts on the second element right as this one ends
+  const {
+    audioElements, preload: preloadNext, adopt: adoptPreloaded, release: releaseForSong
+  } = useGaplessPlayback(audioRef, audioState.volume, () => {
+    endListen(true);
+    advance(true);
+  });
 
   // --- Setup Audio Listeners ---
   useEffect(() => {
-    const audio = audioRef.current;
-
-    // Default config
-    audio.volume = audioState.volume;
-
-    audio.addEventListener('timeupdate', handleTimeUpdate);
-    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
-    audio.addEventListener('ended', handleEnded);
+    // Both elements are listened to; only the active one counts (the other is
+    // preloading, or playing out or fading out the end of the previous song)
+    const onTimeUpdate = (e: Event) => { if (e.target === audioRef.current) handleTimeUpdate(); };
+    const onLoadedMetadata = (e: Event) => { if (e.target === audioRef.current) handleLoadedMetadata(); };
+    const onEnded = (e: Event) => { if (e.target === audioRef.current) handleEnded(); };
+    audioElements.forEach(el => {
+      el.addEventListener('timeupdate', onTimeUpdate);
+      el.addEventListener('loadedmetadata', onLoadedMetadata);
+      el.addEventListener('ended', onEnded);
+    });
 
     return () => {
-      audio.removeEventListener('timeupdate', handleTimeUpdate);
-      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
-      audio.removeEventListener('ended', handleEnded);
+      audioElements.forEach(el => {
+        el.removeEventListener('timeupdate', onTimeUpdate);
+        el.removeEventListener('loadedmetadata', onLoadedMetadata);
+        el.removeEventListener('ended', onEnded);
+      });
       // Ensure we stop playing if component unmounts
       // audio.pause(); // Fix: Do not pause on cleanup of this effect, only on unmount of App (which is fine to leave as is or remove)
       // Actually, removing the pause entirely is safer for stability during hot-reloads and prop updates.
       // audio.pause();
     };
-  }, [handleEnded, audioState.volume, currentSong /* Re-bind if song changes to ensure closures are fresh if needed, though handlers use refs/state setters mostly */]);
+  }, [handleEnded, currentSong /* Re-bind if song changes to ensure closures are fresh if needed, though handlers use refs/state setters mostly */]);
 
   // --- Video Sync Effect ---
   useEffect(() => {
@@ -249,12 +463,25 @@ const App: React.FC = () => {
 
 
   // --- Song Change Effect ---
+  // The song whose source was last loaded, to crossfade from when skipping
+  const loadedSongRef = useRef<Song | null>(null);
   useEffect(() => {
     console.log("[App] currentSong effect triggered. Song:", currentSong?.name, "ID:", currentSong?.id);
+    // Whatever was playing before was left early (a song that ended has already been logged)
+    if (listenRef.current && listenRef.current.song.id !== currentSong?.id) endListen(false);
     if (currentSong) {
       console.log("[App] Song Changed:", currentSong.name);
-      audioRef.current.src = currentSong.url;
-      audioRef.current.load();
+      // Only fades if the last song is still playing, i.e. it was skipped
+      const crossfade = getCrossfadeSeconds(settings, loadedSongRef.current, currentSong, true);
+      loadedSongRef.current = currentSong;
+      if (adoptPreloaded(currentSong, crossfade)) {
+        // Already loaded, so its metadata event has been and gone
+        handleLoadedMetadata();
+      } else {
+        releaseForSong(crossfade);
+        audioRef.current.src = currentSong.url;
+        audioRef.current.load();
+      }
       audioRef.current.play().then(() => {
         console.log("[App] Playback started successfully");
         setAudioState(prev => ({ ...prev, isPlaying: true }));
@@ -263,24 +490,46 @@ const App: React.FC = () => {
         setAudioState(prev => ({ ...prev, isPlaying: false }));
       });
 
-      // Extract Album Art
-      extractAlbumArt(currentSong.file).then(cover => {
-        setCurrentCover(cover);
-      });
-
     } else {
       console.log("[App] currentSong is null, pausing");
       audioRef.current.pause();
       setAudioState(prev => ({ ...prev, isPlaying: false }));
       setCurrentCover(null);
     }
-  }, [currentSong]);
+    // Edits to the playing song (lyrics, info) don't restart it; a new source does
+  }, [currentSong?.id, currentSong?.url]);
+
+  // Keep whatever plays next loaded and ready to start the moment this song ends
+  useEffect(() => {
+    if (isController) return;
+    const next = currentSong && audioState.repeatMode !== 'one' ? chooseNext(true, false) : null;
+    if (next && next.song.id !== currentSong?.id) preloadNext(next.song, getCrossfadeSeconds(settings, currentSong, next.song, false));
+    else preloadNext(null);
+  }, [currentSong?.id, chooseNext, queue, audioState.repeatMode, settings, preloadNext, isController]);
+
+  // Log the listen in progress when the page goes away
+  useEffect(() => {
+    if (isController) return;
+    const handlePageHide = () => endListen(false);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [endListen, isController]);
+
+  // Album art follows the song, and its folder artwork once that turns up
+  useEffect(() => {
+    if (!currentSong) return;
+    let cancelled = false;
+    extractAlbumArt(currentSong.file, currentSong.coverFile, currentSong.coverOverride).then(cover => {
+      if (!cancelled) setCurrentCover(cover);
+    });
+    return () => { cancelled = true; };
+  }, [currentSong?.id, currentSong?.coverFile, currentSong?.coverOverride]);
 
   // --- Actions ---
   const togglePlayPause = useCallback(() => {
     console.log("[App] togglePlayPause called. Current State:", audioState.isPlaying, "Audio Paused:", audioRef.current.paused);
-    if (!currentSong && songs.length > 0) {
-      setCurrentSong(songs[0]);
+    if (!currentSong && activeSongs.length > 0) {
+      setCurrentSong(activeSongs[0]);
       return;
     }
 
@@ -290,15 +539,22 @@ const App: React.FC = () => {
       audioRef.current.play().catch(e => console.error("Play error in toggle:", e));
     }
     setAudioState(prev => ({ ...prev, isPlaying: !prev.isPlaying }));
-  }, [currentSong, songs, audioState.isPlaying]);
+  }, [currentSong, activeSongs, audioState.isPlaying]);
 
   const playPrev = useCallback(() => {
     console.log("[App] playPrev called");
-    if (songs.length === 0) return;
-    const currentIndex = songs.findIndex(s => s.id === currentSong?.id);
-    const prevIndex = (currentIndex - 1 + songs.length) % songs.length;
-    setCurrentSong(songs[prevIndex]);
-  }, [songs, currentSong]);
+    // Shuffled order only exists as what was played, so step back through that
+    if (audioState.isShuffle) {
+      const previous = takePrevious(id => songsRef.current.find(s => s.id === id));
+      if (previous) {
+        setCurrentSong(previous);
+        return;
+      }
+    }
+    if (activeSongs.length === 0) return;
+    const prevIndex = Math.ceil(getListPosition(currentSong?.id)) - 1;
+    setCurrentSong(activeSongs[(prevIndex + activeSongs.length) % activeSongs.length]);
+  }, [activeSongs, currentSong, audioState.isShuffle, getListPosition, takePrevious]);
 
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
     const time = Number(e.target.value);
@@ -321,8 +577,8 @@ const App: React.FC = () => {
   };
 
   const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Applied by useGaplessPlayback, which scales it by any fade in progress
     const vol = Number(e.target.value);
-    audioRef.current.volume = vol;
     setAudioState(prev => ({ ...prev, volume: vol }));
   };
 
@@ -337,29 +593,79 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const processFiles = async (files: File[]) => {
+  const processFiles = async (files: File[], options: ImportOptions = {}) => {
+    try {
+      await importBatch(files, options);
+    } finally {
+      // The progress overlay never outlives the import, however it ended
+      setImportProgress(null);
+    }
+  };
+
+  const importBatch = async (files: File[], options: ImportOptions) => {
     if (files.length === 0) return;
 
-    // 1. Separate Audio, Lyrics, and Video files
-    const audioFiles = files.filter(f => f.type.startsWith('audio/') || /\.(mp3|wav|ogg|flac|m4a|weba)$/i.test(f.name));
-    const lrcFiles = files.filter(f => /\.(lrc|txt)$/i.test(f.name));
-    const videoFiles = files.filter(f => f.type.startsWith('video/') || /\.(mp4|webm|mkv|mov)$/i.test(f.name)).map(f => ({ name: f.name, file: f }));
+    // 0. Unpack ZIP archives; their entries go through the same classification
+    const archives = files.filter(isZipFile);
+    if (archives.length > 0) {
+      const extracted: File[] = [];
+      for (const archive of archives) {
+        try {
+          extracted.push(...await extractZip(archive, {
+            filter: isImportableFileName,
+            onProgress: (done, total) => setImportProgress({ label: `Extracting ${archive.name}`, done, total })
+          }));
+        } catch (err) {
+          console.error("Failed to extract archive:", archive.name, err);
+        }
+      }
+      files = [...files.filter(f => !isZipFile(f)), ...extracted];
+    }
+
+    // 1. Separate Audio, Lyrics, Video and Artwork files
+    const audioFiles = files.filter(isAudioFile);
+    const lrcFiles = files.filter(isLyricsFile);
+    const videoFiles = files.filter(isVideoFile).map(f => ({ name: f.name, file: f }));
+    const artFiles = files.filter(isFolderArtFile);
+    const playlistFiles = files.filter(isPlaylistFile);
 
     // 2. Process New Songs
-    const newSongs: Song[] = audioFiles.map((file) => {
+    // Embedded tags win over the file name; pictures are read lazily later
+    const embeddedLyrics: Record<string, string> = {};
+    let tagsRead = 0;
+    const parsedSongs = await mapWithConcurrency(audioFiles, 4, async (file): Promise<Song | null> => {
       const rawName = getFileNameWithoutExtension(file.name);
-      const info = parseMusicInfo(rawName);
-      const artistDisplay = info.artists.length > 0 ? info.artists.join(', ') : 'Unknown Artist';
+      const relativePath = getRelativePath(file);
+      const tags = await readTags(file).catch(err => {
+        console.warn("Failed to read tags:", file.name, err);
+        return null;
+      });
+      setImportProgress({ label: 'Reading tags', done: ++tagsRead, total: audioFiles.length });
+      const info = mergeTagInfo(parseMusicInfo(rawName, relativePath), tags);
+      // Derived from the content, so the same file is the same song on every import.
+      // A file that can't be read is left out rather than failing the whole batch.
+      let id: string;
+      try {
+        id = await getSongId(file);
+      } catch (err) {
+        console.warn("Failed to read file, skipping:", file.name, err);
+        return null;
+      }
+      if (tags?.lyrics) embeddedLyrics[id] = tags.lyrics;
 
       return {
-        id: Math.random().toString(36).substr(2, 9),
+        id,
         file,
-        name: info.title,
-        artist: artistDisplay,
+        ...getDisplayNames(info),
         metadata: info,
-        url: URL.createObjectURL(file)
+        url: URL.createObjectURL(file),
+        folderId: options.folderId,
+        relativePath,
+        addedAt: Date.now()
       };
     });
+    // Fixes made in the metadata editor outlive removing and re-importing a file
+    const newSongs = await applyMetadataOverrides(parsedSongs.filter((s): s is Song => s !== null));
 
     // 3. Read Lyrics Content
     const lrcContents: { name: string, content: string }[] = [];
@@ -372,25 +678,37 @@ const App: React.FC = () => {
       }
     }));
 
-    // 4. Match Lyrics and Videos
+    // 4. Match Lyrics, Videos and Folder Artwork
     const matches = matchLyrics(newSongs, lrcContents);
     const videoMatches = matchVideos(newSongs, videoFiles); // Check previously loaded videos? No, checking current batch.
+    const artMatches = matchFolderArt(newSongs, artFiles);
 
     newSongs.forEach(song => {
       if (matches[song.id]) {
         song.lyrics = matches[song.id];
+      } else if (embeddedLyrics[song.id]) {
+        // Only used when no sidecar file matched
+        song.lyrics = embeddedLyrics[song.id];
+        song.embeddedLyrics = true;
       }
       if (videoMatches[song.id]) {
-        song.videoUrl = videoMatches[song.id];
+        song.videoFile = videoMatches[song.id];
+        song.videoUrl = URL.createObjectURL(song.videoFile);
+      }
+      if (artMatches[song.id]) {
+        song.coverFile = artMatches[song.id];
       }
     });
 
+    setImportProgress(null);
+
     // 5. Update State
     setSongs(prevSongs => {
       // Also checking existing songs against new matches?
       // For now, let's keep it simple and only match within the batch + what's already there if we wanted to support "add lrc later".
       // But matching video to existing songs is also good.
-      const songsWithoutLyrics = prevSongs.filter(s => !s.lyrics);
+      // Embedded lyrics count as missing: a sidecar file replaces them
+      const songsWithoutLyrics = prevSongs.filter(s => !s.lyrics || s.embeddedLyrics);
       const songsWithoutVideo = prevSongs.filter(s => !s.videoUrl);
 
       const songsWithLyrics = prevSongs.filter(s => !!s.lyrics);
@@ -399,36 +717,167 @@ const App: React.FC = () => {
       if (songsWithoutLyrics.length > 0 && lrcContents.length > 0) {
         const existingMatches = matchLyrics(songsWithoutLyrics, lrcContents);
         songsWithoutLyrics.forEach(s => {
-          if (existingMatches[s.id]) s.lyrics = existingMatches[s.id];
+          if (existingMatches[s.id]) {
+            s.lyrics = existingMatches[s.id];
+            s.embeddedLyrics = undefined;
+          }
         });
       }
 
       if (songsWithoutVideo.length > 0 && videoFiles.length > 0) {
         const existingVideoMatches = matchVideos(songsWithoutVideo, videoFiles);
         songsWithoutVideo.forEach(s => {
-          if (existingVideoMatches[s.id]) s.videoUrl = existingVideoMatches[s.id];
+          if (existingVideoMatches[s.id]) {
+            s.videoFile = existingVideoMatches[s.id];
+            s.videoUrl = URL.createObjectURL(s.videoFile);
+          }
         });
       }
 
+      // Artwork dropped next to tracks already in the library (e.g. found by a rescan)
+      const sameFolder = (s: Song) => s.folderId === options.folderId && !!getDirectoryPath(s.relativePath);
+      if (artFiles.length > 0) {
+        const existing = prevSongs.filter(sameFolder);
+        const existingArtMatches = matchFolderArt(existing, artFiles);
+        existing.forEach(s => {
+          if (existingArtMatches[s.id] && s.coverFile !== existingArtMatches[s.id]) {
+            s.coverFile = existingArtMatches[s.id];
+            forgetCoverArt([s.id]);
+          }
+        });
+      }
+
+      // Re-imported tracks keep the artwork of their directory, which isn't rescanned when unchanged
+      newSongs.forEach(song => {
+        if (song.coverFile || !sameFolder(song)) return;
+        const dir = getDirectoryPath(song.relativePath);
+        const neighbour = prevSongs.find(s => s.coverFile && sameFolder(s) && getDirectoryPath(s.relativePath) === dir);
+        if (neighbour) song.coverFile = neighbour.coverFile;
+      });
+
       // Re-merge
       // Note: prevSongs might be mutated above (forEach), so constructing new array is important
       // But we mutated objects inside array, so they update in place if we reuse references.
       // Filter returns new array but references same objects.
 
-      return [...prevSongs, ...newSongs];
+      // A file that's already in the library (or twice in this batch) is the same song; the first copy stays.
+      // Checked here rather than up front, since a rescan removes changed files just before re-importing them.
+      const knownIds = new Set(prevSongs.map(s => s.id));
+      const addedSongs = newSongs.filter(song => {
+        if (!knownIds.has(song.id)) {
+          knownIds.add(song.id);
+          return true;
+        }
+        releaseSongUrls(song);
+        return false;
+      });
+      if (addedSongs.length < newSongs.length) {
+        console.log(`[Import] Skipped ${newSongs.length - addedSongs.length} songs already in the library`);
+      }
+
+      return [...prevSongs, ...addedSongs];
     });
 
     if (currentSong) {
       const currentSongMatch = matchLyrics([currentSong], lrcContents);
       if (currentSongMatch[currentSong.id]) {
-        setCurrentSong(prev => prev ? { ...prev, lyrics: currentSongMatch[currentSong.id] } : null);
+        setCurrentSong(prev => prev ? { ...prev, lyrics: currentSongMatch[currentSong.id], embeddedLyrics: undefined } : null);
       }
 
       const currentSongVideoMatch = matchVideos([currentSong], videoFiles);
-      if (currentSongVideoMatch[currentSong.id]) {
-        setCurrentSong(prev => prev ? { ...prev, videoUrl: currentSongVideoMatch[currentSong.id] } : null);
+      const matchedVideo = currentSongVideoMatch[currentSong.id];
+      if (matchedVideo) {
+        setCurrentSong(prev => prev ? { ...prev, videoFile: matchedVideo, videoUrl: URL.createObjectURL(matchedVideo) } : null);
       }
     }
+
+    // 6. Playlists, resolved against the whole library including this batch
+    if (playlistFiles.length > 0) {
+      await importPlaylists(playlistFiles, newSongs);
+    }
+  };
+
+  // Downloads for the playlist import under way; a newer import or leaving the app stops them
+  const playlistImportRef = useRef<AbortController | null>(null);
+  useEffect(() => () => playlistImportRef.current?.abort(), []);
+
+  const importPlaylists = async (playlistFiles: File[], newSongs: Song[]) => {
+    playlistImportRef.current?.abort();
+    const controller = new AbortController();
+    playlistImportRef.current = controller;
+
+    const library = [...songsRef.current.filter(s => !newSongs.some(n => n.id === s.id)), ...newSongs];
+    const reports: PlaylistImportReport[] = [];
+
+    for (const file of playlistFiles) {
+      try {
+        const source = getRelativePath(file) || file.name;
+        const parsed = parsePlaylist(await readPlaylistText(file), file.name);
+        const { entrySongIds } = resolvePlaylistEntries(parsed.entries, library, getRelativePath(file));
+
+        // Rakko JSON: download songs we only know by mystery code, bring lyrics along
+        const downloaded: Song[] = [];
+        const lyricsUpdates: Record<string, string> = {};
+        for (let i = 0; i < parsed.entries.length; i++) {
+          const entry = parsed.entries[i];
+          const songId = entrySongIds[i];
+
+          if (!songId && entry.mysteryCode) {
+            setImportProgress({ label: `Downloading ${entry.title || entry.mysteryCode}`, done: i, total: parsed.entries.length });
+            try {
+              const song = await resolveMysteryCode(entry.mysteryCode, controller.signal);
+              song.lyrics = song.lyrics || entry.lyrics;
+              downloaded.push(song);
+              entrySongIds[i] = song.id;
+            } catch (err) {
+              if (controller.signal.aborted) return;
+              console.warn("[Playlists] Failed to download", entry.mysteryCode, err);
+            }
+          } else if (songId && entry.lyrics) {
+            lyricsUpdates[songId] = entry.lyrics;
+          }
+        }
+        setImportProgress(null);
+
+        if (downloaded.length > 0 || Object.keys(lyricsUpdates).length > 0) {
+          setSongs(prev => [
+            ...prev.map(s => lyricsUpdates[s.id] && (!s.lyrics || s.embeddedLyrics)
+              ? { ...s, lyrics: lyricsUpdates[s.id], embeddedLyrics: undefined }
+              : s),
+            // A download can turn out to be a song we already have
+            ...downloaded.filter(d => !prev.some(s => s.id === d.id))
+          ]);
+          library.push(...downloaded);
+        }
+
+        const songIds = entrySongIds.filter((id): id is string => !!id);
+        const unresolved = parsed.entries.filter((_, i) => !entrySongIds[i]);
+
+        // Re-importing the same file (e.g. on rescan) updates its playlist
+        const existing = playlistsRef.current.find(p => p.source === source);
+        const playlist: NamedPlaylist = {
+          id: existing?.id || Math.random().toString(36).substr(2, 9),
+          name: existing?.name || parsed.name,
+          songIds,
+          createdAt: existing?.createdAt || Date.now(),
+          source
+        };
+        upsertPlaylist(playlist);
+
+        console.log(`[Playlists] Imported "${playlist.name}": ${songIds.length}/${parsed.entries.length} resolved`);
+        reports.push({
+          playlistId: playlist.id,
+          name: playlist.name,
+          resolved: songIds.length,
+          total: parsed.entries.length,
+          unresolved: unresolved.map(e => e.title || e.path)
+        });
+      } catch (err) {
+        console.error("Failed to import playlist:", file.name, err);
+      }
+    }
+
+    if (reports.length > 0) setImportReports(reports);
   };
 
 
@@ -437,17 +886,13 @@ const App: React.FC = () => {
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      processFiles(Array.from(e.target.files));
+      processFiles(Array.from(e.target.files)).catch(err => console.error("Failed to import files:", err));
     }
   };
 
   const handleFolderSelectAPI = async () => {
     try {
-      const { openDirectoryAndGetFiles } = await import('./utils/fileSystem');
-      const files = await openDirectoryAndGetFiles();
-      if (files.length > 0) {
-        processFiles(files);
-      }
+      await addWatchedFolder();
     } catch (err) {
       console.error("Failed to open directory:", err);
     }
@@ -474,7 +919,9 @@ const App: React.FC = () => {
     e.stopPropagation();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      processFiles(Array.from(e.dataTransfer.files));
+      getDroppedFiles(e.dataTransfer)
+        .then(files => processFiles(files))
+        .catch(err => console.error("Failed to read dropped files:", err));
     }
   };
 
@@ -484,29 +931,138 @@ const App: React.FC = () => {
       const reader = new FileReader();
       reader.onload = (ev) => {
         const text = ev.target?.result as string;
-        handleUpdateLyrics(currentSong.id, text);
+        handleUpdateLyrics({ [currentSong.id]: text });
       };
       reader.readAsText(file);
     }
   };
 
-  const handleUpdateLyrics = (songId: string, lyrics: string) => {
-    setSongs(prevSongs => prevSongs.map(s => {
-      if (s.id === songId) {
-        return { ...s, lyrics: lyrics };
-      }
-      return s;
-    }));
+  // "Title" for one song, "3 songs" for several
+  const describeSongs = (list: Song[]) =>
+    list.length === 1 ? `"${list[0].metadata?.title || list[0].name}"` : `${list.length} songs`;
 
-    if (currentSong?.id === songId) {
-      setCurrentSong(prev => prev ? { ...prev, lyrics: lyrics } : null);
-    }
+  // Applies per-song field changes to the library and the playing song
+  const applySongChanges = (changes: Map<string, Partial<Song>>) => {
+    setSongs(prevSongs => prevSongs.map(s => changes.has(s.id) ? { ...s, ...changes.get(s.id) } : s));
+    setCurrentSong(prev => prev && changes.has(prev.id) ? { ...prev, ...changes.get(prev.id) } : prev);
   };
 
-  const handleRemoveSong = (songId: string) => {
+  /**
+   * Changes songs as one undoable step. `change` returns the new fields of each song,
+   * and the same fields' current values are kept for undo.
+   */
+  const editSongs = (songIds: string[], change: (song: Song) => Partial<Song>, describe: (list: Song[]) => string) => {
+    const ids = new Set(songIds);
+    const targets = songsRef.current.filter(s => ids.has(s.id));
+    if (targets.length === 0) return;
+
+    const before = new Map<string, Partial<Song>>();
+    const after = new Map<string, Partial<Song>>();
+    targets.forEach(song => {
+      const fields = change(song);
+      after.set(song.id, fields);
+      before.set(song.id, Object.fromEntries(Object.keys(fields).map(key => [key, song[key as keyof Song]])));
+    });
+
+    applySongChanges(after);
+    pushUndo({
+      label: describe(targets),
+      undo: () => applySongChanges(before),
+      redo: () => applySongChanges(after)
+    });
+  };
+
+  // A sidecar lyrics file replaces lyrics read from the tags
+  const handleUpdateLyrics = (lyricsById: Record<string, string>) => {
+    editSongs(
+      Object.keys(lyricsById),
+      song => ({ lyrics: lyricsById[song.id], embeddedLyrics: undefined }),
+      list => list.length === 1 && list[0].lyrics ? `Replaced lyrics of ${describeSongs(list)}` : `Added lyrics to ${describeSongs(list)}`
+    );
+  };
+
+  const handleClearLyrics = (songIds: string[]) => {
+    editSongs(songIds, () => ({ lyrics: undefined, embeddedLyrics: undefined }), list => `Cleared lyrics of ${describeSongs(list)}`);
+  };
+
+  const handleClearVideo = (songIds: string[]) => {
+    editSongs(songIds, () => ({ videoUrl: undefined, videoFile: undefined }), list => `Cleared video of ${describeSongs(list)}`);
+  };
+
+  // --- Metadata Editor ---
+  // Saved per file, so a re-import of the same file picks the edits up again
+  const handleSaveMetadata = (metadata: ParsedMusicInfo, cover: Blob | null) => {
+    const song = songsRef.current.find(s => s.id === metadataEditorSongId);
+    setMetadataEditorSongId(null);
+    if (!song) return;
+
+    const edited = withMetadata(song, metadata, cover || undefined);
+    applySongChanges(new Map([[song.id, { name: edited.name, artist: edited.artist, metadata, coverOverride: edited.coverOverride }]]));
+    if (edited.coverOverride !== song.coverOverride) forgetCoverArt([song.id]);
+    saveMetadataOverride(song, metadata, edited.coverOverride)
+      .catch(err => console.error("[Metadata] Failed to save override:", err));
+  };
+
+  const handleResetMetadata = async () => {
+    const song = songsRef.current.find(s => s.id === metadataEditorSongId);
+    setMetadataEditorSongId(null);
+    if (!song) return;
+
+    const metadata = await deriveFileMetadata(song);
+    if (!metadata) return;
+    applySongChanges(new Map([[song.id, { ...getDisplayNames(metadata), metadata, coverOverride: undefined }]]));
+    if (song.coverOverride) forgetCoverArt([song.id]);
+    deleteMetadataOverride(song)
+      .catch(err => console.error("[Metadata] Failed to delete override:", err));
+  };
+
+  // --- Undoable Removal ---
+  const handleRemoveSongs = (songIds: string[]) => {
+    const ids = new Set(songIds);
+    // Ascending, so reinserting one by one puts every song back where it was
+    let entries = songsRef.current
+      .map((song, index) => ({ song, index }))
+      .filter(entry => ids.has(entry.song.id));
+    if (entries.length === 0) return;
+
+    const remove = () => {
+      removeSongs(entries.map(e => e.song.id));
+      entries.forEach(e => releaseSongUrls(e.song));
+    };
+    remove();
+    pushUndo({
+      label: `Removed ${describeSongs(entries.map(e => e.song))}`,
+      undo: () => {
+        entries = entries.map(e => ({ ...e, song: restoreSongUrls(e.song) }));
+        setSongs(prev => entries.reduce((list, { song, index }) => list.some(s => s.id === song.id)
+          ? list
+          : [...list.slice(0, index), song, ...list.slice(index)], prev));
+      },
+      redo: remove
+    });
+  };
+
+  const handleRemoveFromPlaylist = (songIds: string[]) => {
+    if (!activePlaylist || activePlaylist.smart) return;
+    const playlistId = activePlaylist.id;
+    const before = activePlaylist.songIds;
+    const ids = new Set(songIds);
+    removeFromPlaylist(playlistId, songIds);
+    pushUndo({
+      label: `Removed ${describeSongs(songsRef.current.filter(s => ids.has(s.id)))} from ${activePlaylist.name}`,
+      undo: () => setPlaylistSongs(playlistId, before),
+      redo: () => removeFromPlaylist(playlistId, songIds)
+    });
+  };
+
+  const removeSongs = (songIds: string[]) => {
+    const ids = new Set(songIds);
+    forgetCoverArt(songIds);
+    // May run from a redo long after this render, so the playing song is read fresh
+    const playing = currentSongRef.current;
     setSongs(prev => {
-      const newSongs = prev.filter(s => s.id !== songId);
-      if (currentSong?.id === songId) {
+      const newSongs = prev.filter(s => !ids.has(s.id));
+      if (playing && ids.has(playing.id)) {
         if (newSongs.length > 0) {
           const nextSong = newSongs[0];
           setCurrentSong(nextSong);
@@ -519,13 +1075,169 @@ const App: React.FC = () => {
     });
   };
 
+  // --- Watched Folders ---
+  const {
+    folders: watchedFolders,
+    addFolder: addWatchedFolder,
+    rescanFolder,
+    removeFolder
+  } = useWatchedFolders({
+    songs,
+    isLibraryRestored,
+    importFiles: processFiles,
+    removeSongs,
+    enabled: !isController
+  });
+
+  // --- Export ---
+  const handleExportPlaylist = async (playlistId: string | null, format: PlaylistExportFormat) => {
+    const playlist = playlistId ? playlists.find(p => p.id === playlistId) : null;
+    const byId = new Map(songs.map(s => [s.id, s] as const));
+    const list = playlist
+      ? playlist.songIds.map(id => byId.get(id)).filter((s): s is Song => !!s)
+      : songs;
+    await exportSongs(playlist?.name || 'Rakko Library', list, format);
+  };
+
+  // Selected songs, in the order they're shown
+  const handleExportSongs = async (songIds: string[], format: PlaylistExportFormat) => {
+    const ids = new Set(songIds);
+    await exportSongs(`${activePlaylist?.name || 'Rakko Library'} (Selection)`, activeSongs.filter(s => ids.has(s.id)), format);
+  };
+
+  const exportSongs = async (name: string, list: Song[], format: PlaylistExportFormat) => {
+    // Songs that were never played have no known length yet
+    const missing = list.filter(s => !s.duration);
+    const durations: Record<string, number> = {};
+    await mapWithConcurrency(missing, 2, async (song) => {
+      const duration = await probeDuration(song.url);
+      if (duration) durations[song.id] = duration;
+    });
+
+    if (Object.keys(durations).length > 0) {
+      setSongs(prev => prev.map(s => durations[s.id] ? { ...s, duration: durations[s.id] } : s));
+    }
+
+    const withDurations = list.map(s => durations[s.id] ? { ...s, duration: durations[s.id] } : s);
+    downloadPlaylist(name, withDurations, format);
+  };
+
+  // One download per MP3/FLAC song; other formats are skipped
+  const handleExportWithTags = async (songIds: string[]) => {
+    const ids = new Set(songIds);
+    const list = songsRef.current.filter(s => ids.has(s.id) && canWriteTags(s.file));
+    for (const song of list) {
+      try {
+        downloadFile(await buildTaggedFile(song));
+      } catch (err) {
+        console.error(`[Tags] Failed to write tags for ${song.name}:`, err);
+      }
+    }
+  };
+
+  // --- Play Queue ---
+  const handleQueueSongs = (songIds: string[], position: QueuePosition) => {
+    enqueue(songIds.filter(id => songsRef.current.some(s => s.id === id)), position);
+  };
+
+  // Jumps straight to a queued song; library order still resumes where it left off
+  const handlePlayQueueEntry = (entryId: string) => {
+    const entry = queue.find(e => e.id === entryId);
+    const song = entry && songsRef.current.find(s => s.id === entry.songId);
+    if (!song) return;
+    const resume = queueResumeRef.current?.playingId === currentSong?.id ? queueResumeRef.current : null;
+    removeQueueEntry(entryId);
+    queueResumeRef.current = { playingId: song.id, anchorId: resume ? resume.anchorId : currentSong?.id ?? null };
+    setCurrentSong(song);
+    setAudioState(p => ({ ...p, isPlaying: true }));
+  };
+
+  // Indices refer to the visible list, so an active playlist is reordered instead of the library
   const handleReorder = (sourceIndex: number, destinationIndex: number) => {
-    setSongs(prev => {
+    // A sorted or grouped list has no manual order to change, and a smart one has none at all
+    if (!isManualOrder(libraryView) || activePlaylist?.smart) return;
+    const moved = activeSongs[sourceIndex];
+    if (!moved || sourceIndex === destinationIndex) return;
+    const label = `Moved "${moved.metadata?.title || moved.name}"`;
+
+    if (activePlaylist) {
+      const playlistId = activePlaylist.id;
+      const before = activeSongs.map(s => s.id);
+      const after = [...before];
+      after.splice(sourceIndex, 1);
+      after.splice(destinationIndex, 0, moved.id);
+      setPlaylistSongs(playlistId, after);
+      pushUndo({
+        label,
+        undo: () => setPlaylistSongs(playlistId, before),
+        redo: () => setPlaylistSongs(playlistId, after)
+      });
+      return;
+    }
+
+    // Moved by id, so undoing still works after songs were added elsewhere
+    const moveTo = (index: number) => setSongs(prev => {
+      const from = prev.findIndex(s => s.id === moved.id);
+      if (from === -1) return prev;
       const newSongs = [...prev];
-      const [movedSong] = newSongs.splice(sourceIndex, 1);
-      newSongs.splice(destinationIndex, 0, movedSong);
+      const [song] = newSongs.splice(from, 1);
+      newSongs.splice(Math.min(index, newSongs.length), 0, song);
       return newSongs;
     });
+    moveTo(destinationIndex);
+    pushUndo({
+      label,
+      undo: () => moveTo(sourceIndex),
+      redo: () => moveTo(destinationIndex)
+    });
+  };
+
+  // Moves several songs as a block in front of `beforeId` (null = to the end)
+  const handleMoveSongs = (songIds: string[], beforeId: string | null) => {
+    if (!isManualOrder(libraryView) || activePlaylist?.smart) return;
+    const block = new Set(songIds);
+    const label = `Moved ${describeSongs(activeSongs.filter(s => block.has(s.id)))}`;
+    const before = activeSongs.map(s => s.id);
+    const after = moveBlock(before, block, beforeId);
+    if (after.every((id, i) => id === before[i])) return;
+
+    if (activePlaylist) {
+      const playlistId = activePlaylist.id;
+      setPlaylistSongs(playlistId, after);
+      pushUndo({
+        label,
+        undo: () => setPlaylistSongs(playlistId, before),
+        redo: () => setPlaylistSongs(playlistId, after)
+      });
+      return;
+    }
+
+    setSongs(prev => arrangeByIds(prev, after));
+    pushUndo({
+      label,
+      undo: () => setSongs(prev => arrangeByIds(prev, before)),
+      redo: () => setSongs(prev => arrangeByIds(prev, after))
+    });
+  };
+
+  // --- Playlist Manager ---
+  const handleDeletePlaylist = (id: string) => {
+    removePlaylist(id);
+    if (activePlaylistId === id) setActivePlaylistId(null);
+  };
+
+  const handleDuplicatePlaylist = (id: string) => {
+    const copy = duplicatePlaylist(id);
+    if (copy) setActivePlaylistId(copy.id);
+  };
+
+  const handleSaveSmartPlaylist = (name: string, smart: SmartPlaylistRules) => {
+    if (smartEditor?.playlistId) {
+      updateSmartPlaylist(smartEditor.playlistId, name, smart);
+    } else {
+      setActivePlaylistId(createPlaylist(name, [], smart).id);
+    }
+    setSmartEditor(null);
   };
 
   const toggleDesktopView = (mode: DesktopViewMode) => {
@@ -607,15 +1319,28 @@ const App: React.FC = () => {
   }, [settings.idleMode, audioState.isPlaying]);
 
   // --- Presentation Sync Hook ---
-  // Determine Role based on URL
-  const isController = new URLSearchParams(window.location.search).get('mode') === 'controller';
+  const playlistSummaries = useMemo<SyncPlaylistSummary[]>(
+    () => playlists.map(p => ({ id: p.id, name: p.name, count: p.songIds.length })),
+    [playlists]
+  );
 
-  const { syncedSong, syncedCover, syncedAudioState, syncedSongs, syncedSettings, sendCommand, lastSyncTime, sendPing, lastPongTime } = usePresentationSync({
+  const syncQueue = useMemo<SyncQueueEntry[]>(() => {
+    const byId = new Map(songs.map(s => [s.id, s] as const));
+    return queue.flatMap(entry => {
+      const song = byId.get(entry.songId);
+      return song ? [{ id: entry.id, songId: song.id, title: song.metadata?.title || song.name, artist: song.artist }] : [];
+    });
+  }, [queue, songs]);
+
+  const { syncedSong, syncedCover, syncedAudioState, syncedSongs, syncedPlaylists, syncedActivePlaylistId, syncedQueue, syncedSettings, sendCommand, lastSyncTime, sendPing, lastPongTime } = usePresentationSync({
     role: isController ? 'controller' : 'player',
     currentSong: isController ? undefined : currentSong,
     currentCover: isController ? undefined : currentCover,
     audioState: isController ? undefined : audioState,
-    songs: isController ? undefined : songs,
+    songs: isController ? undefined : activeSongs,
+    playlists: isController ? undefined : playlistSummaries,
+    activePlaylistId: isController ? undefined : activePlaylist?.id ?? null,
+    queue: isController ? undefined : syncQueue,
     // Player Handlers
     onPlay: () => {
       if (!audioState.isPlaying) togglePlayPause();
@@ -627,13 +1352,17 @@ const App: React.FC = () => {
     onNext: playNext,
     onPrev: playPrev,
     onSeek: handleSeekToTime,
-    onSetVolume: (vol) => {
-      audioRef.current.volume = vol;
-      setAudioState(p => ({ ...p, volume: vol }));
-    },
-    onSetLoop: (loop) => setAudioState(p => ({ ...p, isLooping: loop })),
+    onSetVolume: (vol) => setAudioState(p => ({ ...p, volume: vol })),
+    onSetLoop: (repeatMode) => setAudioState(p => ({ ...p, repeatMode })),
     onSetShuffle: (shuffle) => setAudioState(p => ({ ...p, isShuffle: shuffle })),
     onReorder: handleReorder,
+    onSetPlaylist: (playlistId) => {
+      if (playlistId === null || playlists.some(p => p.id === playlistId)) setActivePlaylistId(playlistId);
+    },
+    onEnqueue: handleQueueSongs,
+    onRemoveFromQueue: removeQueueEntry,
+    onMoveQueueItem: moveQueueEntry,
+    onClearQueue: clearQueue,
     settings: settings, // Sync settings (including accentColor and controllerIdleMode)
     onPlaySong: (song) => {
       // Important: We receive a Song object from remote, but it might not match reference.
@@ -654,6 +1383,9 @@ const App: React.FC = () => {
         currentCover={syncedCover}
         audioState={syncedAudioState}
         songs={syncedSongs}
+        playlists={syncedPlaylists}
+        activePlaylistId={syncedActivePlaylistId}
+        queue={syncedQueue}
         sendCommand={sendCommand}
         accentColor={settings.accentColor} // Note: Settings not synced yet, using default/local. Can sync later.
         lastSyncTime={lastSyncTime}
@@ -707,7 +1439,7 @@ const App: React.FC = () => {
         videoRef={videoRef}
         audioElement={audioRef.current}
         showPrismBg={showPrismBg}
-        loopVideo={audioState.isLooping}
+        loopVideo={audioState.repeatMode === 'one'}
       />
 
       {/* === DRAG OVERLAY === */}
@@ -722,11 +1454,16 @@ const App: React.FC = () => {
               <span className="flex items-center gap-2"><Music2 size={16} /> Audio</span>
               <span className="flex items-center gap-2"><FileMusic size={16} /> Lyrics</span>
               <span className="flex items-center gap-2"><Video size={16} /> Video</span>
+              <span className="flex items-center gap-2"><Archive size={16} /> ZIP</span>
             </div>
           </div>
         </div>
       )}
 
+      <ImportProgress progress={importProgress} accentColor={settings.accentColor} />
+      <ImportReport reports={importReports} onDismiss={() => setImportReports([])} accentColor={settings.accentColor} />
+      <UndoToast toast={undoToast} onUndo={undo} onRedo={redo} onDismiss={dismissToast} accentColor={settings.accentColor} />
+
       {/* === COVER FLOW OVERLAY === */}
       {isCoverFlow && (
         <CoverFlow
@@ -740,6 +1477,7 @@ const App: React.FC = () => {
           onPlayPause={togglePlayPause}
           onNext={playNext}
           onPrev={playPrev}
+          onQueueSongs={handleQueueSongs}
           onClose={() => setAppMode('standard')}
           accentColor={settings.accentColor}
           showBackground={showPrismBg}
@@ -750,7 +1488,9 @@ const App: React.FC = () => {
       {/* === SHELF VIEW OVERLAY === */}
       {isShelf && (
         <ShelfView
-          songs={songs}
+          songs={shelfSongs}
+          libraryView={libraryView}
+          onChangeLibraryView={setLibraryView}
           currentSong={currentSong}
           isPlaying={audioState.isPlaying}
           onSelect={(song) => {
@@ -758,6 +1498,7 @@ const App: React.FC = () => {
             setAudioState(p => ({ ...p, isPlaying: true }));
             exitShelfMode();
           }}
+          onQueueSongs={handleQueueSongs}
           onClose={exitShelfMode}
           accentColor={settings.accentColor}
           performanceMode={settings.performanceMode}
@@ -780,11 +1521,33 @@ const App: React.FC = () => {
         />
       </div>
 
+      <SmartPlaylistEditor
+        isOpen={smartEditor !== null}
+        playlist={smartEditor?.playlistId ? storedPlaylists.find(p => p.id === smartEditor.playlistId) || null : null}
+        songs={songs}
+        playStats={playStats}
+        onSave={handleSaveSmartPlaylist}
+        onClose={() => setSmartEditor(null)}
+        accentColor={settings.accentColor}
+      />
+
+      <MetadataEditor
+        song={metadataEditorSong}
+        onSave={handleSaveMetadata}
+        onReset={metadataEditorSong?.file && !metadataEditorSong.mysteryCode ? handleResetMetadata : undefined}
+        onClose={() => setMetadataEditorSongId(null)}
+        accentColor={settings.accentColor}
+      />
+
       <MysteryCodeModal
         isOpen={isMysteryCodeOpen}
         onClose={() => setIsMysteryCodeOpen(false)}
-        onSuccess={(newSong) => {
-          setSongs(prev => [...prev, newSong]);
+        onSuccess={(downloadedSong) => {
+          // Downloading a song that's already in the library plays the copy we have
+          const existing = songsRef.current.find(s => s.id === downloadedSong.id);
+          const newSong = existing || downloadedSong;
+          if (existing) releaseSongUrls(downloadedSong);
+          else setSongs(prev => [...prev, newSong]);
           // Auto play if appropriate
           if (!currentSong) {
             setCurrentSong(newSong);
@@ -902,7 +1665,7 @@ const App: React.FC = () => {
               onPrev={playPrev}
               onSeek={handleSeek}
               onVolumeChange={handleVolumeChange}
-              onToggleLoop={() => setAudioState(p => ({ ...p, isLooping: !p.isLooping }))}
+              onToggleLoop={() => setAudioState(p => ({ ...p, repeatMode: nextRepeatMode(p.repeatMode) }))}
               onToggleShuffle={() => setAudioState(p => ({ ...p, isShuffle: !p.isShuffle }))}
               formatTime={formatTime}
               accentColor={settings.accentColor}
@@ -931,9 +1694,19 @@ const App: React.FC = () => {
               <button onClick={() => toggleDesktopView('library')} className={`flex items-center gap-2 px-5 py-2 rounded-full text-sm font-medium transition-all duration-300 ${desktopViewMode === 'library' ? 'bg-white/10 text-white shadow-lg scale-105' : 'text-white/40 hover:text-white/80'}`}>
                 <ListMusic size={14} /> Library
               </button>
+              <button onClick={() => toggleDesktopView('folders')} className={`flex items-center gap-2 px-5 py-2 rounded-full text-sm font-medium transition-all duration-300 ${desktopViewMode === 'folders' ? 'bg-white/10 text-white shadow-lg scale-105' : 'text-white/40 hover:text-white/80'}`}>
+                <FolderTree size={14} /> Folders
+              </button>
               <button onClick={() => toggleDesktopView('lyrics')} className={`flex items-center gap-2 px-5 py-2 rounded-full text-sm font-medium transition-all duration-300 ${desktopViewMode === 'lyrics' ? 'bg-white/10 text-white shadow-lg scale-105' : 'text-white/40 hover:text-white/80'}`}>
                 <Mic2 size={14} /> Lyrics
               </button>
+              <button onClick={() => toggleDesktopView('stats')} className={`flex items-center gap-2 px-5 py-2 rounded-full text-sm font-medium transition-all duration-300 ${desktopViewMode === 'stats' ? 'bg-white/10 text-white shadow-lg scale-105' : 'text-white/40 hover:text-white/80'}`}>
+                <BarChart3 size={14} /> Stats
+              </button>
+              <button onClick={() => toggleDesktopView('queue')} className={`flex items-center gap-2 px-5 py-2 rounded-full text-sm font-medium transition-all duration-300 ${desktopViewMode === 'queue' ? 'bg-white/10 text-white shadow-lg scale-105' : 'text-white/40 hover:text-white/80'}`}>
+                <ListOrdered size={14} /> Queue
+                {queue.length > 0 && <span className="text-[10px] font-mono text-white/40">{queue.length}</span>}
+              </button>
             </div>
           </div>
 
@@ -942,7 +1715,7 @@ const App: React.FC = () => {
             {/* Library View */}
             <div className={`absolute inset-0 transition-all duration-500 ease-elegant transform ${desktopViewMode === 'library' && !isImmersive ? 'opacity-100 translate-y-0 z-10' : 'opacity-0 translate-y-8 z-0 pointer-events-none'}`}>
               <Playlist
-                songs={songs}
+                songs={activeSongs}
                 currentSong={currentSong}
                 isPlaying={audioState.isPlaying}
                 onSelect={(song) => {
@@ -951,13 +1724,85 @@ const App: React.FC = () => {
                   if (window.innerWidth < 768) setIsMobileLibraryOpen(false);
                 }}
                 onAddFiles={handleFileSelect}
-                onAddFolderAPI={handleFolderSelectAPI}
-                onRemoveSong={handleRemoveSong}
+                onAddFolderAPI={isFileSystemAccessSupported() ? handleFolderSelectAPI : undefined}
+                folders={watchedFolders}
+                onRescanFolder={rescanFolder}
+                onRemoveFolder={removeFolder}
+                onRemoveSongs={handleRemoveSongs}
                 onUpdateLyrics={handleUpdateLyrics}
                 onReorder={handleReorder}
+                onMoveSongs={handleMoveSongs}
+                onClearLyrics={handleClearLyrics}
+                onClearVideo={handleClearVideo}
+                onExportSongs={handleExportSongs}
+                onEditMetadata={setMetadataEditorSongId}
+                onExportWithTags={handleExportWithTags}
+                onQueueSongs={handleQueueSongs}
 
                 accentColor={settings.accentColor}
                 onOpenMysteryCode={() => setIsMysteryCodeOpen(true)}
+                playlists={playlists}
+                onExport={handleExportPlaylist}
+                activePlaylistId={activePlaylist?.id ?? null}
+                librarySize={songs.length}
+                onSelectPlaylist={setActivePlaylistId}
+                onCreatePlaylist={() => createPlaylist('New Playlist')}
+                onRenamePlaylist={renamePlaylist}
+                onDuplicatePlaylist={handleDuplicatePlaylist}
+                onDeletePlaylist={handleDeletePlaylist}
+                onCreateSmartPlaylist={() => setSmartEditor({ playlistId: null })}
+                onEditSmartPlaylist={(id) => setSmartEditor({ playlistId: id })}
+                onAddToPlaylist={addToPlaylist}
+                onRemoveFromPlaylist={handleRemoveFromPlaylist}
+                libraryView={libraryView}
+                onChangeLibraryView={setLibraryView}
+              />
+            </div>
+
+            {/* Folder View */}
+            <div className={`absolute inset-0 transition-all duration-500 ease-elegant transform ${desktopViewMode === 'folders' && !isImmersive ? 'opacity-100 translate-y-0 z-10' : 'opacity-0 translate-y-8 z-0 pointer-events-none'}`}>
+              <FolderBrowser
+                songs={songs}
+                currentSong={currentSong}
+                isPlaying={audioState.isPlaying}
+                onSelect={(song) => {
+                  setCurrentSong(song);
+                  setAudioState(p => ({ ...p, isPlaying: true }));
+                  if (window.innerWidth < 768) setIsMobileLibraryOpen(false);
+                }}
+                accentColor={settings.accentColor}
+              />
+            </div>
+
+            {/* Stats View */}
+            <div className={`absolute inset-0 transition-all duration-500 ease-elegant transform ${desktopViewMode === 'stats' && !isImmersive ? 'opacity-100 translate-y-0 z-10' : 'opacity-0 translate-y-8 z-0 pointer-events-none'}`}>
+              <StatsView
+                songs={songs}
+                currentSong={currentSong}
+                playStats={playStats}
+                historyVersion={historyVersion}
+                isActive={desktopViewMode === 'stats' && !isImmersive}
+                onSelect={(song) => {
+                  setCurrentSong(song);
+                  setAudioState(p => ({ ...p, isPlaying: true }));
+                }}
+                accentColor={settings.accentColor}
+              />
+            </div>
+
+            {/* Queue View */}
+            <div className={`absolute inset-0 transition-all duration-500 ease-elegant transform ${desktopViewMode === 'queue' && !isImmersive ? 'opacity-100 translate-y-0 z-10' : 'opacity-0 translate-y-8 z-0 pointer-events-none'}`}>
+              <QueuePanel
+                queue={queue}
+                songs={songs}
+                currentSong={currentSong}
+                isPlaying={audioState.isPlaying}
+                continuesWith={activePlaylist?.name || 'the library'}
+                onPlayEntry={handlePlayQueueEntry}
+                onMoveEntry={moveQueueEntry}
+                onRemoveEntry={removeQueueEntry}
+                onClear={clearQueue}
+                accentColor={settings.accentColor}
               />
             </div>
 
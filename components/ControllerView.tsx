@@ -1,15 +1,24 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { Song, AudioState } from '../types';
-import { Play, Pause, SkipBack, SkipForward, Repeat, Shuffle, Volume2, Volume1, VolumeX, Music2, ChevronUp, ChevronDown } from 'lucide-react';
-import { SyncCommand } from '../hooks/usePresentationSync';
+import { Song, AudioState, AppSettings } from '../types';
+import { Play, Pause, SkipBack, SkipForward, Repeat, Repeat1, Shuffle, Volume2, Volume1, VolumeX, Music2, ChevronUp, ChevronDown, Library, ListMusic, ListStart, ListEnd, X } from 'lucide-react';
+import { SyncCommand, SyncPlaylistSummary, SyncQueueEntry } from '../hooks/usePresentationSync';
 import { CustomSlider } from './ui/CustomSlider';
+import { REPEAT_LABELS } from '../constants';
+import { nextRepeatMode } from '../utils';
 
 interface ControllerViewProps {
     currentSong: Song | null;
     currentCover: string | null;
     audioState: AudioState | null;
     songs: Song[];
+    playlists: SyncPlaylistSummary[];
+    activePlaylistId: string | null;
+    queue: SyncQueueEntry[];
+    sendCommand: (cmd: SyncCommand, payload?: any) => void;
+    accentColor: string;
+    lastSyncTime: number;
+    settings?: AppSettings;
     sendPing: () => void;
     lastPongTime: number;
 }
@@ -19,6 +28,9 @@ const ControllerView: React.FC<ControllerViewProps> = ({
     currentCover,
     audioState,
     songs,
+    playlists,
+    activePlaylistId,
+    queue,
     sendCommand,
     accentColor,
     lastSyncTime,
@@ -109,11 +121,12 @@ const ControllerView: React.FC<ControllerViewProps> = ({
                         <Shuffle size={16} />
                     </button>
                     <button
-                        onClick={() => sendCommand('SET_LOOP', !audioState.isLooping)}
-                        className={`p-2 rounded-lg transition-all duration-300 hover:scale-110 active:scale-95 ease-spring ${audioState.isLooping ? 'bg-white/10 text-white' : 'text-white/30 hover:text-white/70'}`}
-                        style={{ color: audioState.isLooping ? accentColor : undefined }}
+                        onClick={() => sendCommand('SET_LOOP', nextRepeatMode(audioState.repeatMode))}
+                        className={`p-2 rounded-lg transition-all duration-300 hover:scale-110 active:scale-95 ease-spring ${audioState.repeatMode !== 'off' ? 'bg-white/10 text-white' : 'text-white/30 hover:text-white/70'}`}
+                        style={{ color: audioState.repeatMode !== 'off' ? accentColor : undefined }}
+                        title={REPEAT_LABELS[audioState.repeatMode]}
                     >
-                        <Repeat size={16} />
+                        {audioState.repeatMode === 'one' ? <Repeat1 size={16} /> : <Repeat size={16} />}
                     </button>
                 </div>
             </div>
@@ -224,7 +237,73 @@ const ControllerView: React.FC<ControllerViewProps> = ({
                 flex-1 overflow-y-auto p-4 space-y-1 custom-scrollbar transition-all duration-1000
                 opacity-100 translate-y-0
             `}>
-                <h3 className="text-xs font-bold text-white/30 uppercase tracking-widest mb-3 pl-2">Up Next</h3>
+                {/* Playlist Switcher */}
+                {playlists.length > 0 && (
+                    <div className="flex gap-2 overflow-x-auto pb-3 mb-1 custom-scrollbar">
+                        {[{ id: null as string | null, name: 'Library' }, ...playlists].map(p => {
+                            const isActive = p.id === activePlaylistId;
+                            return (
+                                <button
+                                    key={p.id ?? 'library'}
+                                    onClick={() => sendCommand('SET_PLAYLIST', p.id)}
+                                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-xs font-semibold whitespace-nowrap transition-all active:scale-95 ${isActive ? 'bg-white/10 border-white/20 text-white' : 'border-white/5 text-white/40 hover:text-white/70 hover:bg-white/5'}`}
+                                >
+                                    {p.id === null
+                                        ? <Library size={12} style={{ color: isActive ? accentColor : undefined }} />
+                                        : <ListMusic size={12} style={{ color: isActive ? accentColor : undefined }} />}
+                                    {p.name}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+                {/* Queue */}
+                {queue.length > 0 && (
+                    <div className="mb-4">
+                        <div className="flex items-center justify-between mb-2 pl-2">
+                            <h3 className="text-xs font-bold text-white/30 uppercase tracking-widest">Queue · {queue.length}</h3>
+                            <button
+                                onClick={() => sendCommand('CLEAR_QUEUE')}
+                                className="px-2.5 py-1 rounded-full text-[11px] font-semibold text-white/40 hover:text-white hover:bg-white/10 transition-colors active:scale-95"
+                            >
+                                Clear
+                            </button>
+                        </div>
+                        {queue.map((entry, idx) => (
+                            <div key={entry.id} className="group flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-white/5 transition-all">
+                                <span className="w-10 text-center text-xs font-mono flex-shrink-0" style={{ color: accentColor }}>{idx + 1}</span>
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-medium text-white/80 truncate">{entry.title}</div>
+                                    <div className="text-xs text-white/40 truncate">{entry.artist}</div>
+                                </div>
+                                <div className="flex bg-white/5 rounded-lg overflow-hidden flex-col opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button
+                                        disabled={idx === 0}
+                                        onClick={() => sendCommand('MOVE_QUEUE_ITEM', { from: idx, to: idx - 1 })}
+                                        className="p-1 hover:bg-white/20 disabled:opacity-20"
+                                    >
+                                        <ChevronUp size={12} />
+                                    </button>
+                                    <button
+                                        disabled={idx === queue.length - 1}
+                                        onClick={() => sendCommand('MOVE_QUEUE_ITEM', { from: idx, to: idx + 1 })}
+                                        className="p-1 hover:bg-white/20 disabled:opacity-20"
+                                    >
+                                        <ChevronDown size={12} />
+                                    </button>
+                                </div>
+                                <button
+                                    onClick={() => sendCommand('REMOVE_FROM_QUEUE', entry.id)}
+                                    className="p-2 rounded-lg text-white/30 hover:text-white hover:bg-white/10 transition-colors active:scale-90"
+                                >
+                                    <X size={14} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <h3 className="text-xs font-bold text-white/30 uppercase tracking-widest mb-3 pl-2">{queue.length > 0 ? 'Then' : 'Up Next'}</h3>
                 {songs.map((song, idx) => {
                     const isCurrent = currentSong?.id === song.id;
                     return (
@@ -256,6 +335,26 @@ const ControllerView: React.FC<ControllerViewProps> = ({
                                 </div>
                             </div>
 
+                            {/* Queue Controls */}
+                            {!isCurrent && (
+                                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button
+                                        onClick={() => sendCommand('ENQUEUE', { songIds: [song.id], position: 'next' })}
+                                        className="p-2 rounded-lg bg-white/5 text-white/50 hover:text-white hover:bg-white/20 active:scale-90 transition-all"
+                                        title="Play Next"
+                                    >
+                                        <ListStart size={14} />
+                                    </button>
+                                    <button
+                                        onClick={() => sendCommand('ENQUEUE', { songIds: [song.id], position: 'last' })}
+                                        className="p-2 rounded-lg bg-white/5 text-white/50 hover:text-white hover:bg-white/20 active:scale-90 transition-all"
+                                        title="Add to Queue"
+                                    >
+                                        <ListEnd size={14} />
+                                    </button>
+                                </div>
+                            )}
+
                             {/* Reorder Controls */}
                             <div className="flex bg-white/5 rounded-lg overflow-hidden flex-col opacity-0 group-hover:opacity-100 transition-opacity">
                                 <button
@@ -1,6 +1,7 @@
 import React, { useState, useRef } from 'react';
-import { Play, Pause, SkipBack, SkipForward, Repeat, Shuffle, Volume2, VolumeX, Volume1 } from 'lucide-react';
+import { Play, Pause, SkipBack, SkipForward, Repeat, Repeat1, Shuffle, Volume2, VolumeX, Volume1 } from 'lucide-react';
 import { AudioState } from '../types';
+import { REPEAT_LABELS } from '../constants';
 
 interface ControlsProps {
   audioState: AudioState;
@@ -9,7 +10,7 @@ interface ControlsProps {
   onPrev: () => void;
   onSeek: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onVolumeChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  onToggleLoop: () => void;
+  onToggleLoop: () => void; // Steps through off, all and one
   onToggleShuffle: () => void;
   formatTime: (s: number) => string;
   accentColor: string;
@@ -62,11 +63,11 @@ const Controls: React.FC<ControlsProps> = ({
           </button>
           <button
             onClick={onToggleLoop}
-            className={`transition-all duration-300 hover:scale-110 active:scale-95 ease-spring ${!audioState.isLooping ? 'text-white/30 hover:text-white' : ''}`}
-            style={{ color: audioState.isLooping ? accentColor : undefined }}
-            title="Loop"
+            className={`transition-all duration-300 hover:scale-110 active:scale-95 ease-spring ${audioState.repeatMode === 'off' ? 'text-white/30 hover:text-white' : ''}`}
+            style={{ color: audioState.repeatMode !== 'off' ? accentColor : undefined }}
+            title={REPEAT_LABELS[audioState.repeatMode]}
           >
-            <Repeat size={18} />
+            {audioState.repeatMode === 'one' ? <Repeat1 size={18} /> : <Repeat size={18} />}
           </button>
         </div>
 
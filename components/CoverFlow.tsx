@@ -1,7 +1,9 @@
 
 import React, { useEffect, useState, useRef } from 'react';
-import { Song } from '../types';
-import { extractAlbumArt } from '../utils';
+import { QueuePosition, Song } from '../types';
+import { COVER_SIZES } from '../utils/coverArt';
+import { useCoverArt } from '../hooks/useCoverArt';
+import QueueMenu from './QueueMenu';
 import { Music2, Disc } from 'lucide-react';
 
 interface CoverFlowProps {
@@ -12,6 +14,7 @@ interface CoverFlowProps {
   onPlayPause: () => void;
   onNext: () => void;
   onPrev: () => void;
+  onQueueSongs?: (ids: string[], position: QueuePosition) => void;
   onClose: () => void;
   accentColor: string;
   showBackground: boolean;
@@ -37,17 +40,7 @@ const CoverCard = ({
   isPlaying: boolean;
   performanceMode: boolean;
 }) => {
-  const [cover, setCover] = useState<string | null>(null);
-
-  useEffect(() => {
-    let mounted = true;
-    if (loadCover && !cover) {
-      extractAlbumArt(song.file).then(art => {
-        if (mounted) setCover(art);
-      });
-    }
-    return () => { mounted = false; };
-  }, [song, loadCover, cover]);
+  const cover = useCoverArt(song, COVER_SIZES.coverflow, loadCover);
 
   return (
     <div className="w-full h-full relative group preserve-3d">
@@ -112,6 +105,7 @@ const CoverFlow: React.FC<CoverFlowProps> = ({
   onPlayPause,
   onNext,
   onPrev,
+  onQueueSongs,
   onClose,
   accentColor,
   showBackground,
@@ -127,6 +121,9 @@ const CoverFlow: React.FC<CoverFlowProps> = ({
   const startX = useRef(0);
   const hasDragged = useRef(false);
 
+  // Right-click menu for queueing a cover
+  const [queueMenu, setQueueMenu] = useState<{ song: Song; x: number; y: number } | null>(null);
+
   // Sync with currentSong prop
   useEffect(() => {
     if (currentSong) {
@@ -171,6 +168,8 @@ const CoverFlow: React.FC<CoverFlowProps> = ({
   // --- Pointer Gestures (Drag/Swipe) ---
 
   const handlePointerDown = (e: React.PointerEvent) => {
+    // Only the primary button drags; a right-click opens the queue menu
+    if (e.button !== 0) return;
     isDragging.current = true;
     startX.current = e.clientX;
     hasDragged.current = false;
@@ -286,6 +285,10 @@ const CoverFlow: React.FC<CoverFlowProps> = ({
             <div
               key={song.id}
               onClick={(e) => handleCardClick(e, i, song)}
+              onContextMenu={(e) => {
+                e.preventDefault();
+                if (onQueueSongs) setQueueMenu({ song, x: e.clientX, y: e.clientY });
+              }}
               className="absolute top-1/2 left-1/2 cursor-pointer pointer-events-auto"
               style={{
                 width: COVER_SIZE,
@@ -336,6 +339,17 @@ const CoverFlow: React.FC<CoverFlowProps> = ({
            </div>
          )}
       </div>
+
+      {queueMenu && onQueueSongs && (
+        <QueueMenu
+          song={queueMenu.song}
+          x={queueMenu.x}
+          y={queueMenu.y}
+          onQueue={(position) => onQueueSongs([queueMenu.song.id], position)}
+          onClose={() => setQueueMenu(null)}
+          accentColor={accentColor}
+        />
+      )}
     </div>
   );
 };
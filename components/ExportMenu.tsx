@@ -0,0 +1,101 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, Check, Loader2 } from 'lucide-react';
+import { NamedPlaylist } from '../types';
+import { PlaylistExportFormat } from '../utils/playlists';
+
+interface ExportMenuProps {
+  playlists: NamedPlaylist[];
+  // playlistId null = the library in its current order
+  onExport: (playlistId: string | null, format: PlaylistExportFormat) => Promise<void>;
+  accentColor: string;
+}
+
+export const EXPORT_FORMATS: { format: PlaylistExportFormat; label: string; hint: string }[] = [
+  { format: 'm3u8', label: 'M3U8', hint: 'Most players' },
+  { format: 'xspf', label: 'XSPF', hint: 'VLC, web players' },
+  { format: 'json', label: 'Rakko JSON', hint: 'Keeps lyrics & codes' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ playlists, onExport, accentColor }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<string | null>(null);
+  const [busyFormat, setBusyFormat] = useState<PlaylistExportFormat | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('click', handleClick);
+    return () => window.removeEventListener('click', handleClick);
+  }, [isOpen]);
+
+  // Fall back to the library if the chosen playlist is deleted
+  useEffect(() => {
+    if (source && !playlists.some(p => p.id === source)) setSource(null);
+  }, [playlists, source]);
+
+  const handleExport = async (format: PlaylistExportFormat) => {
+    setBusyFormat(format);
+    try {
+      await onExport(source, format);
+      setIsOpen(false);
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  const sources = [{ id: null as string | null, name: 'Library' }, ...playlists.map(p => ({ id: p.id as string | null, name: p.name }))];
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(v => !v)}
+        className="p-2.5 bg-white/10 rounded-full hover:bg-white text-white hover:text-black transition-all duration-300 shadow-lg hover:shadow-[0_0_20px_rgba(255,255,255,0.4)] hover:scale-110 active:scale-90 ease-spring"
+        title="Export Playlist"
+      >
+        <Download size={20} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-50 w-60 bg-[#1a1a1a]/95 backdrop-blur-2xl border border-white/10 rounded-xl shadow-[0_10px_40px_rgba(0,0,0,0.5)] overflow-hidden animate-scale-fade-in">
+          <div className="px-3 pt-3 pb-1 text-[10px] font-bold uppercase tracking-widest text-white/40">Export</div>
+          <div className="max-h-40 overflow-y-auto custom-scrollbar px-1">
+            {sources.map(s => (
+              <button
+                key={s.id ?? 'library'}
+                onClick={() => setSource(s.id)}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-left text-white/80 hover:bg-white/10 transition-colors"
+              >
+                <span className="w-3.5 shrink-0">{source === s.id && <Check size={14} style={{ color: accentColor }} />}</span>
+                <span className="truncate">{s.name}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="h-[1px] bg-white/5 my-1" />
+
+          <div className="px-1 pb-1">
+            {EXPORT_FORMATS.map(f => (
+              <button
+                key={f.format}
+                onClick={() => handleExport(f.format)}
+                disabled={busyFormat !== null}
+                className="w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm text-white/80 hover:bg-white/10 hover:text-white transition-colors disabled:opacity-50"
+              >
+                <span className="font-medium">{f.label}</span>
+                {busyFormat === f.format
+                  ? <Loader2 size={14} className="animate-spin" />
+                  : <span className="text-[11px] text-white/30">{f.hint}</span>}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,172 @@
+import React, { useMemo, useState, useEffect } from 'react';
+import { Song } from '../types';
+import { ChevronRight, Folder, FolderOpen, Music, FolderTree } from 'lucide-react';
+
+interface FolderBrowserProps {
+  songs: Song[];
+  currentSong: Song | null;
+  isPlaying: boolean;
+  onSelect: (song: Song) => void;
+  accentColor: string;
+}
+
+interface FolderNode {
+  name: string;
+  path: string;
+  folders: FolderNode[];
+  songs: Song[];
+  trackCount: number;
+}
+
+const createNode = (name: string, path: string): FolderNode => ({ name, path, folders: [], songs: [], trackCount: 0 });
+
+// Builds a folder tree from each song's relative path. Songs without one stay at the root.
+const buildFolderTree = (songs: Song[]): FolderNode => {
+  const root = createNode('', '');
+
+  songs.forEach(song => {
+    const parts = (song.relativePath || '').split('/').filter(Boolean);
+    parts.pop(); // File name
+
+    let node = root;
+    node.trackCount++;
+    parts.forEach(part => {
+      const path = node.path ? `${node.path}/${part}` : part;
+      let child = node.folders.find(f => f.name === part);
+      if (!child) {
+        child = createNode(part, path);
+        node.folders.push(child);
+      }
+      node = child;
+      node.trackCount++;
+    });
+    node.songs.push(song);
+  });
+
+  const sortNode = (node: FolderNode) => {
+    node.folders.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    node.folders.forEach(sortNode);
+  };
+  sortNode(root);
+
+  return root;
+};
+
+// Every folder path leading to a song, so the current track can be revealed
+const getAncestorPaths = (relativePath?: string): string[] => {
+  const parts = (relativePath || '').split('/').filter(Boolean);
+  parts.pop();
+  return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+};
+
+const FolderBrowser: React.FC<FolderBrowserProps> = ({
+  songs,
+  currentSong,
+  isPlaying,
+  onSelect,
+  accentColor
+}) => {
+  const tree = useMemo(() => buildFolderTree(songs), [songs]);
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(tree.folders.map(f => f.path)));
+
+  // Reveal the playing song's folder
+  useEffect(() => {
+    const paths = getAncestorPaths(currentSong?.relativePath);
+    if (paths.length === 0) return;
+    setExpanded(prev => paths.every(p => prev.has(p)) ? prev : new Set([...prev, ...paths]));
+  }, [currentSong?.id]);
+
+  const toggleFolder = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
+  const renderSong = (song: Song, depth: number) => {
+    const isActive = currentSong?.id === song.id;
+    const fileName = song.relativePath?.split('/').pop() || song.file?.name || song.name;
+
+    return (
+      <div
+        key={song.id}
+        onClick={() => onSelect(song)}
+        className={`group flex items-center gap-3 py-2 pr-3 rounded-lg cursor-pointer transition-all duration-200 select-none ${isActive ? 'bg-white/10' : 'hover:bg-white/5'}`}
+        style={{ paddingLeft: 12 + depth * 16 }}
+        title={fileName}
+      >
+        <div className="w-4 flex justify-center shrink-0">
+          {isActive && isPlaying ? (
+            <div className="w-1.5 h-1.5 rounded-full animate-pulse" style={{ backgroundColor: accentColor }} />
+          ) : (
+            <Music size={12} className="text-white/30 group-hover:text-white/60" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className={`text-sm truncate ${isActive ? 'text-white font-semibold' : 'text-white/70 group-hover:text-white'}`}>
+            {song.metadata?.title || song.name}
+          </div>
+          <div className="text-[11px] text-white/30 truncate">
+            {song.metadata?.artists.join(', ') || song.artist}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderFolder = (node: FolderNode, depth: number): React.ReactNode => {
+    const isOpen = expanded.has(node.path);
+    const containsCurrent = !!currentSong?.relativePath?.startsWith(`${node.path}/`);
+
+    return (
+      <div key={node.path}>
+        <div
+          onClick={() => toggleFolder(node.path)}
+          className="group flex items-center gap-2 py-2 pr-3 rounded-lg cursor-pointer hover:bg-white/5 transition-colors select-none"
+          style={{ paddingLeft: 8 + depth * 16 }}
+        >
+          <ChevronRight size={14} className={`text-white/30 transition-transform duration-200 ${isOpen ? 'rotate-90' : ''}`} />
+          {isOpen ? (
+            <FolderOpen size={16} style={{ color: containsCurrent ? accentColor : undefined }} className="text-white/50" />
+          ) : (
+            <Folder size={16} style={{ color: containsCurrent ? accentColor : undefined }} className="text-white/50" />
+          )}
+          <span className="flex-1 text-sm font-medium text-white/80 group-hover:text-white truncate">{node.name}</span>
+          <span className="text-[10px] text-white/30 font-mono">{node.trackCount}</span>
+        </div>
+        {isOpen && (
+          <div className="animate-slide-up-fade">
+            {node.folders.map(child => renderFolder(child, depth + 1))}
+            {node.songs.map(song => renderSong(song, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      <div className="px-6 md:px-8 pb-4 animate-slide-up-fade">
+        <h2 className="text-xl md:text-2xl font-bold text-white tracking-tight mb-4">Folders</h2>
+        <p className="text-white/40 text-sm font-medium">{tree.folders.length} Folders · {songs.length} Tracks</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 md:px-6 pb-4 custom-scrollbar">
+        {songs.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-white/20 space-y-4 border-2 border-dashed border-white/5 rounded-2xl m-2 animate-scale-fade-in">
+            <FolderTree size={32} />
+            <p className="text-sm font-bold text-white/40">Import a folder to browse it here</p>
+          </div>
+        ) : (
+          <>
+            {tree.folders.map(folder => renderFolder(folder, 0))}
+            {tree.songs.map(song => renderSong(song, 0))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FolderBrowser;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { ImportProgressInfo } from '../types';
+
+interface ImportProgressProps {
+  progress: ImportProgressInfo | null;
+  accentColor: string;
+}
+
+const ImportProgress: React.FC<ImportProgressProps> = ({ progress, accentColor }) => {
+  if (!progress) return null;
+
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-[120] w-72 px-4 py-3 rounded-2xl bg-black/70 backdrop-blur-xl border border-white/10 shadow-2xl animate-slide-up-fade pointer-events-none">
+      <div className="flex items-center gap-2 text-xs text-white/70 mb-2">
+        <Loader2 size={14} className="animate-spin shrink-0" style={{ color: accentColor }} />
+        <span className="flex-1 truncate font-medium">{progress.label}</span>
+        <span className="font-mono text-white/40">{progress.done}/{progress.total}</span>
+      </div>
+      <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+        <div className="h-full rounded-full transition-all duration-200" style={{ width: `${percent}%`, backgroundColor: accentColor }} />
+      </div>
+    </div>
+  );
+};
+
+export default ImportProgress;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { ListMusic, X, AlertTriangle } from 'lucide-react';
+import { PlaylistImportReport } from '../types';
+
+interface ImportReportProps {
+  reports: PlaylistImportReport[];
+  onDismiss: () => void;
+  accentColor: string;
+}
+
+const MAX_LISTED = 8;
+
+const ImportReport: React.FC<ImportReportProps> = ({ reports, onDismiss, accentColor }) => {
+  if (reports.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-28 right-6 z-[120] w-80 max-h-[50vh] flex flex-col rounded-2xl bg-black/80 backdrop-blur-xl border border-white/10 shadow-2xl animate-slide-up-fade">
+      <div className="flex items-center justify-between px-4 pt-3 pb-2">
+        <span className="text-xs font-bold uppercase tracking-widest text-white/50">Playlist Import</span>
+        <button
+          onClick={onDismiss}
+          className="p-1 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-all active:scale-90"
+          title="Dismiss"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar px-4 pb-3 space-y-3">
+        {reports.map(report => (
+          <div key={report.playlistId}>
+            <div className="flex items-center gap-2 text-sm text-white">
+              <ListMusic size={14} style={{ color: accentColor }} className="shrink-0" />
+              <span className="flex-1 truncate font-semibold">{report.name}</span>
+              <span className="text-[11px] font-mono text-white/40">{report.resolved}/{report.total}</span>
+            </div>
+
+            {report.unresolved.length > 0 && (
+              <div className="mt-1.5 pl-6 space-y-0.5">
+                <div className="flex items-center gap-1.5 text-[11px] text-yellow-400/80">
+                  <AlertTriangle size={11} /> {report.unresolved.length} not found in the library
+                </div>
+                {report.unresolved.slice(0, MAX_LISTED).map((entry, i) => (
+                  <div key={i} className="text-[11px] text-white/40 truncate" title={entry}>{entry}</div>
+                ))}
+                {report.unresolved.length > MAX_LISTED && (
+                  <div className="text-[11px] text-white/30">and {report.unresolved.length - MAX_LISTED} more</div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ImportReport;
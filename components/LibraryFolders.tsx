@@ -0,0 +1,52 @@
+import React from 'react';
+import { Folder, RefreshCw, Lock, X } from 'lucide-react';
+import { WatchedFolderView } from '../hooks/useWatchedFolders';
+
+interface LibraryFoldersProps {
+  folders: WatchedFolderView[];
+  onRescan: (id: string) => void;
+  onRemove: (id: string) => void;
+  accentColor: string;
+}
+
+const LibraryFolders: React.FC<LibraryFoldersProps> = ({ folders, onRescan, onRemove, accentColor }) => {
+  if (folders.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-3">
+      {folders.map(folder => {
+        const isScanning = folder.status === 'scanning';
+        const isLocked = folder.status === 'needs-permission' || folder.status === 'denied';
+
+        return (
+          <div
+            key={folder.id}
+            className="group flex items-center gap-1.5 pl-3 pr-1 py-1 rounded-full bg-white/5 border border-white/5 text-xs text-white/60 hover:bg-white/10 transition-colors animate-scale-fade-in"
+            title={folder.lastScanned ? `Last scanned ${new Date(folder.lastScanned).toLocaleString()}` : 'Not scanned yet'}
+          >
+            {isLocked ? <Lock size={12} className="text-yellow-400/80" /> : <Folder size={12} style={{ color: accentColor }} />}
+            <span className="max-w-[120px] truncate font-medium">{folder.name}</span>
+
+            <button
+              onClick={() => onRescan(folder.id)}
+              disabled={isScanning}
+              className="p-1 rounded-full hover:bg-white/10 hover:text-white transition-all active:scale-90 disabled:opacity-60"
+              title={isLocked ? 'Grant Access & Rescan' : 'Rescan'}
+            >
+              <RefreshCw size={12} className={isScanning ? 'animate-spin' : ''} />
+            </button>
+            <button
+              onClick={() => onRemove(folder.id)}
+              className="p-1 rounded-full opacity-0 group-hover:opacity-100 hover:bg-red-500/20 hover:text-red-300 transition-all active:scale-90"
+              title="Remove Folder"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LibraryFolders;
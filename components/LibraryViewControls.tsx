@@ -0,0 +1,82 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ArrowUpDown, ArrowDownWideNarrow, ArrowUpNarrowWide, Check } from 'lucide-react';
+import { LibraryGroupKey, LibrarySortKey, LibraryViewOptions } from '../types';
+import { GROUP_LABELS, SORT_LABELS } from '../utils/librarySort';
+
+interface LibraryViewControlsProps {
+  view: LibraryViewOptions;
+  onChange: (view: LibraryViewOptions) => void;
+  accentColor: string;
+}
+
+const SORT_KEYS = Object.keys(SORT_LABELS) as LibrarySortKey[];
+const GROUP_KEYS = Object.keys(GROUP_LABELS) as LibraryGroupKey[];
+
+const LibraryViewControls: React.FC<LibraryViewControlsProps> = ({ view, onChange, accentColor }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('click', handleClick);
+    return () => window.removeEventListener('click', handleClick);
+  }, [isOpen]);
+
+  const isCustomized = view.sortKey !== 'manual' || view.groupBy !== 'none' || view.sortDirection !== 'asc';
+
+  const option = (label: string, isSelected: boolean, onClick: () => void) => (
+    <button
+      key={label}
+      onClick={onClick}
+      className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-left text-white/80 hover:bg-white/10 transition-colors"
+    >
+      <span className="w-3.5 shrink-0">{isSelected && <Check size={14} style={{ color: accentColor }} />}</span>
+      <span className="truncate">{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(v => !v)}
+        className="p-2.5 bg-white/10 rounded-full hover:bg-white text-white hover:text-black transition-all duration-300 shadow-lg hover:shadow-[0_0_20px_rgba(255,255,255,0.4)] hover:scale-110 active:scale-90 ease-spring"
+        style={{ color: isCustomized && !isOpen ? accentColor : undefined }}
+        title="Sort & Group"
+      >
+        <ArrowUpDown size={20} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-50 w-52 bg-[#1a1a1a]/95 backdrop-blur-2xl border border-white/10 rounded-xl shadow-[0_10px_40px_rgba(0,0,0,0.5)] overflow-hidden animate-scale-fade-in">
+          <div className="flex items-center justify-between px-3 pt-3 pb-1">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-white/40">Sort By</span>
+            <button
+              onClick={() => onChange({ ...view, sortDirection: view.sortDirection === 'asc' ? 'desc' : 'asc' })}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-semibold text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+              title="Reverse Order"
+            >
+              {view.sortDirection === 'asc' ? <ArrowUpNarrowWide size={12} /> : <ArrowDownWideNarrow size={12} />}
+              {view.sortDirection === 'asc' ? 'Asc' : 'Desc'}
+            </button>
+          </div>
+          <div className="px-1">
+            {SORT_KEYS.map(key => option(SORT_LABELS[key], view.sortKey === key, () => onChange({ ...view, sortKey: key })))}
+          </div>
+
+          <div className="h-[1px] bg-white/5 my-1" />
+
+          <div className="px-3 pt-1 pb-1 text-[10px] font-bold uppercase tracking-widest text-white/40">Group By</div>
+          <div className="px-1 pb-1">
+            {GROUP_KEYS.map(key => option(GROUP_LABELS[key], view.groupBy === key, () => onChange({ ...view, groupBy: key })))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryViewControls;
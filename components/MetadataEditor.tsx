@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Pencil, ImagePlus, RotateCcw, Music } from 'lucide-react';
+import { ParsedMusicInfo, Song } from '../types';
+import { extractAlbumArt } from '../utils';
+
+interface MetadataEditorProps {
+  // null = closed
+  song: Song | null;
+  // cover null = use the file's own artwork
+  onSave: (metadata: ParsedMusicInfo, cover: Blob | null) => void;
+  // Drops the edits and goes back to what the file name and tags say
+  onReset?: () => void;
+  onClose: () => void;
+  accentColor: string;
+}
+
+type FieldKey = 'title' | 'artists' | 'features' | 'album' | 'albumArtist' | 'version' | 'extra' | 'trackNumber' | 'discNumber' | 'year' | 'genre';
+
+const FIELDS: { key: FieldKey; label: string; hint?: string; type?: 'number'; wide?: boolean }[] = [
+  { key: 'title', label: 'Title', wide: true },
+  { key: 'artists', label: 'Artists', hint: 'Separate with commas', wide: true },
+  { key: 'features', label: 'Featuring', hint: 'Separate with commas', wide: true },
+  { key: 'album', label: 'Album' },
+  { key: 'albumArtist', label: 'Album Artist' },
+  { key: 'version', label: 'Version', hint: 'e.g. Live, Remix, Acoustic' },
+  { key: 'extra', label: 'Extra', hint: 'e.g. a translated title' },
+  { key: 'trackNumber', label: 'Track', type: 'number' },
+  { key: 'discNumber', label: 'Disc', type: 'number' },
+  { key: 'year', label: 'Year', type: 'number' },
+  { key: 'genre', label: 'Genre' },
+];
+
+const toForm = (song: Song): Record<FieldKey, string> => {
+  const meta = song.metadata;
+  return {
+    title: meta?.title || song.name,
+    artists: (meta?.artists || [song.artist]).join(', '),
+    features: (meta?.features || []).join(', '),
+    album: meta?.album || '',
+    albumArtist: meta?.albumArtist || '',
+    version: meta?.version || '',
+    extra: meta?.extra || '',
+    trackNumber: meta?.trackNumber?.toString() || '',
+    discNumber: meta?.discNumber?.toString() || '',
+    year: meta?.year?.toString() || '',
+    genre: meta?.genre || '',
+  };
+};
+
+const toList = (value: string) => [...new Set(value.split(',').map(s => s.trim()).filter(Boolean))];
+const toText = (value: string) => value.trim() || null;
+const toNumber = (value: string) => {
+  const n = parseInt(value, 10);
+  return isNaN(n) ? null : n;
+};
+
+const fromForm = (form: Record<FieldKey, string>): ParsedMusicInfo => {
+  const artists = toList(form.artists);
+  return {
+    title: form.title.trim(),
+    artists,
+    // An artist can't also be featured on their own song
+    features: toList(form.features).filter(f => !artists.includes(f)),
+    album: toText(form.album),
+    albumArtist: toText(form.albumArtist),
+    version: toText(form.version),
+    extra: toText(form.extra),
+    trackNumber: toNumber(form.trackNumber),
+    discNumber: toNumber(form.discNumber),
+    year: toNumber(form.year),
+    genre: toText(form.genre),
+  };
+};
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-white/30 placeholder:text-white/20";
+
+const MetadataEditor: React.FC<MetadataEditorProps> = ({ song, onSave, onReset, onClose, accentColor }) => {
+  const [form, setForm] = useState<Record<FieldKey, string> | null>(null);
+  const [cover, setCover] = useState<Blob | null>(null);
+  const [coverPreview, setCoverPreview] = useState<string | null>(null);
+  const coverInputRef = useRef<HTMLInputElement>(null);
+
+  // Start from the song being edited
+  useEffect(() => {
+    if (!song) return;
+    setForm(toForm(song));
+    setCover(song.coverOverride || null);
+  }, [song?.id]);
+
+  // Preview the picked image, or the file's own artwork
+  useEffect(() => {
+    if (!song) return;
+    if (cover) {
+      const url = URL.createObjectURL(cover);
+      setCoverPreview(url);
+      return () => URL.revokeObjectURL(url);
+    }
+    let cancelled = false;
+    setCoverPreview(null);
+    extractAlbumArt(song.file, song.coverFile).then(art => {
+      if (!cancelled) setCoverPreview(art);
+    });
+    return () => { cancelled = true; };
+  }, [song?.id, cover]);
+
+  if (!song || !form) return null;
+
+  const handleCoverSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setCover(file);
+    e.target.value = '';
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(fromForm(form), cover);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={onClose} />
+
+      {/* Modal */}
+      <form
+        onSubmit={handleSubmit}
+        className="relative w-full max-w-[620px] max-h-[90vh] flex flex-col rounded-xl bg-[#0f0f0f] border border-white/10 shadow-[0_20px_60px_-10px_rgba(0,0,0,0.8)] animate-in fade-in zoom-in-95"
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-3 right-3 p-2 text-white/20 hover:text-white hover:bg-white/10 rounded-lg transition-colors z-20"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="p-6 pb-4">
+          <h2 className="text-lg font-semibold text-white tracking-tight flex items-center gap-2">
+            <Pencil size={18} style={{ color: accentColor }} />
+            Edit Info
+          </h2>
+          <p className="text-xs text-white/40 mt-1 truncate" title={song.relativePath || song.file?.name}>
+            {song.relativePath || song.file?.name || song.name}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-6 flex flex-col sm:flex-row gap-6">
+          {/* Cover */}
+          <div className="flex flex-col items-center gap-2 shrink-0">
+            <div className="w-36 h-36 rounded-lg overflow-hidden bg-white/5 border border-white/10 flex items-center justify-center">
+              {coverPreview
+                ? <img src={coverPreview} alt="" className="w-full h-full object-cover" />
+                : <Music size={32} className="text-white/20" />}
+            </div>
+            <button
+              type="button"
+              onClick={() => coverInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[11px] font-medium text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+            >
+              <ImagePlus size={12} /> Choose Image
+            </button>
+            {cover && (
+              <button
+                type="button"
+                onClick={() => setCover(null)}
+                className="px-2.5 py-1 rounded-full text-[11px] font-medium text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+              >
+                Use File Artwork
+              </button>
+            )}
+            <input ref={coverInputRef} type="file" accept="image/*" className="hidden" onChange={handleCoverSelect} />
+          </div>
+
+          {/* Fields */}
+          <div className="flex-1 grid grid-cols-2 gap-3 content-start">
+            {FIELDS.map(field => (
+              <label key={field.key} className={`flex flex-col gap-1 ${field.wide ? 'col-span-2' : ''}`}>
+                <span className="text-[10px] font-bold uppercase tracking-widest text-white/40">{field.label}</span>
+                <input
+                  value={form[field.key]}
+                  onChange={(e) => setForm(prev => prev && { ...prev, [field.key]: e.target.value })}
+                  type={field.type || 'text'}
+                  min={field.type === 'number' ? 0 : undefined}
+                  placeholder={field.hint}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between p-6 pt-4 border-t border-white/5 mt-4">
+          {onReset ? (
+            <button
+              type="button"
+              onClick={onReset}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+              title="Forget the edits and read the file name and tags again"
+            >
+              <RotateCcw size={14} /> Reset to File
+            </button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-sm text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!form.title.trim()}
+              className="px-4 py-2 rounded-lg text-sm font-semibold text-black transition-all active:scale-95 disabled:opacity-40"
+              style={{ backgroundColor: accentColor }}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default MetadataEditor;
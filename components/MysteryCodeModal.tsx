@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { X, ArrowRight, Loader2, Download, CheckCircle2, AlertCircle } from 'lucide-react';
 import { Song } from '../types';
-import { parseMusicInfo } from '../utils';
+import { resolveMysteryCode } from '../utils/mysteryCode';
 
 interface MysteryCodeModalProps {
     isOpen: boolean;
@@ -46,170 +46,6 @@ const MysteryCodeModal: React.FC<MysteryCodeModalProps> = ({ isOpen, onClose, on
         onClose();
     };
 
-    const downloadFile = async (url: string, signal: AbortSignal, onProgress?: (loaded: number, total: number, speed: number) => void): Promise<Blob> => {
-        const startTime = performance.now();
-        const response = await fetch(url, { signal });
-        if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.statusText}`);
-
-        const contentLength = response.headers.get('content-length');
-        const total = contentLength ? parseInt(contentLength, 10) : 0;
-        let loaded = 0;
-
-        const reader = response.body?.getReader();
-        if (!reader) throw new Error('ReadableStream not supported');
-
-        const chunks: Uint8Array[] = [];
-
-        try {
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                chunks.push(value);
-                loaded += value.length;
-
-                const currentTime = performance.now();
-                const elapsed = (currentTime - startTime) / 1000; // seconds
-                const speed = elapsed > 0 ? loaded / elapsed : 0; // bytes/sec
-
-                if (onProgress) {
-                    onProgress(loaded, total, speed);
-                }
-            }
-        } catch (err: any) {
-            if (err.name === 'AbortError') {
-                throw new Error('Download cancelled');
-            }
-            throw err;
-        }
-
-        return new Blob(chunks as any, { type: response.headers.get('content-type') || 'application/octet-stream' });
-    };
-
-    const formatSpeed = (bytesPerSec: number): string => {
-        if (bytesPerSec > 1024 * 1024) return `${(bytesPerSec / (1024 * 1024)).toFixed(1)} MB/s`;
-        if (bytesPerSec > 1024) return `${(bytesPerSec / 1024).toFixed(1)} KB/s`;
-        return `${Math.round(bytesPerSec)} B/s`;
-    };
-
-    const resolveMysteryCode = async (inputCode: string, signal: AbortSignal) => {
-        const baseUrl = inputCode.replace(/\/+$/, '');
-        const codeName = baseUrl.split('/').pop() || 'Unknown';
-        const info = parseMusicInfo(decodeURIComponent(codeName));
-
-        setStatus('Probing resources...');
-        console.log(`[MysteryCode] Resolving: ${baseUrl}`);
-
-        // 1. Probe Audio
-        const audioExtensions = ['mp3', 'flac', 'wav', 'ogg', 'm4a'];
-        let audioUrl: string | null = null;
-        let foundExt = '';
-
-        // Probe Logic (HEAD requests)
-        for (const ext of audioExtensions) {
-            if (signal.aborted) throw new Error('Cancelled');
-            const testUrl = `${baseUrl}/music.${ext}`;
-            try {
-                const res = await fetch(testUrl, { method: 'HEAD', signal });
-                if (res.ok) {
-                    const contentType = res.headers.get('content-type');
-                    if (contentType && (contentType.includes('text/html') || contentType.includes('application/json'))) {
-                        continue;
-                    }
-                    audioUrl = testUrl;
-                    foundExt = ext;
-                    break;
-                }
-            } catch (e: any) {
-                if (e.name === 'AbortError') throw e;
-                console.warn(`[MysteryCode] Failed to probe ${testUrl}`, e);
-            }
-        }
-
-        if (!audioUrl) throw new Error("No audio found for this code.");
-
-        // 2. Download Audio
-        setStatus(`Downloading Audio (${foundExt.toUpperCase()})...`);
-        const audioBlob = await downloadFile(audioUrl, signal, (loaded, total, speed) => {
-            if (total > 0) {
-                setProgress(Math.round((loaded / total) * 100));
-            }
-            setDownloadSpeed(formatSpeed(speed));
-        });
-        const localAudioUrl = URL.createObjectURL(audioBlob);
-
-
-        // 3. Probe & Download Video (Optional)
-        let localVideoUrl: string | undefined = undefined;
-        try {
-            if (signal.aborted) throw new Error('Cancelled');
-            // Quick HEAD check
-            const testVideo = `${baseUrl}/video.mp4`;
-            const headRes = await fetch(testVideo, { method: 'HEAD', signal });
-            if (headRes.ok) {
-                setStatus('Downloading Video...');
-                setProgress(0);
-                const videoBlob = await downloadFile(testVideo, signal, (loaded, total, speed) => {
-                    if (total > 0) setProgress(Math.round((loaded / total) * 100));
-                    setDownloadSpeed(formatSpeed(speed));
-                });
-                localVideoUrl = URL.createObjectURL(videoBlob);
-            }
-        } catch (e: any) { if (e.name === 'AbortError') throw e; }
-
-        // 4. Probe & Download Lyrics
-        let lyrics: string | undefined = undefined;
-        try {
-            if (signal.aborted) throw new Error('Cancelled');
-            setStatus('Fetching Lyrics...');
-            const testLrc = `${baseUrl}/lyrics.lrc`;
-            const res = await fetch(testLrc, { signal });
-            if (res.ok) {
-                lyrics = await res.text();
-            }
-        } catch (e: any) { if (e.name === 'AbortError') throw e; }
-
-        // 5. Probe & Info
-        try {
-            if (signal.aborted) throw new Error('Cancelled');
-            setStatus('Reading Info...');
-            const testInfo = `${baseUrl}/info.txt`;
-            const res = await fetch(testInfo, { signal });
-            if (res.ok) {
-                const text = await res.text();
-                const lines = text.split('\n');
-                lines.forEach(line => {
-                    const [key, ...values] = line.split(':');
-                    if (key && values.length > 0) {
-                        const cleanKey = key.trim().toLowerCase();
-                        const cleanValue = values.join(':').trim();
-                        if (cleanValue) {
-                            if (cleanKey === 'title') info.title = cleanValue;
-                            if (cleanKey === 'artist') info.artists = cleanValue.split(',').map(s => s.trim());
-                            if (cleanKey === 'album') info.album = cleanValue;
-                            if (cleanKey === 'version') info.version = cleanValue;
-                            if (cleanKey === 'extra') info.extra = cleanValue;
-                        }
-                    }
-                });
-            }
-        } catch (e: any) { if (e.name === 'AbortError') throw e; }
-
-        const audioFile = new File([audioBlob], `music.${foundExt}`, { type: audioBlob.type });
-
-        return {
-            id: Math.random().toString(36).substr(2, 9),
-            name: info.title,
-            artist: info.artists.join(', ') || 'Unknown Artist',
-            url: localAudioUrl,
-            file: audioFile,
-            videoUrl: localVideoUrl,
-            lyrics,
-            metadata: info,
-            mysteryCode: inputCode
-        };
-    };
-
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!code.trim()) return;
@@ -228,7 +64,11 @@ const MysteryCodeModal: React.FC<MysteryCodeModalProps> = ({ isOpen, onClose, on
         setStatus('Initializing...');
 
         try {
-            const newSong = await resolveMysteryCode(code.trim(), controller.signal);
+            const newSong = await resolveMysteryCode(code.trim(), controller.signal, update => {
+                if (update.status !== undefined) setStatus(update.status);
+                if (update.progress !== undefined) setProgress(update.progress);
+                if (update.speed !== undefined) setDownloadSpeed(update.speed);
+            });
             if (controller.signal.aborted) return;
 
             setStatus('Complete!');
@@ -1,6 +1,18 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Song } from '../types';
-import { Music, Plus, Play, Trash2, FileText, Mic2, Disc, UploadCloud, GripVertical, FolderPlus, Globe } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo, useDeferredValue } from 'react';
+import { LibraryViewOptions, NamedPlaylist, QueuePosition, Song } from '../types';
+import { WatchedFolderView } from '../hooks/useWatchedFolders';
+import { useContextMenuPosition } from '../hooks/useContextMenuPosition';
+import { PlaylistExportFormat } from '../utils/playlists';
+import { canWriteTags } from '../utils/tagWriter';
+import { matchLyrics, readFileAsText } from '../utils';
+import { buildSearchIndex, searchSongs, SearchResult } from '../utils/search';
+import { groupSongs, isManualOrder } from '../utils/librarySort';
+import { HighlightedText } from './ui/HighlightedText';
+import LibraryViewControls from './LibraryViewControls';
+import LibraryFolders from './LibraryFolders';
+import ExportMenu, { EXPORT_FORMATS } from './ExportMenu';
+import PlaylistSidebar from './PlaylistSidebar';
+import { Music, Plus, Play, Trash2, FileText, Mic2, Disc, UploadCloud, GripVertical, FolderPlus, Globe, ListPlus, ListX, ListMusic, PanelLeftClose, PanelLeftOpen, Search, X, ChevronRight, ArrowUpToLine, ArrowDownToLine, MicOff, VideoOff, Download, Ellipsis, Pencil, FileDown, ListStart, ListEnd } from 'lucide-react';
 
 interface PlaylistProps {
   songs: Song[];
@@ -9,11 +21,39 @@ interface PlaylistProps {
   onSelect: (song: Song) => void;
   onAddFiles: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onAddFolderAPI?: () => void;
-  onRemoveSong: (id: string) => void;
-  onUpdateLyrics: (id: string, lyrics: string) => void;
+  folders?: WatchedFolderView[];
+  onRescanFolder?: (id: string) => void;
+  onRemoveFolder?: (id: string) => void;
+  onRemoveSongs: (ids: string[]) => void;
+  onUpdateLyrics: (lyricsById: Record<string, string>) => void;
   onReorder: (sourceIndex: number, destinationIndex: number) => void;
+  // Bulk actions on the selection
+  onMoveSongs?: (ids: string[], beforeId: string | null) => void;
+  onClearLyrics?: (ids: string[]) => void;
+  onClearVideo?: (ids: string[]) => void;
+  onExportSongs?: (ids: string[], format: PlaylistExportFormat) => Promise<void>;
+  onEditMetadata?: (id: string) => void;
+  onExportWithTags?: (ids: string[]) => Promise<void>;
+  onQueueSongs?: (ids: string[], position: QueuePosition) => void;
   accentColor: string;
   onOpenMysteryCode?: () => void;
+  playlists?: NamedPlaylist[];
+  onExport?: (playlistId: string | null, format: PlaylistExportFormat) => Promise<void>;
+  // Playlist manager: `songs` is the active playlist's tracks, or the library when none is active
+  activePlaylistId?: string | null;
+  librarySize?: number;
+  onSelectPlaylist?: (playlistId: string | null) => void;
+  onCreatePlaylist?: () => NamedPlaylist;
+  onRenamePlaylist?: (id: string, name: string) => void;
+  onDuplicatePlaylist?: (id: string) => void;
+  onDeletePlaylist?: (id: string) => void;
+  onCreateSmartPlaylist?: () => void;
+  onEditSmartPlaylist?: (id: string) => void;
+  onAddToPlaylist?: (playlistId: string, songIds: string[]) => void;
+  onRemoveFromPlaylist?: (songIds: string[]) => void;
+  // Sort & group; `songs` arrive already ordered by it
+  libraryView?: LibraryViewOptions;
+  onChangeLibraryView?: (view: LibraryViewOptions) => void;
 }
 
 const Playlist: React.FC<PlaylistProps> = ({
@@ -23,69 +63,304 @@ const Playlist: React.FC<PlaylistProps> = ({
   onSelect,
   onAddFiles,
   onAddFolderAPI,
-  onRemoveSong,
+  folders = [],
+  onRescanFolder,
+  onRemoveFolder,
+  onRemoveSongs,
   onUpdateLyrics,
-
   onReorder,
+  onMoveSongs,
+  onClearLyrics,
+  onClearVideo,
+  onExportSongs,
+  onEditMetadata,
+  onExportWithTags,
+  onQueueSongs,
   accentColor,
-  onOpenMysteryCode
+  onOpenMysteryCode,
+  playlists = [],
+  onExport,
+  activePlaylistId = null,
+  librarySize,
+  onSelectPlaylist,
+  onCreatePlaylist,
+  onRenamePlaylist,
+  onDuplicatePlaylist,
+  onDeletePlaylist,
+  onCreateSmartPlaylist,
+  onEditSmartPlaylist,
+  onAddToPlaylist,
+  onRemoveFromPlaylist,
+  libraryView,
+  onChangeLibraryView
 }) => {
-  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; songId: string } | null>(null);
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; songIds: string[] } | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(() => window.innerWidth >= 768);
+
+  const activePlaylist = playlists.find(p => p.id === activePlaylistId) || null;
+
+  // Search
+  const [query, setQuery] = useState('');
+  const [searchLyrics, setSearchLyrics] = useState(false);
+  const deferredQuery = useDeferredValue(query);
+  const isSearching = deferredQuery.trim().length > 0;
   const lyricsInputRef = useRef<HTMLInputElement>(null);
+  // Songs the lyrics file picker was opened for
+  const lyricsTargetsRef = useRef<string[]>([]);
   const menuRef = useRef<HTMLDivElement>(null);
   const lastDragEndRef = useRef<number>(0);
 
+  // Multi-select: the selected ids, where shift-click ranges start from,
+  // and the keyboard cursor (also the highlighted search result)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [cursorId, setCursorId] = useState<string | null>(null);
+
   // Drag and Drop State
   const [draggedItemIndex, setDraggedItemIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  // Set when a multi-selection is dragged as a block
+  const [draggedIds, setDraggedIds] = useState<string[] | null>(null);
+
+  // The index is only built while searching and follows the list being shown
+  const searchIndex = useMemo(
+    () => isSearching ? buildSearchIndex(songs, searchLyrics) : null,
+    [songs, searchLyrics, isSearching]
+  );
+  const results = useMemo(
+    () => searchIndex ? searchSongs(searchIndex, deferredQuery) : [],
+    [searchIndex, deferredQuery]
+  );
+  const resultsById = useMemo(() => new Map<string, SearchResult>(results.map(r => [r.song.id, r])), [results]);
+  const visibleSongs = useMemo(() => isSearching ? results.map(r => r.song) : songs, [isSearching, results, songs]);
 
-  // Close context menu on click outside
   useEffect(() => {
-    const handleClick = (e: MouseEvent) => {
-      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
-        setContextMenu(null);
-      }
-    };
-    window.addEventListener('click', handleClick);
-    return () => window.removeEventListener('click', handleClick);
-  }, []);
+    setCursorId(results[0]?.song.id ?? null);
+  }, [results]);
+
+  // A different list starts with nothing selected
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setAnchorId(null);
+  }, [activePlaylistId]);
+
+  // Group headers, each with the list index of its first song
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const groups = useMemo(() => {
+    if (!libraryView || libraryView.groupBy === 'none') return null;
+    let start = 0;
+    return groupSongs(songs, libraryView.groupBy).map(group => {
+      const withStart = { ...group, start };
+      start += group.songs.length;
+      return withStart;
+    });
+  }, [songs, libraryView]);
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // Rows on screen, in order; songs in collapsed groups can't be reached with the keyboard
+  const shownSongs = useMemo(
+    () => isSearching || !groups ? visibleSongs : groups.flatMap(g => collapsedGroups.has(g.key) ? [] : g.songs),
+    [isSearching, groups, visibleSongs, collapsedGroups]
+  );
+  // Selected songs that are still listed, in list order
+  const selection = useMemo(() => visibleSongs.filter(s => selectedIds.has(s.id)), [visibleSongs, selectedIds]);
+
+  // Songs only move within the stored order, and a smart playlist has none
+  const canMove = !activePlaylist?.smart && (!libraryView || isManualOrder(libraryView));
+  // Dragging also needs every song on screen
+  const canReorder = canMove && !isSearching;
+
+  // Keep the keyboard cursor in view
+  useEffect(() => {
+    if (cursorId) document.getElementById(`playlist-song-${cursorId}`)?.scrollIntoView({ block: 'nearest' });
+  }, [cursorId]);
+
+  // --- Selection ---
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAnchorId(null);
+  };
+
+  const selectRange = (fromId: string, toId: string, additive: boolean) => {
+    const from = shownSongs.findIndex(s => s.id === fromId);
+    const to = shownSongs.findIndex(s => s.id === toId);
+    if (to === -1) return;
+    const [start, end] = from === -1 ? [to, to] : [Math.min(from, to), Math.max(from, to)];
+    const range = shownSongs.slice(start, end + 1).map(s => s.id);
+    setSelectedIds(prev => new Set(additive ? [...prev, ...range] : range));
+  };
+
+  const toggleSelected = (songId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(songId)) next.delete(songId);
+      else next.add(songId);
+      return next;
+    });
+  };
+
+  // Arrow keys: move the cursor, selecting the song it lands on (or the range with Shift).
+  // While searching, plain arrows only move the highlighted result.
+  const moveCursor = (delta: number, extend: boolean) => {
+    if (shownSongs.length === 0) return;
+    const current = shownSongs.findIndex(s => s.id === cursorId);
+    const nextIndex = current === -1
+      ? (delta > 0 ? 0 : shownSongs.length - 1)
+      : Math.max(0, Math.min(current + delta, shownSongs.length - 1));
+    const next = shownSongs[nextIndex];
+    setCursorId(next.id);
+
+    if (extend) {
+      const anchor = anchorId ?? shownSongs[current]?.id ?? next.id;
+      setAnchorId(anchor);
+      selectRange(anchor, next.id, false);
+    } else if (!isSearching) {
+      setSelectedIds(new Set([next.id]));
+      setAnchorId(next.id);
+    }
+  };
+
+  const playCursor = () => {
+    const song = shownSongs.find(s => s.id === cursorId);
+    if (song) onSelect(song);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      moveCursor(e.key === 'ArrowDown' ? 1 : -1, e.shiftKey);
+    } else if (e.key === 'Enter') {
+      playCursor();
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    }
+  };
+
+  const handleListKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Group headers handle their own Enter
+    if ((e.target as HTMLElement).tagName === 'BUTTON' && e.key === 'Enter') return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      moveCursor(e.key === 'ArrowDown' ? 1 : -1, e.shiftKey);
+    } else if (e.key.toLowerCase() === 'a' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      setSelectedIds(new Set(shownSongs.map(s => s.id)));
+    } else if (e.key === 'Escape') {
+      clearSelection();
+    } else if (e.key === 'Enter') {
+      playCursor();
+    } else if ((e.key === 'Delete' || e.key === 'Backspace') && selection.length > 0) {
+      e.preventDefault();
+      removeTargets(selection.map(s => s.id), canRemoveFromPlaylist);
+    }
+  };
+
+  // Plain click plays; Ctrl/Cmd-click toggles; Shift-click selects a range
+  const handleSongClick = (e: React.MouseEvent, song: Song) => {
+    if (Date.now() - lastDragEndRef.current < 200) {
+      console.log("[Playlist] Click ignored due to recent drag");
+      return;
+    }
+    setCursorId(song.id);
+    if (e.shiftKey) {
+      selectRange(anchorId ?? song.id, song.id, e.ctrlKey || e.metaKey);
+      if (!anchorId) setAnchorId(song.id);
+      return;
+    }
+    if (e.ctrlKey || e.metaKey) {
+      toggleSelected(song.id);
+      setAnchorId(song.id);
+      return;
+    }
+    clearSelection();
+    setAnchorId(song.id);
+    onSelect(song);
+  };
+
+  // --- Context Menu & Bulk Actions ---
+
+  useContextMenuPosition(menuRef, contextMenu, () => setContextMenu(null));
 
+  // Right-clicking a selected song acts on the whole selection
   const handleContextMenu = (e: React.MouseEvent, songId: string) => {
     e.preventDefault();
-    const x = Math.min(e.clientX, window.innerWidth - 180);
-    const y = Math.min(e.clientY, window.innerHeight - 120);
-    setContextMenu({ x, y, songId });
+    const songIds = selectedIds.has(songId) && selection.length > 0 ? selection.map(s => s.id) : [songId];
+    setContextMenu({ x: e.clientX, y: e.clientY, songIds });
   };
 
-  const handleLyricsFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (contextMenu && e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        const text = ev.target?.result as string;
-        onUpdateLyrics(contextMenu.songId, text);
-        setContextMenu(null);
-      };
-      reader.readAsText(file);
+  const openSelectionMenu = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    setContextMenu({ x: rect.left, y: rect.bottom + 6, songIds: selection.map(s => s.id) });
+  };
+
+  const runMenuAction = (action: (songIds: string[]) => void) => {
+    if (contextMenu) action(contextMenu.songIds);
+    setContextMenu(null);
+  };
+
+  // One lyrics file goes to every target (e.g. several versions of a song);
+  // several files are matched to the targets by name
+  const handleLyricsFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const targetIds = new Set(lyricsTargetsRef.current);
+    const targets = songs.filter(s => targetIds.has(s.id));
+    if (files.length === 0 || targets.length === 0) return;
+
+    try {
+      const lyricsFiles = await Promise.all(files.map(async file => ({ name: file.name, content: await readFileAsText(file) })));
+      const lyricsById = lyricsFiles.length === 1
+        ? Object.fromEntries(targets.map(s => [s.id, lyricsFiles[0].content]))
+        : matchLyrics(targets, lyricsFiles);
+      if (Object.keys(lyricsById).length > 0) onUpdateLyrics(lyricsById);
+    } catch (err) {
+      console.error("[Playlist] Failed to read lyrics files:", err);
     }
-    if (e.target) e.target.value = '';
   };
 
-  const triggerLyricsImport = () => {
+  const triggerLyricsImport = (songIds: string[]) => {
+    lyricsTargetsRef.current = songIds;
     lyricsInputRef.current?.click();
+    setContextMenu(null);
   };
 
-  const removeSelectedSong = () => {
-    if (contextMenu) {
-      onRemoveSong(contextMenu.songId);
-      setContextMenu(null);
-    }
+  const removeTargets = (songIds: string[], fromPlaylistOnly: boolean) => {
+    if (fromPlaylistOnly) onRemoveFromPlaylist?.(songIds);
+    else onRemoveSongs(songIds);
+    setSelectedIds(prev => new Set([...prev].filter(id => !songIds.includes(id))));
   };
 
+  // Top is in front of the first song that isn't moving; bottom is the end
+  const moveTargets = (songIds: string[], to: 'top' | 'bottom') => {
+    if (!onMoveSongs) return;
+    const ids = new Set(songIds);
+    onMoveSongs(songIds, to === 'top' ? songs.find(s => !ids.has(s.id))?.id ?? null : null);
+  };
+
+  const hasSidebar = !!(onSelectPlaylist && onCreatePlaylist && onRenamePlaylist && onDuplicatePlaylist && onDeletePlaylist);
+  // Smart playlists pick their own songs
+  const addTargets = onAddToPlaylist ? playlists.filter(p => p.id !== activePlaylist?.id && !p.smart) : [];
+  const canRemoveFromPlaylist = !!activePlaylist && !activePlaylist.smart && !!onRemoveFromPlaylist;
+
   // --- Drag and Drop Handlers ---
 
   const handleDragStart = (e: React.DragEvent, index: number) => {
     setDraggedItemIndex(index);
+    // A selected song drags the whole selection along
+    if (onMoveSongs && selection.length > 1 && selectedIds.has(songs[index]?.id)) {
+      setDraggedIds(selection.map(s => s.id));
+    }
     e.dataTransfer.effectAllowed = "move";
     // Set data to ensure drag works in Firefox
     e.dataTransfer.setData("text/plain", index.toString());
@@ -104,244 +379,509 @@ const Playlist: React.FC<PlaylistProps> = ({
   const handleDrop = (e: React.DragEvent, index: number) => {
     e.preventDefault();
     if (draggedItemIndex !== null && draggedItemIndex !== index) {
-      onReorder(draggedItemIndex, index);
+      if (draggedIds && onMoveSongs) {
+        // Dropped on a song: the block lands where that song was, like a single drag
+        const block = new Set(draggedIds);
+        const start = index > draggedItemIndex ? index + 1 : index;
+        const before = songs.slice(start).find(s => !block.has(s.id));
+        onMoveSongs(draggedIds, before?.id ?? null);
+      } else {
+        onReorder(draggedItemIndex, index);
+      }
     }
-    setDraggedItemIndex(null);
-    setDragOverIndex(null);
-    lastDragEndRef.current = Date.now();
+    handleDragEnd();
   };
 
   const handleDragEnd = () => {
     setDraggedItemIndex(null);
     setDragOverIndex(null);
+    setDraggedIds(null);
     lastDragEndRef.current = Date.now();
   };
 
-  const handleSongClick = (song: Song) => {
-    if (Date.now() - lastDragEndRef.current < 200) {
-      console.log("[Playlist] Click ignored due to recent drag");
-      return;
-    }
-    onSelect(song);
+  const menuTargets = contextMenu ? songs.filter(s => contextMenu.songIds.includes(s.id)) : [];
+  const isBulkMenu = !!contextMenu && contextMenu.songIds.length > 1;
+  const toolbarButtonClass = "p-1.5 rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-all active:scale-90";
+  const menuItemClass = "w-full text-left px-4 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white flex items-center gap-3 transition-colors active:bg-white/20";
+
+  const renderSong = (song: Song, index: number) => {
+    const isActive = currentSong?.id === song.id;
+    const meta = song.metadata;
+    const isDragging = draggedIds ? draggedIds.includes(song.id) : draggedItemIndex === index;
+    const isDragOver = dragOverIndex === index;
+    const match = resultsById.get(song.id);
+    const isSelected = selectedIds.has(song.id);
+    const isCursor = cursorId === song.id && (isSearching || selectedIds.size > 0);
+
+    return (
+      <div
+        key={song.id}
+        id={`playlist-song-${song.id}`}
+        draggable={canReorder}
+        onDragStart={(e) => handleDragStart(e, index)}
+        onDragOver={(e) => handleDragOver(e, index)}
+        onDragLeave={handleDragLeave}
+        onDrop={(e) => handleDrop(e, index)}
+        onDragEnd={handleDragEnd}
+        onClick={(e) => handleSongClick(e, song)}
+        onContextMenu={(e) => handleContextMenu(e, song.id)}
+        className={`
+          group relative flex items-center gap-4 p-3 rounded-xl cursor-pointer transition-all duration-300 ease-elegant select-none
+          opacity-0 animate-slide-in-right hover:scale-[1.02] active:scale-[0.98]
+          ${isActive ? 'bg-white/10 translate-x-1' : isSelected ? 'bg-white/[0.07]' : 'hover:bg-white/5'}
+          ${isCursor ? 'ring-1 ring-white/20' : ''}
+          ${isDragging ? 'opacity-50 scale-95 border-2 border-dashed border-white/20' : ''}
+          ${isDragOver ? 'bg-white/10 scale-105 shadow-xl z-10' : ''}
+        `}
+        style={{
+          animationDelay: `${index * 50}ms`,
+          transform: isDragOver ? 'translateY(0) scale(1.02)' : undefined,
+          boxShadow: isSelected ? `inset 3px 0 0 ${accentColor}` : undefined
+        }}
+      >
+        {/* Drag Handle (Visible on Hover) */}
+        {canReorder && (
+          <div className="absolute left-1 opacity-0 group-hover:opacity-40 hover:!opacity-100 cursor-grab active:cursor-grabbing transition-opacity">
+            <GripVertical size={14} />
+          </div>
+        )}
+
+        {/* Playing Indicator / Number */}
+        <div className="w-8 flex justify-center text-xs font-medium text-white/40 group-hover:text-white pl-2">
+          {isActive && isPlaying ? (
+            <div className="flex gap-0.5 items-end h-3">
+              <div className="w-0.5 animate-[pulse_0.6s_ease-in-out_infinite] h-full" style={{ backgroundColor: accentColor }}></div>
+              <div className="w-0.5 animate-[pulse_0.8s_ease-in-out_infinite] h-2/3" style={{ backgroundColor: accentColor }}></div>
+              <div className="w-0.5 animate-[pulse_1.1s_ease-in-out_infinite] h-1/2" style={{ backgroundColor: accentColor }}></div>
+            </div>
+          ) : (
+            <span className="group-hover:hidden transition-opacity">{index + 1}</span>
+          )}
+          <Play
+            size={12}
+            className={`hidden group-hover:block animate-in zoom-in duration-200 ${isActive ? '' : 'text-white'}`}
+            fill="currentColor"
+            style={{ color: isActive ? accentColor : undefined }}
+          />
+        </div>
+
+        {/* Song Info */}
+        <div className="flex-1 overflow-hidden flex flex-col gap-0.5">
+          <div className="flex items-center gap-2 flex-wrap">
+            <h4 className={`text-sm font-bold truncate transition-colors ${isActive ? 'text-white' : 'text-white/80 group-hover:text-white'}`}>
+              <HighlightedText text={meta ? meta.title : song.name} ranges={match?.matches.title} accentColor={accentColor} />
+            </h4>
+
+            {/* Extra Info Badge (e.g. Translation) */}
+            {meta?.extra && (
+              <span className="text-[10px] text-white/50 truncate max-w-[150px]">
+                {meta.extra}
+              </span>
+            )}
+
+            {/* Version Badge */}
+            {meta?.version && (
+              <span className="text-[9px] px-1.5 py-0.5 rounded bg-white/10 text-white/60 font-semibold uppercase tracking-wider whitespace-nowrap">
+                <HighlightedText text={meta.version} ranges={match?.matches.version} accentColor={accentColor} />
+              </span>
+            )}
+          </div>
+
+          <div className="flex items-center gap-1.5 truncate text-xs text-white/40 group-hover:text-white/60 transition-colors">
+            <span>
+              <HighlightedText text={meta ? meta.artists.join(', ') : song.artist} ranges={match?.matches.artists} accentColor={accentColor} />
+            </span>
+            {meta?.features && meta.features.length > 0 && (
+              <>
+                <span className="opacity-50">•</span>
+                <span className="italic text-white/30 group-hover:text-white/50">
+                  ft. <HighlightedText text={meta.features.join(', ')} ranges={match?.matches.features} accentColor={accentColor} />
+                </span>
+              </>
+            )}
+            {meta?.album && (
+              <>
+                <span className="opacity-30">|</span>
+                <span className="flex items-center gap-1 opacity-70">
+                  <Disc size={10} />
+                  <HighlightedText text={meta.album} ranges={match?.matches.album} accentColor={accentColor} />
+                </span>
+              </>
+            )}
+          </div>
+
+          {/* Matching lyric line */}
+          {match?.lyricsSnippet && (
+            <div className="flex items-center gap-1.5 truncate text-[11px] text-white/40">
+              <Mic2 size={10} className="shrink-0" />
+              <span className="truncate">
+                <HighlightedText text={match.lyricsSnippet.text} ranges={match.lyricsSnippet.ranges} accentColor={accentColor} />
+              </span>
+            </div>
+          )}
+        </div>
+
+        {isActive && (
+          <div
+            className="w-1.5 h-1.5 rounded-full shadow-[0_0_8px_currentColor] animate-scale-fade-in"
+            style={{ backgroundColor: accentColor, color: accentColor }}
+          ></div>
+        )}
+      </div>
+    );
   };
 
   return (
-    <div className="flex flex-col h-full w-full">
-      <div className="px-6 md:px-8 pb-4 animate-slide-up-fade">
-        <div className="flex justify-between items-center mb-4">
-          <h2 className="text-xl md:text-2xl font-bold text-white tracking-tight">Library</h2>
-          <div className="flex items-center gap-2">
-            {/* Add Folder Button */}
-            {onAddFolderAPI ? (
-              <button
-                onClick={onAddFolderAPI}
-                className="p-2.5 bg-white/10 rounded-full hover:bg-white text-white hover:text-black transition-all duration-300 shadow-lg hover:shadow-[0_0_20px_rgba(255,255,255,0.4)] hover:scale-110 active:scale-90 ease-spring"
-                title="Open Folder"
-              >
-                <FolderPlus size={20} />
-              </button>
-            ) : (
+    <div className="flex h-full w-full">
+      {hasSidebar && isSidebarOpen && (
+        <div className="pl-4 md:pl-6 pb-4">
+          <PlaylistSidebar
+            playlists={playlists}
+            activePlaylistId={activePlaylist?.id ?? null}
+            librarySize={librarySize ?? songs.length}
+            onSelect={onSelectPlaylist!}
+            onCreate={onCreatePlaylist!}
+            onRename={onRenamePlaylist!}
+            onDuplicate={onDuplicatePlaylist!}
+            onDelete={onDeletePlaylist!}
+            onCreateSmart={onCreateSmartPlaylist}
+            onEditSmart={onEditSmartPlaylist}
+            accentColor={accentColor}
+          />
+        </div>
+      )}
+
+      <div className="flex flex-col flex-1 min-w-0 h-full">
+        <div className="px-6 md:px-8 pb-4 animate-slide-up-fade">
+          <div className="flex justify-between items-center mb-4">
+            <div className="flex items-center gap-2 min-w-0">
+              {hasSidebar && (
+                <button
+                  onClick={() => setIsSidebarOpen(v => !v)}
+                  className="p-1.5 -ml-1.5 rounded-lg text-white/40 hover:text-white hover:bg-white/10 transition-all active:scale-90"
+                  title={isSidebarOpen ? 'Hide Playlists' : 'Show Playlists'}
+                >
+                  {isSidebarOpen ? <PanelLeftClose size={18} /> : <PanelLeftOpen size={18} />}
+                </button>
+              )}
+              <h2 className="text-xl md:text-2xl font-bold text-white tracking-tight truncate">{activePlaylist ? activePlaylist.name : 'Library'}</h2>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {/* Add Folder Button */}
+              {onAddFolderAPI ? (
+                <button
+                  onClick={onAddFolderAPI}
+                  className="p-2.5 bg-white/10 rounded-full hover:bg-white text-white hover:text-black transition-all duration-300 shadow-lg hover:shadow-[0_0_20px_rgba(255,255,255,0.4)] hover:scale-110 active:scale-90 ease-spring"
+                  title="Add Library Folder"
+                >
+                  <FolderPlus size={20} />
+                </button>
+              ) : (
+                <label className="cursor-pointer group relative">
+                  <input
+                    type="file"
+                    // @ts-ignore
+                    webkitdirectory=""
+                    directory=""
+                    multiple
+                    className="hidden"
+                    onChange={onAddFiles}
+                  />
+                  <div className="p-2.5 bg-white/10 rounded-full hover:bg-white text-white hover:text-black transition-all duration-300 shadow-lg hover:shadow-[0_0_20px_rgba(255,255,255,0.4)] hover:scale-110 active:scale-90 active:rotate-90 ease-spring" title="Add Folder">
+                    <FolderPlus size={20} />
+                  </div>
+                </label>
+              )}
+
+
+
+              {/* Add Files Button */}
               <label className="cursor-pointer group relative">
                 <input
                   type="file"
-                  // @ts-ignore
-                  webkitdirectory=""
-                  directory=""
+                  accept="audio/*,.lrc,.txt,.zip,.m3u,.m3u8,.pls,.json"
                   multiple
                   className="hidden"
                   onChange={onAddFiles}
                 />
-                <div className="p-2.5 bg-white/10 rounded-full hover:bg-white text-white hover:text-black transition-all duration-300 shadow-lg hover:shadow-[0_0_20px_rgba(255,255,255,0.4)] hover:scale-110 active:scale-90 active:rotate-90 ease-spring" title="Add Folder">
-                  <FolderPlus size={20} />
+                <div className="p-2.5 bg-white/10 rounded-full hover:bg-white text-white hover:text-black transition-all duration-300 shadow-lg hover:shadow-[0_0_20px_rgba(255,255,255,0.4)] hover:scale-110 active:scale-90 active:rotate-90 ease-spring" title="Add Files">
+                  <Plus size={20} />
                 </div>
               </label>
-            )}
 
+              {/* Mystery Code Button */}
+              <button
+                onClick={onOpenMysteryCode}
+                className="p-2.5 bg-white/10 rounded-full hover:bg-white text-white hover:text-black transition-all duration-300 shadow-lg hover:shadow-[0_0_20px_rgba(255,255,255,0.4)] hover:scale-110 active:scale-90 ease-spring"
+                title="Enter Mystery Code"
+              >
+                <Globe size={20} />
+              </button>
 
+              {/* Sort & Group Button */}
+              {libraryView && onChangeLibraryView && songs.length > 0 && (
+                <LibraryViewControls view={libraryView} onChange={onChangeLibraryView} accentColor={accentColor} />
+              )}
 
-            {/* Add Files Button */}
-            <label className="cursor-pointer group relative">
+              {/* Export Button */}
+              {onExport && songs.length > 0 && (
+                <ExportMenu playlists={playlists} onExport={onExport} accentColor={accentColor} />
+              )}
+            </div>
+          </div>
+          <p className="text-white/40 text-sm font-medium">
+            {isSearching ? `${results.length} of ${songs.length} Tracks` : `${songs.length} Tracks`}
+          </p>
+          {songs.length > 0 && (
+            <div className="mt-3 flex items-center gap-2 px-3 py-2 rounded-xl bg-white/5 border border-white/5 focus-within:border-white/20 focus-within:bg-white/10 transition-colors">
+              <Search size={14} className="text-white/40 shrink-0" />
               <input
-                type="file"
-                accept="audio/*,.lrc,.txt"
-                multiple
-                className="hidden"
-                onChange={onAddFiles}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={handleSearchKeyDown}
+                placeholder="Search titles, artists, albums..."
+                className="flex-1 min-w-0 bg-transparent outline-none text-sm text-white placeholder:text-white/30"
               />
-              <div className="p-2.5 bg-white/10 rounded-full hover:bg-white text-white hover:text-black transition-all duration-300 shadow-lg hover:shadow-[0_0_20px_rgba(255,255,255,0.4)] hover:scale-110 active:scale-90 active:rotate-90 ease-spring" title="Add Files">
-                <Plus size={20} />
-              </div>
-            </label>
-
-            {/* Mystery Code Button */}
-            <button
-              onClick={onOpenMysteryCode}
-              className="p-2.5 bg-white/10 rounded-full hover:bg-white text-white hover:text-black transition-all duration-300 shadow-lg hover:shadow-[0_0_20px_rgba(255,255,255,0.4)] hover:scale-110 active:scale-90 ease-spring"
-              title="Enter Mystery Code"
-            >
-              <Globe size={20} />
-            </button>
-          </div>
+              {query && (
+                <button
+                  onClick={() => setQuery('')}
+                  className="p-0.5 rounded-full text-white/40 hover:text-white hover:bg-white/10 transition-all active:scale-90"
+                  title="Clear"
+                >
+                  <X size={14} />
+                </button>
+              )}
+              <button
+                onClick={() => setSearchLyrics(v => !v)}
+                className={`p-1 rounded-lg transition-all active:scale-90 ${searchLyrics ? 'bg-white/10 text-white' : 'text-white/30 hover:text-white/70'}`}
+                style={{ color: searchLyrics ? accentColor : undefined }}
+                title={searchLyrics ? 'Searching Lyrics Too' : 'Search Lyrics Too'}
+              >
+                <Mic2 size={14} />
+              </button>
+            </div>
+          )}
+          {selection.length > 0 && (
+            <div className="mt-3 flex items-center gap-1 pl-3 pr-1.5 py-1.5 rounded-xl bg-white/5 border border-white/10 animate-slide-up-fade">
+              <span className="mr-auto text-xs font-semibold" style={{ color: accentColor }}>{selection.length} Selected</span>
+              {onMoveSongs && canMove && (
+                <>
+                  <button onClick={() => moveTargets(selection.map(s => s.id), 'top')} className={toolbarButtonClass} title="Move to Top">
+                    <ArrowUpToLine size={15} />
+                  </button>
+                  <button onClick={() => moveTargets(selection.map(s => s.id), 'bottom')} className={toolbarButtonClass} title="Move to Bottom">
+                    <ArrowDownToLine size={15} />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => removeTargets(selection.map(s => s.id), canRemoveFromPlaylist)}
+                className="p-1.5 rounded-lg text-white/50 hover:text-red-300 hover:bg-red-500/10 transition-all active:scale-90"
+                title={canRemoveFromPlaylist ? 'Remove from Playlist' : 'Remove from Library'}
+              >
+                {canRemoveFromPlaylist ? <ListX size={15} /> : <Trash2 size={15} />}
+              </button>
+              <button onClick={openSelectionMenu} className={toolbarButtonClass} title="More Actions">
+                <Ellipsis size={15} />
+              </button>
+              <button onClick={clearSelection} className={toolbarButtonClass} title="Clear Selection (Esc)">
+                <X size={15} />
+              </button>
+            </div>
+          )}
+          {onRescanFolder && onRemoveFolder && (
+            <LibraryFolders
+              folders={folders}
+              onRescan={onRescanFolder}
+              onRemove={onRemoveFolder}
+              accentColor={accentColor}
+            />
+          )}
         </div>
-        <p className="text-white/40 text-sm font-medium">{songs.length} Tracks</p>
-      </div>
 
-      <div className="flex-1 overflow-y-auto px-4 md:px-6 pb-4 space-y-1 custom-scrollbar">
-        {songs.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-64 text-white/20 space-y-4 border-2 border-dashed border-white/5 rounded-2xl m-2 animate-scale-fade-in group hover:border-white/20 transition-colors">
-            <div className="p-4 rounded-full bg-white/5 group-hover:scale-110 transition-transform duration-500 ease-spring">
-              <UploadCloud size={32} />
+        <div
+          tabIndex={0}
+          onKeyDown={handleListKeyDown}
+          className="flex-1 overflow-y-auto px-4 md:px-6 pb-4 space-y-1 custom-scrollbar outline-none"
+        >
+          {songs.length === 0 && activePlaylist ? (
+            <div className="flex flex-col items-center justify-center h-64 text-white/20 space-y-4 border-2 border-dashed border-white/5 rounded-2xl m-2 animate-scale-fade-in">
+              <div className="p-4 rounded-full bg-white/5">
+                <ListMusic size={32} />
+              </div>
+              <div className="text-center">
+                <p className="text-sm font-bold text-white/40">{activePlaylist.smart ? 'No Songs Match' : 'This Playlist Is Empty'}</p>
+                <p className="text-xs text-white/30 mt-1">{activePlaylist.smart ? 'Edit the rules to pick songs' : 'Right-click songs in the Library to add them'}</p>
+              </div>
             </div>
-            <div className="text-center">
-              <p className="text-sm font-bold text-white/40 group-hover:text-white/60 transition-colors">No Songs Yet</p>
-              <p className="text-xs text-white/30 mt-1">Drag & Drop audio or lyrics here</p>
+          ) : isSearching && results.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-40 text-white/30 space-y-2 animate-scale-fade-in">
+              <Search size={24} />
+              <p className="text-sm font-medium">No matches for "{deferredQuery.trim()}"</p>
             </div>
-          </div>
-        ) : (
-          songs.map((song, index) => {
-            const isActive = currentSong?.id === song.id;
-            const meta = song.metadata;
-            const isDragging = draggedItemIndex === index;
-            const isDragOver = dragOverIndex === index;
-
-            return (
-              <div
-                key={song.id}
-                draggable
-                onDragStart={(e) => handleDragStart(e, index)}
-                onDragOver={(e) => handleDragOver(e, index)}
-                onDragLeave={handleDragLeave}
-                onDrop={(e) => handleDrop(e, index)}
-                onDragEnd={handleDragEnd}
-                onClick={() => handleSongClick(song)}
-                onContextMenu={(e) => handleContextMenu(e, song.id)}
-                className={`
-                  group relative flex items-center gap-4 p-3 rounded-xl cursor-pointer transition-all duration-300 ease-elegant select-none
-                  opacity-0 animate-slide-in-right hover:scale-[1.02] active:scale-[0.98]
-                  ${isActive ? 'bg-white/10 translate-x-1' : 'hover:bg-white/5'}
-                  ${isDragging ? 'opacity-50 scale-95 border-2 border-dashed border-white/20' : ''}
-                  ${isDragOver ? 'bg-white/10 scale-105 shadow-xl z-10' : ''}
-                `}
-                style={{
-                  animationDelay: `${index * 50}ms`,
-                  transform: isDragOver ? 'translateY(0) scale(1.02)' : undefined
-                }}
-              >
-                {/* Drag Handle (Visible on Hover) */}
-                <div className="absolute left-1 opacity-0 group-hover:opacity-40 hover:!opacity-100 cursor-grab active:cursor-grabbing transition-opacity">
-                  <GripVertical size={14} />
-                </div>
-
-                {/* Playing Indicator / Number */}
-                <div className="w-8 flex justify-center text-xs font-medium text-white/40 group-hover:text-white pl-2">
-                  {isActive && isPlaying ? (
-                    <div className="flex gap-0.5 items-end h-3">
-                      <div className="w-0.5 animate-[pulse_0.6s_ease-in-out_infinite] h-full" style={{ backgroundColor: accentColor }}></div>
-                      <div className="w-0.5 animate-[pulse_0.8s_ease-in-out_infinite] h-2/3" style={{ backgroundColor: accentColor }}></div>
-                      <div className="w-0.5 animate-[pulse_1.1s_ease-in-out_infinite] h-1/2" style={{ backgroundColor: accentColor }}></div>
-                    </div>
-                  ) : (
-                    <span className="group-hover:hidden transition-opacity">{index + 1}</span>
-                  )}
-                  <Play
-                    size={12}
-                    className={`hidden group-hover:block animate-in zoom-in duration-200 ${isActive ? '' : 'text-white'}`}
-                    fill="currentColor"
-                    style={{ color: isActive ? accentColor : undefined }}
-                  />
-                </div>
-
-                {/* Song Info */}
-                <div className="flex-1 overflow-hidden flex flex-col gap-0.5">
-                  <div className="flex items-center gap-2 flex-wrap">
-                    <h4 className={`text-sm font-bold truncate transition-colors ${isActive ? 'text-white' : 'text-white/80 group-hover:text-white'}`}>
-                      {meta ? meta.title : song.name}
-                    </h4>
-
-                    {/* Extra Info Badge (e.g. Translation) */}
-                    {meta?.extra && (
-                      <span className="text-[10px] text-white/50 truncate max-w-[150px]">
-                        {meta.extra}
-                      </span>
-                    )}
-
-                    {/* Version Badge */}
-                    {meta?.version && (
-                      <span className="text-[9px] px-1.5 py-0.5 rounded bg-white/10 text-white/60 font-semibold uppercase tracking-wider whitespace-nowrap">
-                        {meta.version}
-                      </span>
-                    )}
-                  </div>
-
-                  <div className="flex items-center gap-1.5 truncate text-xs text-white/40 group-hover:text-white/60 transition-colors">
-                    <span>
-                      {meta ? meta.artists.join(', ') : song.artist}
-                    </span>
-                    {meta?.features && meta.features.length > 0 && (
-                      <>
-                        <span className="opacity-50">•</span>
-                        <span className="italic text-white/30 group-hover:text-white/50">
-                          ft. {meta.features.join(', ')}
-                        </span>
-                      </>
-                    )}
-                    {meta?.album && (
-                      <>
-                        <span className="opacity-30">|</span>
-                        <span className="flex items-center gap-1 opacity-70">
-                          <Disc size={10} />
-                          {meta.album}
-                        </span>
-                      </>
-                    )}
+          ) : songs.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-64 text-white/20 space-y-4 border-2 border-dashed border-white/5 rounded-2xl m-2 animate-scale-fade-in group hover:border-white/20 transition-colors">
+              <div className="p-4 rounded-full bg-white/5 group-hover:scale-110 transition-transform duration-500 ease-spring">
+                <UploadCloud size={32} />
+              </div>
+              <div className="text-center">
+                <p className="text-sm font-bold text-white/40 group-hover:text-white/60 transition-colors">No Songs Yet</p>
+                <p className="text-xs text-white/30 mt-1">Drag & Drop audio or lyrics here</p>
+              </div>
+            </div>
+          ) : (
+            isSearching || !groups
+              ? visibleSongs.map(renderSong)
+              : groups.map(group => {
+                const isCollapsed = collapsedGroups.has(group.key);
+                return (
+                  <div key={group.key} className="space-y-1">
+                    <button
+                      onClick={() => toggleGroup(group.key)}
+                      className="sticky top-0 z-20 w-full flex items-center gap-2 px-3 py-2 rounded-lg bg-black/60 backdrop-blur-md text-left text-white/70 hover:text-white transition-colors"
+                    >
+                      <ChevronRight size={14} className={`shrink-0 transition-transform duration-300 ${isCollapsed ? '' : 'rotate-90'}`} />
+                      <span className="text-sm font-bold truncate">{group.label}</span>
+                      {group.sublabel && <span className="text-xs text-white/40 truncate">{group.sublabel}</span>}
+                      <span className="ml-auto text-[10px] font-mono text-white/30">{group.songs.length}</span>
+                    </button>
+                    {!isCollapsed && group.songs.map((song, i) => renderSong(song, group.start + i))}
                   </div>
-                </div>
+                );
+              })
+          )}
+        </div>
 
-                {isActive && (
-                  <div
-                    className="w-1.5 h-1.5 rounded-full shadow-[0_0_8px_currentColor] animate-scale-fade-in"
-                    style={{ backgroundColor: accentColor, color: accentColor }}
-                  ></div>
-                )}
+        {/* Context Menu */}
+        {contextMenu && (
+          <div
+            ref={menuRef}
+            className="fixed z-50 min-w-[180px] max-h-[80vh] overflow-y-auto custom-scrollbar bg-[#1e1e2e]/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-[0_10px_40px_-10px_rgba(0,0,0,0.5)] py-2 animate-in zoom-in-95 duration-200"
+            style={{ top: contextMenu.y, left: contextMenu.x }}
+          >
+            {isBulkMenu && (
+              <div className="px-4 pt-1 pb-1.5 text-[10px] font-bold uppercase tracking-widest" style={{ color: accentColor }}>
+                {contextMenu.songIds.length} Songs
               </div>
-            );
-          })
+            )}
+            {onQueueSongs && (
+              <>
+                <button onClick={() => runMenuAction(ids => onQueueSongs(ids, 'next'))} className={menuItemClass}>
+                  <ListStart size={16} />
+                  Play Next
+                </button>
+                <button onClick={() => runMenuAction(ids => onQueueSongs(ids, 'last'))} className={menuItemClass}>
+                  <ListEnd size={16} />
+                  Add to Queue
+                </button>
+                <div className="h-px bg-white/5 my-1"></div>
+              </>
+            )}
+            {onEditMetadata && !isBulkMenu && (
+              <button onClick={() => runMenuAction(ids => onEditMetadata(ids[0]))} className={menuItemClass}>
+                <Pencil size={16} />
+                Edit Info
+              </button>
+            )}
+            <button onClick={() => triggerLyricsImport(contextMenu.songIds)} className={menuItemClass}>
+              <FileText size={16} />
+              {isBulkMenu ? 'Assign Lyrics Files' : 'Import Lyrics'}
+            </button>
+            {onClearLyrics && menuTargets.some(s => s.lyrics) && (
+              <button onClick={() => runMenuAction(onClearLyrics)} className={menuItemClass}>
+                <MicOff size={16} />
+                Clear Lyrics
+              </button>
+            )}
+            {onClearVideo && menuTargets.some(s => s.videoUrl) && (
+              <button onClick={() => runMenuAction(onClearVideo)} className={menuItemClass}>
+                <VideoOff size={16} />
+                Clear Video
+              </button>
+            )}
+            {onMoveSongs && canMove && (
+              <>
+                <div className="h-px bg-white/5 my-1"></div>
+                <button onClick={() => runMenuAction(ids => moveTargets(ids, 'top'))} className={menuItemClass}>
+                  <ArrowUpToLine size={16} />
+                  Move to Top
+                </button>
+                <button onClick={() => runMenuAction(ids => moveTargets(ids, 'bottom'))} className={menuItemClass}>
+                  <ArrowDownToLine size={16} />
+                  Move to Bottom
+                </button>
+              </>
+            )}
+            {addTargets.length > 0 && (
+              <>
+                <div className="h-px bg-white/5 my-1"></div>
+                <div className="px-4 pt-1.5 pb-1 text-[10px] font-bold uppercase tracking-widest text-white/30">Add to Playlist</div>
+                <div className="max-h-[180px] overflow-y-auto custom-scrollbar">
+                  {addTargets.map(p => (
+                    <button key={p.id} onClick={() => runMenuAction(ids => onAddToPlaylist?.(p.id, ids))} className={menuItemClass}>
+                      <ListPlus size={16} className="shrink-0" />
+                      <span className="truncate max-w-[160px]">{p.name}</span>
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+            {onExportSongs && (
+              <>
+                <div className="h-px bg-white/5 my-1"></div>
+                <div className="flex items-center gap-3 px-4 py-2 text-sm text-white/80">
+                  <Download size={16} className="shrink-0" />
+                  <span className="mr-auto">Export</span>
+                  {EXPORT_FORMATS.map(f => (
+                    <button
+                      key={f.format}
+                      onClick={() => runMenuAction(ids => { onExportSongs(ids, f.format).catch(console.error); })}
+                      className="px-1.5 py-0.5 rounded text-[10px] font-semibold text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                      title={f.hint}
+                    >
+                      {f.label.replace('Rakko ', '')}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+            {onExportWithTags && menuTargets.some(s => canWriteTags(s.file)) && (
+              <button
+                onClick={() => runMenuAction(ids => { onExportWithTags(ids).catch(console.error); })}
+                className={menuItemClass}
+                title="Download MP3 / FLAC files with the info, lyrics and cover shown here written into their tags"
+              >
+                <FileDown size={16} />
+                Export with Tags
+              </button>
+            )}
+            <div className="h-px bg-white/5 my-1"></div>
+            {canRemoveFromPlaylist && (
+              <button onClick={() => runMenuAction(ids => removeTargets(ids, true))} className={menuItemClass}>
+                <ListX size={16} />
+                Remove from Playlist
+              </button>
+            )}
+            <button
+              onClick={() => runMenuAction(ids => removeTargets(ids, false))}
+              className="w-full text-left px-4 py-2 text-sm text-red-400 hover:bg-red-500/10 hover:text-red-300 flex items-center gap-3 transition-colors active:bg-red-500/20 group"
+            >
+              <Trash2 size={16} className="group-hover:animate-bounce-sm" />
+              {activePlaylist ? 'Remove from Library' : isBulkMenu ? 'Remove Songs' : 'Remove Song'}
+            </button>
+          </div>
         )}
-      </div>
 
-      {/* Context Menu */}
-      {contextMenu && (
-        <div
-          ref={menuRef}
-          className="fixed z-50 min-w-[160px] bg-[#1e1e2e]/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-[0_10px_40px_-10px_rgba(0,0,0,0.5)] py-2 overflow-hidden animate-in zoom-in-95 duration-200"
-          style={{ top: contextMenu.y, left: contextMenu.x }}
-        >
-          <button
-            onClick={triggerLyricsImport}
-            className="w-full text-left px-4 py-2.5 text-sm text-white/80 hover:bg-white/10 hover:text-white flex items-center gap-3 transition-colors active:bg-white/20"
-          >
-            <FileText size={16} />
-            Import Lyrics
-          </button>
-          <div className="h-px bg-white/5 my-1"></div>
-          <button
-            onClick={removeSelectedSong}
-            className="w-full text-left px-4 py-2.5 text-sm text-red-400 hover:bg-red-500/10 hover:text-red-300 flex items-center gap-3 transition-colors active:bg-red-500/20 group"
-          >
-            <Trash2 size={16} className="group-hover:animate-bounce-sm" />
-            Remove Song
-          </button>
-        </div>
-      )}
-
-      {/* Hidden File Input for Lyrics */}
-      <input
-        type="file"
-        ref={lyricsInputRef}
-        accept=".lrc,.txt"
-        className="hidden"
-        onChange={handleLyricsFileSelect}
-      />
+        {/* Hidden File Input for Lyrics */}
+        <input
+          type="file"
+          ref={lyricsInputRef}
+          accept=".lrc,.txt"
+          multiple
+          className="hidden"
+          onChange={handleLyricsFileSelect}
+        />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,186 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Library, ListMusic, Plus, Pencil, Copy, Trash2, Check, Sparkles, SlidersHorizontal } from 'lucide-react';
+import { NamedPlaylist } from '../types';
+
+interface PlaylistSidebarProps {
+  playlists: NamedPlaylist[];
+  // null = the whole library
+  activePlaylistId: string | null;
+  librarySize: number;
+  onSelect: (playlistId: string | null) => void;
+  onCreate: () => NamedPlaylist;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onCreateSmart?: () => void;
+  onEditSmart?: (id: string) => void;
+  accentColor: string;
+}
+
+const PlaylistSidebar: React.FC<PlaylistSidebarProps> = ({
+  playlists,
+  activePlaylistId,
+  librarySize,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onCreateSmart,
+  onEditSmart,
+  accentColor
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (editingId) inputRef.current?.select();
+  }, [editingId]);
+
+  // Deleting takes a second click; forget it after a moment
+  useEffect(() => {
+    if (!pendingDeleteId) return;
+    const timer = setTimeout(() => setPendingDeleteId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [pendingDeleteId]);
+
+  const startRename = (playlist: NamedPlaylist) => {
+    setEditingId(playlist.id);
+    setDraftName(playlist.name);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, draftName);
+    setEditingId(null);
+  };
+
+  const handleCreate = () => {
+    const playlist = onCreate();
+    onSelect(playlist.id);
+    startRename(playlist);
+  };
+
+  const handleDelete = (id: string) => {
+    if (pendingDeleteId !== id) {
+      setPendingDeleteId(id);
+      return;
+    }
+    setPendingDeleteId(null);
+    onDelete(id);
+  };
+
+  const itemClass = (isActive: boolean) => `
+    group w-full flex items-center gap-2 px-2.5 py-2 rounded-lg text-left text-sm transition-all duration-300
+    ${isActive ? 'bg-white/10 text-white' : 'text-white/50 hover:bg-white/5 hover:text-white/80'}
+  `;
+
+  return (
+    <div className="flex flex-col h-full w-40 md:w-44 shrink-0 border-r border-white/5 pr-2 animate-slide-up-fade">
+      <div className="flex items-center justify-between px-2.5 pb-2">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-white/40">Playlists</span>
+        <div className="flex items-center">
+          {onCreateSmart && (
+            <button
+              onClick={onCreateSmart}
+              className="p-1 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-all active:scale-90"
+              title="New Smart Playlist"
+            >
+              <Sparkles size={14} />
+            </button>
+          )}
+          <button
+            onClick={handleCreate}
+            className="p-1 rounded-full text-white/50 hover:text-white hover:bg-white/10 transition-all active:scale-90"
+            title="New Playlist"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar space-y-0.5">
+        <button onClick={() => onSelect(null)} className={itemClass(activePlaylistId === null)}>
+          <Library size={14} className="shrink-0" style={{ color: activePlaylistId === null ? accentColor : undefined }} />
+          <span className="flex-1 truncate font-medium">Library</span>
+          <span className="text-[10px] font-mono text-white/30">{librarySize}</span>
+        </button>
+
+        {playlists.map(playlist => {
+          const isActive = playlist.id === activePlaylistId;
+          const Icon = playlist.smart ? Sparkles : ListMusic;
+
+          if (editingId === playlist.id) {
+            return (
+              <div key={playlist.id} className={itemClass(true)}>
+                <Icon size={14} className="shrink-0" style={{ color: accentColor }} />
+                <input
+                  ref={inputRef}
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-transparent border-b border-white/20 focus:border-white/60 outline-none text-sm text-white"
+                />
+              </div>
+            );
+          }
+
+          return (
+            <div
+              key={playlist.id}
+              role="button"
+              onClick={() => onSelect(playlist.id)}
+              onDoubleClick={() => startRename(playlist)}
+              className={`${itemClass(isActive)} cursor-pointer`}
+              title={playlist.name}
+            >
+              <Icon size={14} className="shrink-0" style={{ color: isActive ? accentColor : undefined }} />
+              <span className="flex-1 truncate font-medium">{playlist.name}</span>
+
+              <span className="text-[10px] font-mono text-white/30 group-hover:hidden">{playlist.songIds.length}</span>
+              <div className="hidden group-hover:flex items-center" onClick={(e) => e.stopPropagation()}>
+                {playlist.smart && onEditSmart && (
+                  <button
+                    onClick={() => onEditSmart(playlist.id)}
+                    className="p-1 rounded hover:bg-white/10 hover:text-white transition-colors"
+                    title="Edit Rules"
+                  >
+                    <SlidersHorizontal size={11} />
+                  </button>
+                )}
+                <button
+                  onClick={() => startRename(playlist)}
+                  className="p-1 rounded hover:bg-white/10 hover:text-white transition-colors"
+                  title="Rename"
+                >
+                  <Pencil size={11} />
+                </button>
+                <button
+                  onClick={() => onDuplicate(playlist.id)}
+                  className="p-1 rounded hover:bg-white/10 hover:text-white transition-colors"
+                  title="Duplicate"
+                >
+                  <Copy size={11} />
+                </button>
+                <button
+                  onClick={() => handleDelete(playlist.id)}
+                  className={`p-1 rounded transition-colors ${pendingDeleteId === playlist.id ? 'bg-red-500/20 text-red-300' : 'hover:bg-red-500/20 hover:text-red-300'}`}
+                  title={pendingDeleteId === playlist.id ? 'Click again to delete' : 'Delete'}
+                >
+                  {pendingDeleteId === playlist.id ? <Check size={11} /> : <Trash2 size={11} />}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PlaylistSidebar;
@@ -0,0 +1,56 @@
+import React, { useRef } from 'react';
+import { ListStart, ListEnd } from 'lucide-react';
+import { QueuePosition, Song } from '../types';
+import { useContextMenuPosition } from '../hooks/useContextMenuPosition';
+
+interface QueueMenuProps {
+  song: Song;
+  x: number;
+  y: number;
+  onQueue: (position: QueuePosition) => void;
+  onClose: () => void;
+  accentColor: string;
+}
+
+const menuItemClass = "w-full text-left px-4 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white flex items-center gap-3 transition-colors active:bg-white/20";
+
+/**
+ * Right-click menu for the full-screen views (PrismFlow, the shelf), which have
+ * no context menu of their own. Escape and outside clicks only close the menu,
+ * not the view behind it.
+ */
+const QueueMenu: React.FC<QueueMenuProps> = ({ song, x, y, onQueue, onClose, accentColor }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useContextMenuPosition(menuRef, { x, y }, onClose);
+
+  const choose = (position: QueuePosition) => {
+    onQueue(position);
+    onClose();
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      onPointerDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.preventDefault()}
+      className="fixed z-[300] min-w-[180px] max-w-[260px] bg-[#1e1e2e]/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-[0_10px_40px_-10px_rgba(0,0,0,0.5)] py-2 animate-in zoom-in-95 duration-200"
+      style={{ top: y, left: x }}
+    >
+      <div className="px-4 pt-1 pb-1.5 text-[10px] font-bold uppercase tracking-widest truncate" style={{ color: accentColor }}>
+        {song.metadata?.title || song.name}
+      </div>
+      <button onClick={() => choose('next')} className={menuItemClass}>
+        <ListStart size={16} />
+        Play Next
+      </button>
+      <button onClick={() => choose('last')} className={menuItemClass}>
+        <ListEnd size={16} />
+        Add to Queue
+      </button>
+    </div>
+  );
+};
+
+export default QueueMenu;
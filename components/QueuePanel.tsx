@@ -0,0 +1,132 @@
+import React, { useState, useMemo } from 'react';
+import { ListOrdered, GripVertical, X, Trash2, Music } from 'lucide-react';
+import { QueueEntry, Song } from '../types';
+
+interface QueuePanelProps {
+  queue: QueueEntry[];
+  songs: Song[];
+  currentSong: Song | null;
+  isPlaying: boolean;
+  // Name of what plays once the queue runs out
+  continuesWith: string;
+  onPlayEntry: (entryId: string) => void;
+  onMoveEntry: (from: number, to: number) => void;
+  onRemoveEntry: (entryId: string) => void;
+  onClear: () => void;
+  accentColor: string;
+}
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ queue, songs, currentSong, isPlaying, continuesWith, onPlayEntry, onMoveEntry, onRemoveEntry, onClear, accentColor }) => {
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const songsById = useMemo(() => new Map(songs.map(s => [s.id, s])), [songs]);
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (draggedIndex !== null) onMoveEntry(draggedIndex, index);
+    setDraggedIndex(null);
+    setDragOverIndex(null);
+  };
+
+  const songLine = (song: Song) => (
+    <div className="flex-1 min-w-0">
+      <div className="text-sm text-white/80 truncate">{song.metadata?.title || song.name}</div>
+      <div className="text-[11px] text-white/30 truncate">{song.artist}</div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      <div className="px-6 md:px-8 pb-4 flex items-center justify-between animate-slide-up-fade">
+        <h2 className="text-xl md:text-2xl font-bold text-white tracking-tight">Up Next</h2>
+        {queue.length > 0 && (
+          <button
+            onClick={onClear}
+            className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+          >
+            <Trash2 size={12} /> Clear
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 md:px-8 pb-8 custom-scrollbar space-y-6">
+        {currentSong && (
+          <section>
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-white/40 mb-2">Now Playing</h3>
+            <div className="flex items-center gap-3 px-3 py-2 rounded-lg bg-white/10">
+              <div className="w-5 flex justify-center">
+                {isPlaying
+                  ? <div className="w-1.5 h-1.5 rounded-full animate-pulse" style={{ backgroundColor: accentColor }} />
+                  : <Music size={12} className="text-white/40" />}
+              </div>
+              {songLine(currentSong)}
+            </div>
+          </section>
+        )}
+
+        <section>
+          <h3 className="text-[10px] font-bold uppercase tracking-widest text-white/40 mb-2">
+            Queue{queue.length > 0 ? ` · ${queue.length}` : ''}
+          </h3>
+          {queue.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-48 text-white/20 space-y-3 border-2 border-dashed border-white/5 rounded-2xl animate-scale-fade-in">
+              <ListOrdered size={28} />
+              <p className="text-sm font-bold text-white/40">The queue is empty</p>
+              <p className="text-xs text-white/30">Playback continues with {continuesWith}</p>
+            </div>
+          ) : (
+            queue.map((entry, index) => {
+              const song = songsById.get(entry.songId);
+              if (!song) return null;
+              return (
+                <div
+                  key={entry.id}
+                  draggable
+                  onDragStart={(e) => {
+                    setDraggedIndex(index);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    if (dragOverIndex !== index) setDragOverIndex(index);
+                  }}
+                  onDragLeave={() => setDragOverIndex(null)}
+                  onDrop={(e) => handleDrop(e, index)}
+                  onDragEnd={() => {
+                    setDraggedIndex(null);
+                    setDragOverIndex(null);
+                  }}
+                  onClick={() => onPlayEntry(entry.id)}
+                  className={`group flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer transition-colors hover:bg-white/5
+                    ${draggedIndex === index ? 'opacity-40' : ''}
+                    ${dragOverIndex === index && draggedIndex !== index ? 'bg-white/10' : ''}`}
+                >
+                  <div className="w-5 flex justify-center text-xs font-mono text-white/30">
+                    <span className="group-hover:hidden">{index + 1}</span>
+                    <GripVertical size={14} className="hidden group-hover:block cursor-grab active:cursor-grabbing text-white/40" />
+                  </div>
+                  {songLine(song)}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemoveEntry(entry.id);
+                    }}
+                    className="p-1.5 rounded-full text-white/20 opacity-0 group-hover:opacity-100 hover:text-white hover:bg-white/10 transition-all"
+                    title="Remove from queue"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              );
+            })
+          )}
+          {queue.length > 0 && (
+            <p className="mt-3 px-3 text-[11px] text-white/30">Then continues with {continuesWith}</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default QueuePanel;
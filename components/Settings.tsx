@@ -1,7 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
-import { X, Image as ImageIcon, Zap, Palette, Gauge } from 'lucide-react';
+import { X, Image as ImageIcon, Zap, Palette, Gauge, Shuffle, Blend, Disc3, SkipForward } from 'lucide-react';
 import { AppSettings } from '../types';
+import { CustomSlider } from './ui/CustomSlider';
+import { MAX_CROSSFADE } from '../utils/crossfade';
 
 interface SettingsProps {
   isOpen: boolean;
@@ -143,6 +145,127 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, settings, onUpdate
               </div>
             </div>
 
+            {/* Playback Section */}
+            <div className="space-y-3">
+              <h3 className="text-xs font-bold text-white/40 uppercase tracking-widest">Playback</h3>
+
+              {/* Smart Shuffle Toggle */}
+              <div className="flex items-center justify-between p-4 bg-white/5 rounded-2xl border border-white/5 transition-all hover:bg-white/10 hover:scale-[1.02] duration-300 active:scale-[0.98]">
+                <div className="flex items-center gap-3">
+                  <div
+                    className={`p-2 rounded-xl transition-colors duration-300 ${settings.smartShuffle ? 'text-white' : 'bg-white/10 text-white/50'}`}
+                    style={{ backgroundColor: settings.smartShuffle ? settings.accentColor : undefined }}
+                  >
+                    <Shuffle size={20} />
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-semibold text-white">Smart Shuffle</h3>
+                    <p className="text-xs text-white/40">Avoid the same artist twice in a row</p>
+                  </div>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer group">
+                  <input
+                    type="checkbox"
+                    className="sr-only peer"
+                    checked={settings.smartShuffle}
+                    onChange={(e) => onUpdateSettings({ ...settings, smartShuffle: e.target.checked })}
+                  />
+                  <div
+                    className={`w-11 h-6 bg-white/10 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all duration-300 group-hover:scale-105 shadow-inner`}
+                    style={{ backgroundColor: settings.smartShuffle ? settings.accentColor : undefined }}
+                  ></div>
+                </label>
+              </div>
+
+              {/* Crossfade */}
+              <div className="p-4 bg-white/5 rounded-2xl border border-white/5 transition-all hover:bg-white/10 duration-300 space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div
+                      className={`p-2 rounded-xl transition-colors duration-300 ${settings.crossfade > 0 ? 'text-white' : 'bg-white/10 text-white/50'}`}
+                      style={{ backgroundColor: settings.crossfade > 0 ? settings.accentColor : undefined }}
+                    >
+                      <Blend size={20} />
+                    </div>
+                    <div>
+                      <h3 className="text-sm font-semibold text-white">Crossfade</h3>
+                      <p className="text-xs text-white/40">Blend the end of each song into the next</p>
+                    </div>
+                  </div>
+                  <span className="text-sm font-semibold text-white/70 tabular-nums">
+                    {settings.crossfade > 0 ? `${settings.crossfade}s` : 'Off'}
+                  </span>
+                </div>
+                <CustomSlider
+                  value={settings.crossfade}
+                  max={MAX_CROSSFADE}
+                  step={1}
+                  onChange={(e) => onUpdateSettings({ ...settings, crossfade: Number(e.target.value) })}
+                  accentColor={settings.accentColor}
+                  tooltipFormatter={(val) => `${Math.round(val)}s`}
+                />
+              </div>
+
+              {settings.crossfade > 0 && (
+                <>
+                  {/* Crossfade Within Albums Toggle */}
+                  <div className="flex items-center justify-between p-4 bg-white/5 rounded-2xl border border-white/5 transition-all hover:bg-white/10 hover:scale-[1.02] duration-300 active:scale-[0.98]">
+                    <div className="flex items-center gap-3">
+                      <div
+                        className={`p-2 rounded-xl transition-colors duration-300 ${settings.crossfadeSameAlbum ? 'text-white' : 'bg-white/10 text-white/50'}`}
+                        style={{ backgroundColor: settings.crossfadeSameAlbum ? settings.accentColor : undefined }}
+                      >
+                        <Disc3 size={20} />
+                      </div>
+                      <div>
+                        <h3 className="text-sm font-semibold text-white">Fade Album Tracks</h3>
+                        <p className="text-xs text-white/40">Off keeps albums playing gaplessly</p>
+                      </div>
+                    </div>
+                    <label className="relative inline-flex items-center cursor-pointer group">
+                      <input
+                        type="checkbox"
+                        className="sr-only peer"
+                        checked={settings.crossfadeSameAlbum}
+                        onChange={(e) => onUpdateSettings({ ...settings, crossfadeSameAlbum: e.target.checked })}
+                      />
+                      <div
+                        className={`w-11 h-6 bg-white/10 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all duration-300 group-hover:scale-105 shadow-inner`}
+                        style={{ backgroundColor: settings.crossfadeSameAlbum ? settings.accentColor : undefined }}
+                      ></div>
+                    </label>
+                  </div>
+
+                  {/* Crossfade On Skip Toggle */}
+                  <div className="flex items-center justify-between p-4 bg-white/5 rounded-2xl border border-white/5 transition-all hover:bg-white/10 hover:scale-[1.02] duration-300 active:scale-[0.98]">
+                    <div className="flex items-center gap-3">
+                      <div
+                        className={`p-2 rounded-xl transition-colors duration-300 ${settings.crossfadeOnSkip ? 'text-white' : 'bg-white/10 text-white/50'}`}
+                        style={{ backgroundColor: settings.crossfadeOnSkip ? settings.accentColor : undefined }}
+                      >
+                        <SkipForward size={20} />
+                      </div>
+                      <div>
+                        <h3 className="text-sm font-semibold text-white">Fade on Skip</h3>
+                        <p className="text-xs text-white/40">Also fade when changing songs yourself</p>
+                      </div>
+                    </div>
+                    <label className="relative inline-flex items-center cursor-pointer group">
+                      <input
+                        type="checkbox"
+                        className="sr-only peer"
+                        checked={settings.crossfadeOnSkip}
+                        onChange={(e) => onUpdateSettings({ ...settings, crossfadeOnSkip: e.target.checked })}
+                      />
+                      <div
+                        className={`w-11 h-6 bg-white/10 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all duration-300 group-hover:scale-105 shadow-inner`}
+                        style={{ backgroundColor: settings.crossfadeOnSkip ? settings.accentColor : undefined }}
+                      ></div>
+                    </label>
+                  </div>
+                </>
+              )}
+            </div>
 
             {/* Display Section */}
             <div className="space-y-3">
@@ -1,23 +1,35 @@
 import React, { useEffect, useState, useRef, useMemo } from 'react';
-import { Song } from '../types';
-import { extractAlbumArt } from '../utils';
-import { Music2, Disc } from 'lucide-react';
+import { LibraryViewOptions, QueuePosition, Song } from '../types';
+import { COVER_SIZES } from '../utils/coverArt';
+import { GROUP_LABELS, groupSongs } from '../utils/librarySort';
+import { useCoverArt } from '../hooks/useCoverArt';
+import LibraryViewControls from './LibraryViewControls';
+import QueueMenu from './QueueMenu';
+import { Music2, Disc, ChevronRight } from 'lucide-react';
 
 interface ShelfViewProps {
   songs: Song[];
   currentSong: Song | null;
   isPlaying: boolean;
   onSelect: (song: Song) => void;
+  onQueueSongs?: (ids: string[], position: QueuePosition) => void;
   onClose: () => void;
   accentColor: string;
   performanceMode?: boolean;
+  // `songs` arrive already ordered by it; groups become blocks of columns
+  libraryView?: LibraryViewOptions;
+  onChangeLibraryView?: (view: LibraryViewOptions) => void;
 }
 
 const COVER_SIZE = 180;
 const GAP = 40;
+const GROUP_GAP = 48; // Extra space between groups
+const GROUP_HEADER_SPACE = 36;
 // Constants matching CoverFlow.tsx exactly to ensure seamless visual transition
 const ARC_COVER_SIZE = 360;
 const ARC_SPACING = 240;
+// Covers load for items within this distance of the screen
+const COVER_LOAD_MARGIN = '400px';
 
 const ShelfItem = ({
   song,
@@ -27,6 +39,7 @@ const ShelfItem = ({
   accentColor,
   style,
   onClick,
+  onContextMenu,
   performanceMode
 }: {
   song: Song;
@@ -36,21 +49,30 @@ const ShelfItem = ({
   accentColor: string;
   style: React.CSSProperties;
   onClick: () => void;
+  onContextMenu?: (e: React.MouseEvent) => void;
   performanceMode: boolean;
 }) => {
-  const [cover, setCover] = useState<string | null>(null);
+  const itemRef = useRef<HTMLDivElement>(null);
+  const [isNearViewport, setIsNearViewport] = useState(false);
+  const cover = useCoverArt(song, COVER_SIZES.shelf, isNearViewport);
 
+  // Big shelves only decode and keep covers for what's on (or about to come on) screen
   useEffect(() => {
-    let mounted = true;
-    extractAlbumArt(song.file).then(art => {
-      if (mounted) setCover(art);
-    });
-    return () => { mounted = false; };
-  }, [song]);
+    const el = itemRef.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsNearViewport(entry.isIntersecting),
+      { rootMargin: COVER_LOAD_MARGIN }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
 
   return (
     <div
+      ref={itemRef}
       onClick={onClick}
+      onContextMenu={onContextMenu}
       className="absolute cursor-pointer origin-center"
       style={{
         ...style,
@@ -150,11 +172,17 @@ const ShelfView: React.FC<ShelfViewProps> = ({
   currentSong,
   isPlaying,
   onSelect,
+  onQueueSongs,
   onClose,
   accentColor,
-  performanceMode = false
+  performanceMode = false,
+  libraryView,
+  onChangeLibraryView
 }) => {
   const [viewState, setViewState] = useState<'arc' | 'grid'>('arc');
+  // Right-click menu for queueing a cover
+  const [queueMenu, setQueueMenu] = useState<{ song: Song; x: number; y: number } | null>(null);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
   const [isExiting, setIsExiting] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: window.innerWidth, height: window.innerHeight });
@@ -224,6 +252,49 @@ const ShelfView: React.FC<ShelfViewProps> = ({
 
   // --- CALCULATION LOGIC ---
 
+  const isGrouped = !!libraryView && libraryView.groupBy !== 'none';
+  const groups = useMemo(
+    () => groupSongs(songs, isGrouped ? libraryView!.groupBy : 'none'),
+    [songs, isGrouped, libraryView]
+  );
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // Grid slots: each group starts a new column; a collapsed group shows only its first cover
+  const topPadding = isGrouped ? 120 + GROUP_HEADER_SPACE : 120;
+  const rows = Math.max(1, Math.floor((dimensions.height - topPadding - 40) / (COVER_SIZE + 24 + GAP))); // Cover + Label + Gap
+  const gridLayout = useMemo(() => {
+    const slots: { x: number; row: number; hidden: boolean }[] = [];
+    const headers: { key: string; label: string; sublabel?: string; count: number; x: number; width: number; isCollapsed: boolean }[] = [];
+    let x = 80; // Left padding
+
+    groups.forEach((group, g) => {
+      if (g > 0) x += GROUP_GAP;
+      const isCollapsed = isGrouped && collapsedGroups.has(group.key);
+      const columns = isCollapsed ? 1 : Math.ceil(group.songs.length / rows);
+      if (isGrouped) {
+        const width = columns * (COVER_SIZE + GAP) - GAP;
+        headers.push({ key: group.key, label: group.label, sublabel: group.sublabel, count: group.songs.length, x, width, isCollapsed });
+      }
+
+      group.songs.forEach((_, j) => {
+        slots.push(isCollapsed
+          ? { x, row: 0, hidden: j > 0 }
+          : { x: x + Math.floor(j / rows) * (COVER_SIZE + GAP), row: j % rows, hidden: false });
+      });
+      x += columns * (COVER_SIZE + GAP);
+    });
+
+    return { slots, headers, width: x + 100 };
+  }, [groups, isGrouped, collapsedGroups, rows]);
+
   const calculateStyles = (index: number) => {
 
     // ARC LOGIC (Matches PrismFlow exactly)
@@ -260,21 +331,9 @@ const ShelfView: React.FC<ShelfViewProps> = ({
 
     // GRID LOGIC (Shelf Wall - Horizontal)
     // We fill vertically first (columns), then move right.
-    const topPadding = 120;
-    const bottomPadding = 40;
-    const availableHeight = dimensions.height - topPadding - bottomPadding;
-
-    // Determine number of rows based on available height
-    const rows = Math.max(1, Math.floor(availableHeight / (COVER_SIZE + 24 + GAP))); // Cover + Label + Gap
-
-    const col = Math.floor(index / rows);
-    const row = index % rows;
-
-    const startX = 80; // Left padding
-    const startY = topPadding;
-
-    const gridX = startX + col * (COVER_SIZE + GAP);
-    const gridY = startY + row * (COVER_SIZE + 24 + GAP);
+    const slot = gridLayout.slots[index];
+    const gridX = slot.x;
+    const gridY = topPadding + slot.row * (COVER_SIZE + 24 + GAP);
 
     // Subtle Stagger for Entrance:
     // We limit the stagger so the tail doesn't take forever to arrive.
@@ -284,9 +343,9 @@ const ShelfView: React.FC<ShelfViewProps> = ({
       transform: `translate3d(${gridX}px, ${gridY}px, 0) rotateY(0deg)`,
       width: COVER_SIZE,
       height: COVER_SIZE,
-      opacity: 1,
+      opacity: slot.hidden ? 0 : 1,
       zIndex: 100 - index,
-      pointerEvents: 'auto' as const,
+      pointerEvents: slot.hidden ? 'none' as const : 'auto' as const,
       transitionDelay: `${staggerDelay}ms`
     };
   };
@@ -310,8 +369,15 @@ const ShelfView: React.FC<ShelfViewProps> = ({
           </div>
           <div>
             <h1 className="text-2xl font-bold text-white tracking-tight">Library Shelf</h1>
-            <p className="text-white/40 text-sm">{songs.length} Albums</p>
+            <p className="text-white/40 text-sm">
+              {isGrouped ? `${groups.length} ${GROUP_LABELS[libraryView!.groupBy]}s · ${songs.length} Tracks` : `${songs.length} Albums`}
+            </p>
           </div>
+          {libraryView && onChangeLibraryView && (
+            <div className="ml-2">
+              <LibraryViewControls view={libraryView} onChange={onChangeLibraryView} accentColor={accentColor} />
+            </div>
+          )}
         </div>
       </div>
 
@@ -320,13 +386,26 @@ const ShelfView: React.FC<ShelfViewProps> = ({
         ref={containerRef}
         className={`absolute inset-0 overflow-x-auto overflow-y-hidden ${viewState === 'grid' ? 'pointer-events-auto' : 'pointer-events-none'}`}
       >
-        {/* Dummy width to enable scrolling based on grid content */}
-        <div style={{
-          width: viewState === 'grid'
-            ? 80 + (Math.ceil(songs.length / Math.max(1, Math.floor((dimensions.height - 160) / (COVER_SIZE + 24 + GAP)))) * (COVER_SIZE + GAP)) + 100
-            : '100vw',
+        {/* Dummy width to enable scrolling based on grid content; group headers scroll along with it */}
+        <div className="relative" style={{
+          width: viewState === 'grid' ? gridLayout.width : '100vw',
           height: '100%'
-        }} />
+        }}>
+          {gridLayout.headers.map(header => (
+            <button
+              key={header.key}
+              onClick={() => toggleGroup(header.key)}
+              className={`absolute flex items-center gap-1.5 text-left text-white/70 hover:text-white transition-all duration-500 ${viewState === 'grid' && !isExiting ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+              style={{ left: header.x, top: topPadding - GROUP_HEADER_SPACE, maxWidth: header.width }}
+              title={header.isCollapsed ? 'Expand' : 'Collapse'}
+            >
+              <ChevronRight size={14} className={`shrink-0 transition-transform duration-300 ${header.isCollapsed ? '' : 'rotate-90'}`} />
+              <span className="text-sm font-bold truncate">{header.label}</span>
+              {header.sublabel && <span className="text-xs text-white/40 truncate">{header.sublabel}</span>}
+              <span className="text-[10px] font-mono text-white/30">{header.count}</span>
+            </button>
+          ))}
+        </div>
       </div>
 
 
@@ -354,17 +433,32 @@ const ShelfView: React.FC<ShelfViewProps> = ({
               onSelect={(s: Song) => {
                 onSelect(s);
               }}
+              onOpenQueueMenu={onQueueSongs && ((s: Song, e: React.MouseEvent) => {
+                e.preventDefault();
+                setQueueMenu({ song: s, x: e.clientX, y: e.clientY });
+              })}
               performanceMode={performanceMode}
             />
           );
         })}
       </div>
+
+      {queueMenu && onQueueSongs && (
+        <QueueMenu
+          song={queueMenu.song}
+          x={queueMenu.x}
+          y={queueMenu.y}
+          onQueue={(position) => onQueueSongs([queueMenu.song.id], position)}
+          onClose={() => setQueueMenu(null)}
+          accentColor={accentColor}
+        />
+      )}
     </div >
   );
 };
 
 const ShelfItemWrapper = ({
-  song, isActive, isPlaying, accentColor, baseStyle, containerRef, viewState, onSelect, performanceMode
+  song, isActive, isPlaying, accentColor, baseStyle, containerRef, viewState, onSelect, onOpenQueueMenu, performanceMode
 }: any) => {
   const [scrollX, setScrollX] = useState(0);
 
@@ -406,6 +500,7 @@ const ShelfItemWrapper = ({
       accentColor={accentColor}
       style={style}
       onClick={() => onSelect(song)}
+      onContextMenu={onOpenQueueMenu && ((e: React.MouseEvent) => onOpenQueueMenu(song, e))}
       performanceMode={performanceMode}
     />
   );
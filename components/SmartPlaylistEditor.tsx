@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Plus, Trash2, Sparkles } from 'lucide-react';
+import { NamedPlaylist, PlayStat, SmartPlaylistRules, SmartRule, SmartRuleField, Song } from '../types';
+import { OPERATORS_BY_KIND, OPERATOR_LABELS, SMART_FIELDS, changeRuleField, createSmartRule, evaluateSmartPlaylist } from '../utils/smartPlaylists';
+
+interface SmartPlaylistEditorProps {
+  isOpen: boolean;
+  // null = creating a new smart playlist
+  playlist: NamedPlaylist | null;
+  songs: Song[];
+  playStats: Record<string, PlayStat>;
+  onSave: (name: string, smart: SmartPlaylistRules) => void;
+  onClose: () => void;
+  accentColor: string;
+}
+
+const FIELD_KEYS = Object.keys(SMART_FIELDS) as SmartRuleField[];
+
+// Starting points for a new smart playlist
+const PRESETS: { name: string; smart: () => SmartPlaylistRules }[] = [
+  { name: 'Live Versions', smart: () => ({ match: 'all', rules: [{ ...createSmartRule('version'), value: 'Live' }] }) },
+  { name: 'Never Played', smart: () => ({ match: 'all', rules: [{ ...createSmartRule('playCount'), operator: 'equals', value: '0' }] }) },
+  { name: 'Added This Week', smart: () => ({ match: 'all', rules: [{ ...createSmartRule('addedAt'), value: '7' }] }) },
+  { name: 'Music Videos', smart: () => ({ match: 'all', rules: [createSmartRule('hasVideo')] }) },
+  { name: 'Sing Along', smart: () => ({ match: 'all', rules: [createSmartRule('hasLyrics'), { ...createSmartRule('playCount'), operator: 'greaterThan', value: '2' }] }) },
+];
+
+const selectClass = "bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white outline-none focus:border-white/30 [&>option]:bg-[#1a1a1a]";
+
+const SmartPlaylistEditor: React.FC<SmartPlaylistEditorProps> = ({ isOpen, playlist, songs, playStats, onSave, onClose, accentColor }) => {
+  const [name, setName] = useState('');
+  const [smart, setSmart] = useState<SmartPlaylistRules>({ match: 'all', rules: [] });
+
+  // Start from the playlist being edited, or a blank rule
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(playlist?.name || 'Smart Playlist');
+    setSmart(playlist?.smart
+      ? { ...playlist.smart, rules: playlist.smart.rules.map(r => ({ ...r })) }
+      : { match: 'all', rules: [createSmartRule()] });
+  }, [isOpen, playlist]);
+
+  const matchCount = useMemo(
+    () => isOpen ? evaluateSmartPlaylist(smart, songs, playStats).length : 0,
+    [isOpen, smart, songs, playStats]
+  );
+
+  if (!isOpen) return null;
+
+  const updateRule = (id: string, update: (rule: SmartRule) => SmartRule) => {
+    setSmart(prev => ({ ...prev, rules: prev.rules.map(r => r.id === id ? update(r) : r) }));
+  };
+
+  const removeRule = (id: string) => {
+    setSmart(prev => ({ ...prev, rules: prev.rules.filter(r => r.id !== id) }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(name, smart);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={onClose} />
+
+      {/* Modal */}
+      <form
+        onSubmit={handleSubmit}
+        className="relative w-full max-w-[560px] max-h-[85vh] flex flex-col rounded-xl bg-[#0f0f0f] border border-white/10 shadow-[0_20px_60px_-10px_rgba(0,0,0,0.8)] animate-in fade-in zoom-in-95"
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-3 right-3 p-2 text-white/20 hover:text-white hover:bg-white/10 rounded-lg transition-colors z-20"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="p-6 pb-4">
+          <h2 className="text-lg font-semibold text-white tracking-tight flex items-center gap-2">
+            <Sparkles size={18} style={{ color: accentColor }} />
+            {playlist ? 'Edit Smart Playlist' : 'New Smart Playlist'}
+          </h2>
+          <p className="text-xs text-white/40 mt-1">Songs are picked by these rules and update as the library changes.</p>
+
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Playlist name"
+            className="mt-4 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-white/30"
+          />
+
+          {!playlist && (
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {PRESETS.map(preset => (
+                <button
+                  key={preset.name}
+                  type="button"
+                  onClick={() => { setName(preset.name); setSmart(preset.smart()); }}
+                  className="px-2.5 py-1 rounded-full border border-white/10 text-[11px] font-medium text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                >
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-6 space-y-2">
+          <div className="flex items-center gap-2 text-sm text-white/60">
+            Match
+            <select
+              value={smart.match}
+              onChange={(e) => setSmart(prev => ({ ...prev, match: e.target.value as SmartPlaylistRules['match'] }))}
+              className={selectClass}
+            >
+              <option value="all">all</option>
+              <option value="any">any</option>
+            </select>
+            of these rules
+          </div>
+
+          {smart.rules.map(rule => {
+            const field = SMART_FIELDS[rule.field];
+            return (
+              <div key={rule.id} className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-white/[0.03] border border-white/5">
+                <select
+                  value={rule.field}
+                  onChange={(e) => updateRule(rule.id, r => changeRuleField(r, e.target.value as SmartRuleField))}
+                  className={selectClass}
+                >
+                  {FIELD_KEYS.map(key => <option key={key} value={key}>{SMART_FIELDS[key].label}</option>)}
+                </select>
+
+                <select
+                  value={rule.operator}
+                  onChange={(e) => updateRule(rule.id, r => ({ ...r, operator: e.target.value as SmartRule['operator'] }))}
+                  className={selectClass}
+                >
+                  {OPERATORS_BY_KIND[field.kind].map(op => <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>)}
+                </select>
+
+                {field.kind !== 'boolean' && (
+                  <div className="flex-1 min-w-[100px] flex items-center gap-1.5">
+                    <input
+                      value={rule.value}
+                      onChange={(e) => updateRule(rule.id, r => ({ ...r, value: e.target.value }))}
+                      type={field.kind === 'text' ? 'text' : 'number'}
+                      min={field.kind === 'text' ? undefined : 0}
+                      className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white outline-none focus:border-white/30"
+                    />
+                    {field.unit && <span className="text-xs text-white/40">{field.unit}</span>}
+                  </div>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => removeRule(rule.id)}
+                  className="ml-auto p-1.5 rounded-lg text-white/30 hover:text-red-300 hover:bg-red-500/10 transition-colors"
+                  title="Remove Rule"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+
+          <button
+            type="button"
+            onClick={() => setSmart(prev => ({ ...prev, rules: [...prev.rules, createSmartRule()] }))}
+            className="flex items-center gap-1.5 px-2 py-1.5 rounded-lg text-xs font-semibold text-white/50 hover:text-white hover:bg-white/5 transition-colors"
+          >
+            <Plus size={14} /> Add Rule
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between p-6 pt-4 border-t border-white/5 mt-2">
+          <span className="text-xs font-mono text-white/40">{matchCount} of {songs.length} songs match</span>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-sm text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="px-4 py-2 rounded-lg text-sm font-semibold text-black transition-all active:scale-95 disabled:opacity-40"
+              style={{ backgroundColor: accentColor }}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SmartPlaylistEditor;
@@ -0,0 +1,188 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BarChart3, Clock, Play, SkipForward } from 'lucide-react';
+import { ListenEvent, PlayStat, Song } from '../types';
+import { loadListenEvents, summarizeListens } from '../utils/playStats';
+
+interface StatsViewProps {
+  songs: Song[];
+  currentSong: Song | null;
+  playStats: Record<string, PlayStat>;
+  // Changes whenever a listen is logged
+  historyVersion: number;
+  // The history is only read while the view is showing
+  isActive: boolean;
+  onSelect: (song: Song) => void;
+  accentColor: string;
+}
+
+const RANGES: { label: string; days: number | null }[] = [
+  { label: '7 Days', days: 7 },
+  { label: '30 Days', days: 30 },
+  { label: 'All Time', days: null },
+];
+
+// "3h 12m", "12m", "40s"
+const formatListeningTime = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${Math.round(seconds)}s`;
+};
+
+const formatLastPlayed = (time?: number) => {
+  if (!time) return 'Never';
+  const days = Math.floor((Date.now() - time) / (24 * 60 * 60 * 1000));
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  if (days < 30) return `${days} days ago`;
+  return new Date(time).toLocaleDateString();
+};
+
+const StatsView: React.FC<StatsViewProps> = ({ songs, currentSong, playStats, historyVersion, isActive, onSelect, accentColor }) => {
+  const [events, setEvents] = useState<ListenEvent[]>([]);
+  const [rangeDays, setRangeDays] = useState<number | null>(7);
+
+  useEffect(() => {
+    if (!isActive) return;
+    let cancelled = false;
+    loadListenEvents()
+      .then(loaded => { if (!cancelled) setEvents(loaded); })
+      .catch(err => console.error("[PlayStats] Failed to load history:", err));
+    return () => { cancelled = true; };
+  }, [isActive, historyVersion]);
+
+  const summary = useMemo(() => summarizeListens(events, rangeDays), [events, rangeDays]);
+  const songsById = useMemo(() => new Map(songs.map(s => [s.id, s])), [songs]);
+  const busiestDay = Math.max(...summary.days.map(d => d.seconds), 1);
+  const isWeek = summary.days.length <= 7;
+
+  const tile = (icon: React.ReactNode, label: string, value: string) => (
+    <div className="flex-1 min-w-[90px] p-3 rounded-xl bg-white/[0.03] border border-white/5">
+      <div className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest text-white/40">{icon}{label}</div>
+      <div className="mt-1 text-lg font-semibold text-white font-mono">{value}</div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      <div className="px-6 md:px-8 pb-4 animate-slide-up-fade">
+        <h2 className="text-xl md:text-2xl font-bold text-white tracking-tight mb-4">Listening Stats</h2>
+        <div className="flex gap-1.5">
+          {RANGES.map(range => (
+            <button
+              key={range.label}
+              onClick={() => setRangeDays(range.days)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${rangeDays === range.days ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white/80'}`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 md:px-8 pb-8 custom-scrollbar space-y-8">
+        {events.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-white/20 space-y-4 border-2 border-dashed border-white/5 rounded-2xl animate-scale-fade-in">
+            <BarChart3 size={32} />
+            <p className="text-sm font-bold text-white/40">Play some songs to see your stats here</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {tile(<Clock size={11} />, 'Listened', formatListeningTime(summary.totalSeconds))}
+              {tile(<Play size={11} />, 'Plays', String(summary.plays))}
+              {tile(<SkipForward size={11} />, 'Skips', String(summary.skips))}
+            </div>
+
+            {/* Listening time per day */}
+            <section>
+              <h3 className="text-[10px] font-bold uppercase tracking-widest text-white/40 mb-3">
+                Listening Time{rangeDays === null ? ` · Last ${summary.days.length} Days` : ''}
+              </h3>
+              <div className="flex items-end gap-[2px] h-28">
+                {summary.days.map(day => (
+                  <div
+                    key={day.date.getTime()}
+                    className="group relative flex-1 h-full flex items-end"
+                    title={`${day.date.toLocaleDateString()} · ${formatListeningTime(day.seconds)}`}
+                  >
+                    <div
+                      className="w-full rounded-t-sm opacity-70 group-hover:opacity-100 transition-opacity"
+                      style={{ height: `${Math.max((day.seconds / busiestDay) * 100, day.seconds > 0 ? 3 : 1)}%`, backgroundColor: day.seconds > 0 ? accentColor : 'rgba(255,255,255,0.08)' }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between mt-1.5 text-[10px] font-mono text-white/30">
+                {isWeek
+                  ? summary.days.map(day => <span key={day.date.getTime()} className="flex-1 text-center">{day.date.toLocaleDateString(undefined, { weekday: 'short' })}</span>)
+                  : <>
+                      <span>{summary.days[0].date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+                      <span>Today</span>
+                    </>}
+              </div>
+            </section>
+
+            {/* Top songs */}
+            <section>
+              <h3 className="text-[10px] font-bold uppercase tracking-widest text-white/40 mb-2">Top Songs</h3>
+              {summary.topSongs.length === 0 && <p className="text-sm text-white/30">No plays in this period.</p>}
+              {summary.topSongs.map((entry, index) => {
+                const song = songsById.get(entry.songId);
+                const stat = playStats[entry.songId];
+                const isActive = currentSong?.id === entry.songId;
+                return (
+                  <div
+                    key={entry.songId}
+                    onClick={() => song && onSelect(song)}
+                    className={`group flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${song ? 'cursor-pointer hover:bg-white/5' : 'opacity-50'} ${isActive ? 'bg-white/10' : ''}`}
+                    title={song ? undefined : 'No longer in the library'}
+                  >
+                    <span className="w-5 text-right text-xs font-mono text-white/30">{index + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className={`text-sm truncate ${isActive ? 'text-white font-semibold' : 'text-white/80 group-hover:text-white'}`}>{entry.title}</div>
+                      <div className="text-[11px] text-white/30 truncate">
+                        {entry.artists.join(', ')} · Last played {formatLastPlayed(stat?.lastPlayedAt).toLowerCase()}
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <div className="text-xs font-mono text-white/70">{entry.plays} {entry.plays === 1 ? 'play' : 'plays'}</div>
+                      {entry.skips > 0 && <div className="text-[10px] font-mono text-white/30">{entry.skips} skipped</div>}
+                    </div>
+                  </div>
+                );
+              })}
+            </section>
+
+            {/* Top artists */}
+            <section>
+              <h3 className="text-[10px] font-bold uppercase tracking-widest text-white/40 mb-2">Top Artists</h3>
+              {summary.topArtists.length === 0 && <p className="text-sm text-white/30">No plays in this period.</p>}
+              {summary.topArtists.map((artist, index) => (
+                <div key={artist.name} className="flex items-center gap-3 px-3 py-2">
+                  <span className="w-5 text-right text-xs font-mono text-white/30">{index + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-white/80 truncate">{artist.name}</div>
+                    <div className="mt-1 h-1 rounded-full bg-white/5 overflow-hidden">
+                      <div
+                        className="h-full rounded-full"
+                        style={{ width: `${(artist.plays / summary.topArtists[0].plays) * 100}%`, backgroundColor: accentColor }}
+                      />
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <div className="text-xs font-mono text-white/70">{artist.plays} {artist.plays === 1 ? 'play' : 'plays'}</div>
+                    <div className="text-[10px] font-mono text-white/30">{formatListeningTime(artist.seconds)}</div>
+                  </div>
+                </div>
+              ))}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatsView;
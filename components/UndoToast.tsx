@@ -0,0 +1,53 @@
+import React, { useEffect } from 'react';
+import { Undo2, Redo2, X } from 'lucide-react';
+import { UndoToast as UndoToastInfo } from '../hooks/useUndoHistory';
+
+interface UndoToastProps {
+  toast: UndoToastInfo | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDismiss: () => void;
+  accentColor: string;
+}
+
+const TOAST_DURATION = 6000;
+
+const UndoToast: React.FC<UndoToastProps> = ({ toast, onUndo, onRedo, onDismiss, accentColor }) => {
+  // Each new step restarts the timer
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(onDismiss, TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [toast?.id, onDismiss]);
+
+  if (!toast) return null;
+
+  const isUndo = toast.action === 'undo';
+
+  return (
+    <div
+      key={toast.id}
+      className="fixed bottom-28 left-6 z-[120] max-w-[calc(100vw-3rem)] w-80 flex items-center gap-3 pl-4 pr-2 py-2 rounded-2xl bg-black/80 backdrop-blur-xl border border-white/10 shadow-2xl animate-slide-up-fade"
+    >
+      <span className="flex-1 text-sm text-white/80 truncate" title={toast.message}>{toast.message}</span>
+      <button
+        onClick={isUndo ? onUndo : onRedo}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold hover:bg-white/10 transition-all active:scale-95"
+        style={{ color: accentColor }}
+        title={isUndo ? 'Undo (Ctrl+Z)' : 'Redo (Ctrl+Shift+Z)'}
+      >
+        {isUndo ? <Undo2 size={14} /> : <Redo2 size={14} />}
+        {isUndo ? 'Undo' : 'Redo'}
+      </button>
+      <button
+        onClick={onDismiss}
+        className="p-1 rounded-full text-white/40 hover:text-white hover:bg-white/10 transition-all active:scale-90"
+        title="Dismiss"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
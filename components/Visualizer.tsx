@@ -1,68 +1,36 @@
 import React, { useEffect, useRef } from 'react';
+import { getAudioGraph } from '../utils/audioGraph';
 
 interface VisualizerProps {
-  audioElement: HTMLAudioElement | null;
   isPlaying: boolean;
   bassBoost: boolean;
   accentColor: string;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ audioElement, isPlaying, bassBoost, accentColor }) => {
+const Visualizer: React.FC<VisualizerProps> = ({ isPlaying, bassBoost, accentColor }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const bassFilterRef = useRef<BiquadFilterNode | null>(null);
-  const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
   const animationRef = useRef<number | null>(null);
 
   // Handle Bass Boost Toggle
   useEffect(() => {
-    if (bassFilterRef.current && audioContextRef.current) {
-      const currentTime = audioContextRef.current.currentTime;
+    const graph = getAudioGraph();
+    if (graph) {
+      const currentTime = graph.context.currentTime;
       // Smooth transition for bass boost
-      bassFilterRef.current.gain.cancelScheduledValues(currentTime);
-      bassFilterRef.current.gain.linearRampToValueAtTime(bassBoost ? 12 : 0, currentTime + 0.1);
+      graph.bassFilter.gain.cancelScheduledValues(currentTime);
+      graph.bassFilter.gain.linearRampToValueAtTime(bassBoost ? 12 : 0, currentTime + 0.1);
     }
   }, [bassBoost]);
 
   useEffect(() => {
-    if (!audioElement || !canvasRef.current) return;
-
-    // Initialize Audio Context
-    if (!audioContextRef.current) {
-      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      const ctx = new AudioContextClass();
-      audioContextRef.current = ctx;
-
-      const analyser = ctx.createAnalyser();
-      analyser.fftSize = 2048; // High resolution for smooth curves
-      analyser.smoothingTimeConstant = 0.85;
-      analyserRef.current = analyser;
-
-      // Create Bass Boost Filter (LowShelf)
-      const bassFilter = ctx.createBiquadFilter();
-      bassFilter.type = 'lowshelf';
-      bassFilter.frequency.value = 200; // Boost frequencies below 200Hz
-      bassFilter.gain.value = bassBoost ? 12 : 0;
-      bassFilterRef.current = bassFilter;
-
-      try {
-        const source = ctx.createMediaElementSource(audioElement);
-        sourceRef.current = source;
-
-        // Connect Chain: Source -> BassFilter -> Analyser -> Destination
-        source.connect(bassFilter);
-        bassFilter.connect(analyser);
-        analyser.connect(ctx.destination);
-      } catch (e) {
-        console.warn("Media source connection warning:", e);
-      }
-    }
+    // Playback is routed into the shared graph; this only reads its analyser
+    const graph = getAudioGraph();
+    if (!graph || !canvasRef.current) return;
 
     const renderFrame = () => {
       const canvas = canvasRef.current;
-      const analyser = analyserRef.current;
-      if (!canvas || !analyser) return;
+      const analyser = graph.analyser;
+      if (!canvas) return;
 
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
@@ -147,8 +115,8 @@ const Visualizer: React.FC<VisualizerProps> = ({ audioElement, isPlaying, bassBo
     };
 
     // Handle AudioContext state (Chrome autoplay policy)
-    if (isPlaying && audioContextRef.current?.state === 'suspended') {
-      audioContextRef.current.resume();
+    if (isPlaying && graph.context.state === 'suspended') {
+      graph.context.resume();
     }
 
     if (isPlaying) {
@@ -160,7 +128,7 @@ const Visualizer: React.FC<VisualizerProps> = ({ audioElement, isPlaying, bassBo
     return () => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [audioElement, isPlaying, accentColor]);
+  }, [isPlaying, accentColor]);
 
   return (
     <canvas 
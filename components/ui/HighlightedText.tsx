@@ -0,0 +1,27 @@
+import React from 'react';
+import { MatchRange } from '../../utils/search';
+
+interface HighlightedTextProps {
+    text: string;
+    ranges?: MatchRange[];
+    accentColor: string;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges, accentColor }) => {
+    if (!ranges || ranges.length === 0) return <>{text}</>;
+
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    ranges.forEach(([start, end], i) => {
+        if (start > cursor) parts.push(text.slice(cursor, start));
+        parts.push(
+            <mark key={i} className="bg-transparent font-bold rounded-sm" style={{ color: accentColor }}>
+                {text.slice(start, end)}
+            </mark>
+        );
+        cursor = end;
+    });
+    if (cursor < text.length) parts.push(text.slice(cursor));
+
+    return <>{parts}</>;
+};
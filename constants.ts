@@ -1,3 +1,4 @@
+import { LibraryViewOptions, RepeatMode } from './types';
 
 export const WALLPAPER_URL = "https://github.com/KurisuRakko/picx-images-hosting/raw/master/IMG_0439-up2x-denoise3x.54y7qeyqwk.webp";
 export const DEFAULT_ALBUM_ART = "https://picsum.photos/400/400";
@@ -8,4 +9,23 @@ export const DEFAULT_SETTINGS = {
   clockTimezone: "Intl.DateTimeFormat().resolvedOptions().timeZone",
   performanceMode: false,
   idleMode: false,
-};
\ No newline at end of file
+  smartShuffle: false,
+  crossfade: 0,
+  crossfadeSameAlbum: false,
+  crossfadeOnSkip: true,
+};
+
+// The repeat button steps through these in order
+export const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one'];
+
+export const REPEAT_LABELS: Record<RepeatMode, string> = {
+  off: 'Repeat Off',
+  all: 'Repeat All',
+  one: 'Repeat One',
+};
+
+export const DEFAULT_LIBRARY_VIEW: LibraryViewOptions = {
+  sortKey: 'manual',
+  sortDirection: 'asc',
+  groupBy: 'none',
+};
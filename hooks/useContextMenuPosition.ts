@@ -0,0 +1,45 @@
+import { useEffect, useLayoutEffect, useRef, RefObject } from 'react';
+
+/**
+ * Shared behaviour of the right-click menus while `position` is set: the menu is
+ * kept on screen once its size is known, and a press outside it or Escape closes it.
+ * Both are caught in the capture phase so whatever is behind the menu never sees them.
+ */
+export const useContextMenuPosition = (
+    menuRef: RefObject<HTMLElement | null>,
+    position: { x: number; y: number } | null,
+    onClose: () => void
+) => {
+    const onCloseRef = useRef(onClose);
+    onCloseRef.current = onClose;
+    const isOpen = position !== null;
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handlePointerDown = (e: PointerEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+                e.stopPropagation();
+                onCloseRef.current();
+            }
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== 'Escape') return;
+            e.stopPropagation();
+            onCloseRef.current();
+        };
+        window.addEventListener('pointerdown', handlePointerDown, true);
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => {
+            window.removeEventListener('pointerdown', handlePointerDown, true);
+            window.removeEventListener('keydown', handleKeyDown, true);
+        };
+    }, [isOpen, menuRef]);
+
+    useLayoutEffect(() => {
+        const menu = menuRef.current;
+        if (!position || !menu) return;
+        const rect = menu.getBoundingClientRect();
+        if (rect.bottom > window.innerHeight - 8) menu.style.top = `${Math.max(8, window.innerHeight - rect.height - 8)}px`;
+        if (rect.right > window.innerWidth - 8) menu.style.left = `${Math.max(8, window.innerWidth - rect.width - 8)}px`;
+    }, [position?.x, position?.y, menuRef]);
+};
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { Song } from '../types';
+import { getCoverArt } from '../utils/coverArt';
+
+/**
+ * Cover thumbnail of a song from the shared cover cache.
+ * The object URL stays retained while the component shows it.
+ */
+export const useCoverArt = (song: Song | null | undefined, size: number, enabled: boolean = true): string | null => {
+    // Remember which song the URL belongs to, so a recycled component never shows a stale cover
+    const [cover, setCover] = useState<{ songId: string; url: string | null } | null>(null);
+
+    useEffect(() => {
+        if (!song || !enabled) return;
+
+        let cancelled = false;
+        let release: (() => void) | null = null;
+
+        getCoverArt(song, size).then(retained => {
+            if (cancelled) {
+                retained.release();
+                return;
+            }
+            release = retained.release;
+            setCover({ songId: song.id, url: retained.url });
+        });
+
+        return () => {
+            cancelled = true;
+            release?.();
+        };
+    }, [song?.id, song?.file, song?.coverFile, song?.coverOverride, size, enabled]);
+
+    // Once disabled the URL has been released and may be revoked
+    return enabled && cover && cover.songId === song?.id ? cover.url : null;
+};
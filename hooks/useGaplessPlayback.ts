@@ -0,0 +1,567 @@
+import { useEffect, useCallback, useRef, MutableRefObject } from 'react';
+import { Song } from '../types';
+import { decodeSong, getAudioGraph } from '../utils/audioGraph';
+
+// How close to the end the handover gets scheduled (timeupdate fires every ~250ms)
+const SCHEDULE_AHEAD = 1.5;
+// Without decoded audio, the next element is started this much early to cover play() start-up
+const START_LEAD = 0.02;
+// Decoded audio is started this far ahead on the audio clock, so it starts exactly when asked
+const SCHEDULE_LEAD = 0.05;
+// Moving a playing song from its element to its decoded copy blends over this long
+const SWITCH_BLEND = 0.03;
+// An element drifting this far from its decoded copy is moved back in line
+const RESYNC_THRESHOLD = 0.25;
+// Volume steps while fading
+const FADE_STEP_MS = 50;
+
+interface Fade {
+    from: number;
+    to: number;
+    startedAt: number;
+    duration: number; // ms
+    pauseAtEnd: boolean;
+}
+
+// An element's path into the audio graph, and the decoded copy of its song while that's what plays
+interface Channel {
+    output: GainNode; // Volume and fades
+    elementGain: GainNode; // Mutes the element while its decoded copy is heard
+    source: AudioBufferSourceNode | null;
+    sourceGain: GainNode | null;
+    origin: number; // Audio clock time at which `source` is at the start of the song
+    quietSeek: boolean; // The element is being moved back in line, not seeked by the user
+}
+
+/**
+ * Gapless playback with two audio elements. While one plays, the other loads the
+ * upcoming song; at the end the standby starts and becomes `audioRef.current`.
+ * Everything else keeps using `audioRef.current`, which stays the clock for the UI,
+ * lyrics and video. Both elements get the player volume from here.
+ *
+ * Once the first user gesture has started the shared audio graph, both elements
+ * are routed into it and the current and next songs are decoded into memory. A
+ * playing element then runs muted while its decoded copy is heard, and the next
+ * song's copy is started on the audio clock on the exact sample the current one
+ * ends; the standby element follows on a timer only to take over the clock. Songs
+ * too long to decode, or anything before the graph runs, fall back to starting the
+ * standby element itself on that timer START_LEAD early, which meets within a few
+ * milliseconds.
+ *
+ * With a crossfade, the standby starts that much earlier and the two overlap, one
+ * fading out as the other fades in. Fades go through each element's channel in the
+ * graph, so the visualizer's analyser hears the same mix.
+ */
+export const useGaplessPlayback = (
+    audioRef: MutableRefObject<HTMLAudioElement>,
+    volume: number,
+    onHandover: (song: Song) => void
+) => {
+    // The fixed pair, in a stable array so App can listen to both
+    const elementsRef = useRef<HTMLAudioElement[]>([]);
+    if (elementsRef.current.length === 0) {
+        const standby = new Audio();
+        standby.volume = volume;
+        elementsRef.current = [audioRef.current, standby];
+    }
+
+    const preloadedRef = useRef<Song | null>(null);
+    // Crossfade (seconds) into the preloaded song when it takes over by itself
+    const crossfadeRef = useRef(0);
+    // The song an element started on its own at the end of the last one
+    const handedOverIdRef = useRef<string | null>(null);
+    const timerRef = useRef<number | null>(null);
+    const onHandoverRef = useRef(onHandover);
+    onHandoverRef.current = onHandover;
+
+    // Set once the graph runs; until then the elements play straight to the speakers
+    const channelsRef = useRef(new Map<HTMLAudioElement, Channel>());
+    // Decoded songs by url (undefined while decoding, null when it can't be)
+    const decodedRef = useRef(new Map<string, { buffer: AudioBuffer | null | undefined }>());
+    // The song last made current, kept decoded along with the preloaded one
+    const currentSongRef = useRef<Song | null>(null);
+
+    // --- Fades ---
+
+    const volumeRef = useRef(volume);
+    const gainsRef = useRef(new Map<HTMLAudioElement, number>());
+    const fadesRef = useRef(new Map<HTMLAudioElement, Fade>());
+    const fadeTimerRef = useRef<number | null>(null);
+    // A fade-in waiting for its element to start playing
+    const pendingFadeInRef = useRef<{ el: HTMLAudioElement; start: () => void } | null>(null);
+
+    const getLevel = (el: HTMLAudioElement) =>
+        Math.min(1, Math.max(0, volumeRef.current * (gainsRef.current.get(el) ?? 1)));
+
+    const applyVolume = (el: HTMLAudioElement) => {
+        const channel = channelsRef.current.get(el);
+        if (!channel) {
+            el.volume = getLevel(el);
+            return;
+        }
+        // Routed elements play at full volume into their channel, which their decoded copy shares
+        el.volume = 1;
+        channel.output.gain.setTargetAtTime(getLevel(el), channel.output.context.currentTime, 0.005);
+    };
+
+    const cancelPendingFadeIn = () => {
+        const pending = pendingFadeInRef.current;
+        if (!pending) return;
+        pending.el.removeEventListener('playing', pending.start);
+        pendingFadeInRef.current = null;
+    };
+
+    const setGain = (el: HTMLAudioElement, gain: number) => {
+        if (pendingFadeInRef.current?.el === el) cancelPendingFadeIn();
+        fadesRef.current.delete(el);
+        gainsRef.current.set(el, gain);
+        applyVolume(el);
+    };
+
+    const stepFades = () => {
+        const now = performance.now();
+        fadesRef.current.forEach((fade, el) => {
+            const progress = fade.duration > 0 ? Math.min(1, (now - fade.startedAt) / fade.duration) : 1;
+            gainsRef.current.set(el, fade.from + (fade.to - fade.from) * progress);
+            applyVolume(el);
+            if (progress < 1) return;
+            fadesRef.current.delete(el);
+            if (fade.pauseAtEnd) el.pause();
+        });
+        if (fadesRef.current.size === 0 && fadeTimerRef.current !== null) {
+            clearInterval(fadeTimerRef.current);
+            fadeTimerRef.current = null;
+        }
+    };
+
+    const fadeTo = (el: HTMLAudioElement, to: number, seconds: number, pauseAtEnd = false) => {
+        fadesRef.current.set(el, {
+            from: gainsRef.current.get(el) ?? 1,
+            to,
+            startedAt: performance.now(),
+            duration: seconds * 1000,
+            pauseAtEnd
+        });
+        if (fadeTimerRef.current === null) fadeTimerRef.current = window.setInterval(stepFades, FADE_STEP_MS);
+        stepFades();
+    };
+
+    // An element fading out is stopped outright, e.g. when it's needed for the next song
+    const stopFadingOut = (el: HTMLAudioElement) => {
+        if (!fadesRef.current.get(el)?.pauseAtEnd) return;
+        fadesRef.current.delete(el);
+        el.pause();
+    };
+
+    // Takes `outgoing` down over `seconds` while `incoming` comes up
+    const crossfade = (outgoing: HTMLAudioElement, incoming: HTMLAudioElement, seconds: number) => {
+        setGain(incoming, 0);
+        fadeTo(incoming, 1, seconds);
+        fadeTo(outgoing, 0, seconds, true);
+    };
+
+    useEffect(() => {
+        volumeRef.current = volume;
+        elementsRef.current.forEach(applyVolume);
+    }, [volume]);
+
+    // --- Audio graph ---
+
+    const getBuffer = (el: HTMLAudioElement) => decodedRef.current.get(el.src)?.buffer ?? null;
+
+    // Back to the element (on pause, seek or a new song); the decoded copy picks up again when it plays
+    const stopSource = (channel: Channel) => {
+        const now = channel.output.context.currentTime;
+        channel.elementGain.gain.cancelScheduledValues(now);
+        channel.elementGain.gain.setValueAtTime(1, now);
+        if (!channel.source) return;
+        channel.source.onended = null;
+        channel.source.stop();
+        channel.source.disconnect();
+        channel.sourceGain?.disconnect();
+        channel.source = null;
+        channel.sourceGain = null;
+    };
+
+    /**
+     * Plays `buffer` from `offset` at audio clock time `when` in place of the element:
+     * blended over `blend` seconds when taking over mid-song, cut on the sample otherwise.
+     */
+    const startSource = (channel: Channel, buffer: AudioBuffer, when: number, offset: number, blend: number) => {
+        stopSource(channel);
+        const context = channel.output.context;
+        const source = context.createBufferSource();
+        const sourceGain = context.createGain();
+        source.buffer = buffer;
+        source.connect(sourceGain);
+        sourceGain.connect(channel.output);
+
+        const elementGain = channel.elementGain.gain;
+        if (blend > 0) {
+            sourceGain.gain.setValueAtTime(0, when);
+            sourceGain.gain.linearRampToValueAtTime(1, when + blend);
+            elementGain.setValueAtTime(1, when);
+            elementGain.linearRampToValueAtTime(0, when + blend);
+        } else {
+            elementGain.setValueAtTime(0, when);
+        }
+        // Played to the end; the element stays muted for whatever it has left
+        source.onended = () => {
+            if (channel.source !== source) return;
+            source.disconnect();
+            sourceGain.disconnect();
+            channel.source = null;
+            channel.sourceGain = null;
+        };
+        source.start(when, offset);
+        channel.source = source;
+        channel.sourceGain = sourceGain;
+        channel.origin = when - offset;
+    };
+
+    // Moves a playing element over to its decoded copy, once there is one
+    const engage = (el: HTMLAudioElement) => {
+        const channel = channelsRef.current.get(el);
+        const buffer = getBuffer(el);
+        if (!channel || !buffer || channel.source || el.paused || el.seeking) return;
+        const context = channel.output.context;
+        const offset = el.currentTime + SCHEDULE_LEAD;
+        if (context.state !== 'running' || offset >= buffer.duration) return;
+        startSource(channel, buffer, context.currentTime + SCHEDULE_LEAD, offset, SWITCH_BLEND);
+    };
+
+    // The element is what the UI reads, so it's kept in line with what's heard
+    const resync = (el: HTMLAudioElement, channel: Channel) => {
+        const position = channel.output.context.currentTime - channel.origin;
+        if (Math.abs(position - el.currentTime) < RESYNC_THRESHOLD) return;
+        channel.quietSeek = true;
+        el.currentTime = Math.max(0, position);
+    };
+
+    const decode = (song: Song) => {
+        const graph = getAudioGraph();
+        if (!graph || channelsRef.current.size === 0 || decodedRef.current.has(song.url)) return;
+        const entry: { buffer: AudioBuffer | null | undefined } = { buffer: undefined };
+        decodedRef.current.set(song.url, entry);
+        decodeSong(song, graph.context).then(buffer => {
+            // Dropped while decoding
+            if (decodedRef.current.get(song.url) !== entry) return;
+            entry.buffer = buffer;
+            elementsRef.current.forEach(el => { if (el.src === song.url) engage(el); });
+        });
+    };
+
+    // Only the current, next and still-playing songs stay decoded
+    const pruneDecoded = () => {
+        const keep = new Set([currentSongRef.current?.url, preloadedRef.current?.url]);
+        elementsRef.current.forEach(el => { if (!el.paused) keep.add(el.src); });
+        decodedRef.current.forEach((_, url) => { if (!keep.has(url)) decodedRef.current.delete(url); });
+    };
+
+    // Elements can only be routed once, so this waits until the graph is running for good
+    const connect = () => {
+        const graph = getAudioGraph();
+        if (!graph || graph.context.state !== 'running' || channelsRef.current.size > 0) return;
+        elementsRef.current.forEach(el => {
+            try {
+                const output = graph.context.createGain();
+                const elementGain = graph.context.createGain();
+                output.gain.value = getLevel(el);
+                graph.context.createMediaElementSource(el).connect(elementGain);
+                elementGain.connect(output);
+                output.connect(graph.bus);
+                channelsRef.current.set(el, { output, elementGain, source: null, sourceGain: null, origin: 0, quietSeek: false });
+                el.volume = 1;
+            } catch (err) {
+                console.warn("[Gapless] Failed to route audio:", err);
+            }
+        });
+        [currentSongRef.current, preloadedRef.current].forEach(song => { if (song) decode(song); });
+    };
+
+    // Browsers only start audio from a user gesture
+    useEffect(() => {
+        const unlock = () => {
+            if (!elementsRef.current.some(el => el.getAttribute('src'))) return;
+            const graph = getAudioGraph();
+            if (!graph) return;
+            if (graph.context.state === 'running') connect();
+            else graph.context.resume().then(connect).catch(err => console.warn("[Gapless] Audio graph didn't start:", err));
+        };
+        window.addEventListener('pointerdown', unlock, true);
+        window.addEventListener('keydown', unlock, true);
+        return () => {
+            window.removeEventListener('pointerdown', unlock, true);
+            window.removeEventListener('keydown', unlock, true);
+        };
+    }, []);
+
+    // Each decoded copy follows its element through plays, pauses and seeks
+    useEffect(() => {
+        const elements = elementsRef.current;
+
+        const handlePlaying = (e: Event) => {
+            const el = e.target as HTMLAudioElement;
+            const channel = channelsRef.current.get(el);
+            if (channel?.source) resync(el, channel);
+            else engage(el);
+        };
+        const handleStop = (e: Event) => {
+            const el = e.target as HTMLAudioElement;
+            const channel = channelsRef.current.get(el);
+            if (!channel || (e.type === 'seeking' && channel.quietSeek)) return;
+            // A song that reached its end is left to finish on its decoded copy
+            if (e.type === 'pause' && el.ended) return;
+            stopSource(channel);
+        };
+        const handleSeeked = (e: Event) => {
+            const el = e.target as HTMLAudioElement;
+            const channel = channelsRef.current.get(el);
+            if (channel?.quietSeek) channel.quietSeek = false;
+            else engage(el);
+        };
+
+        elements.forEach(el => {
+            el.addEventListener('playing', handlePlaying);
+            el.addEventListener('pause', handleStop);
+            el.addEventListener('seeking', handleStop);
+            el.addEventListener('emptied', handleStop);
+            el.addEventListener('seeked', handleSeeked);
+        });
+        return () => {
+            elements.forEach(el => {
+                el.removeEventListener('playing', handlePlaying);
+                el.removeEventListener('pause', handleStop);
+                el.removeEventListener('seeking', handleStop);
+                el.removeEventListener('emptied', handleStop);
+                el.removeEventListener('seeked', handleSeeked);
+            });
+        };
+    }, []);
+
+    // --- Handover ---
+
+    const getStandby = () => elementsRef.current.find(el => el !== audioRef.current)!;
+
+    const cancelHandover = () => {
+        if (timerRef.current === null) return;
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+        // Take back a start already scheduled on the audio clock
+        const standby = getStandby();
+        const channel = channelsRef.current.get(standby);
+        if (channel?.source && standby.paused) stopSource(channel);
+    };
+
+    const isReady = (el: HTMLAudioElement, song: Song) =>
+        el.src === song.url && el.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA;
+
+    // No longer than half of either song
+    const getCrossfade = (active: HTMLAudioElement, standby: HTMLAudioElement) =>
+        Math.max(0, Math.min(crossfadeRef.current, active.duration / 2, standby.duration / 2)) || 0;
+
+    const handover = () => {
+        timerRef.current = null;
+        const active = audioRef.current;
+        const standby = getStandby();
+        const song = preloadedRef.current;
+        const standbyChannel = channelsRef.current.get(standby);
+        if (!song || (active.paused && !active.ended) || !isReady(standby, song)) {
+            if (standbyChannel?.source && standby.paused) stopSource(standbyChannel);
+            return;
+        }
+
+        // Already started on the audio clock; the element only takes over as the clock
+        const onClock = !!standbyChannel?.source;
+        const fade = onClock ? 0 : getCrossfade(active, standby);
+        if (!onClock) standby.currentTime = 0;
+        if (fade > 0) crossfade(active, standby, fade);
+        else setGain(standby, 1);
+        standby.play().catch(err => console.error("[Gapless] Handover failed:", err));
+        preloadedRef.current = null;
+        handedOverIdRef.current = song.id;
+        // The outgoing song is still current here, so its listen is logged against the right element
+        onHandoverRef.current(song);
+        audioRef.current = standby;
+    };
+
+    /**
+     * With both songs decoded, starts the next one on the sample the current one ends,
+     * and the handover timer for then. True when that's handled (or not due yet).
+     */
+    const scheduleOnClock = (active: HTMLAudioElement, standby: HTMLAudioElement): boolean => {
+        const activeChannel = channelsRef.current.get(active);
+        const standbyChannel = channelsRef.current.get(standby);
+        const activeBuffer = getBuffer(active);
+        const standbyBuffer = getBuffer(standby);
+        if (!activeChannel?.source || !activeBuffer || !standbyChannel || !standbyBuffer) return false;
+
+        const endsAt = activeChannel.origin + activeBuffer.duration;
+        const remaining = endsAt - activeChannel.output.context.currentTime;
+        if (remaining > SCHEDULE_AHEAD) return true;
+        // Too close to schedule precisely; the element timer still gets it there
+        if (remaining < SCHEDULE_LEAD) return false;
+
+        if (standby.currentTime !== 0) {
+            standbyChannel.quietSeek = true;
+            standby.currentTime = 0;
+        }
+        setGain(standby, 1);
+        startSource(standbyChannel, standbyBuffer, endsAt, 0, 0);
+        timerRef.current = window.setTimeout(handover, remaining * 1000);
+        return true;
+    };
+
+    // Watch whichever element is active for its last stretch
+    useEffect(() => {
+        const elements = elementsRef.current;
+
+        const handleTimeUpdate = (e: Event) => {
+            const active = audioRef.current;
+            if (e.target !== active || timerRef.current !== null) return;
+            const song = preloadedRef.current;
+            const standby = getStandby();
+            if (!song || active.paused || active.loop || !isReady(standby, song)) return;
+            const fade = getCrossfade(active, standby);
+            if (fade === 0 && scheduleOnClock(active, standby)) return;
+            const lead = fade || START_LEAD;
+            const remaining = (active.duration - active.currentTime) / (active.playbackRate || 1);
+            if (!isFinite(remaining) || remaining > lead + SCHEDULE_AHEAD) return;
+            timerRef.current = window.setTimeout(handover, Math.max(0, (remaining - lead) * 1000));
+        };
+        // The muted element can run slightly ahead of what's heard; the handover still goes first
+        const handleEnded = (e: Event) => {
+            if (e.target !== audioRef.current || timerRef.current === null) return;
+            clearTimeout(timerRef.current);
+            handover();
+        };
+        // Seeking or pausing moves the end; it's scheduled again on the next timeupdate
+        const handleInterrupt = (e: Event) => {
+            if (e.target === audioRef.current) cancelHandover();
+        };
+        // Pausing mid-crossfade also stops the song on its way out; reaching the end is left to handleEnded
+        const handlePause = (e: Event) => {
+            if (e.target !== audioRef.current || audioRef.current.ended) return;
+            cancelHandover();
+            elements.forEach(el => { if (el !== e.target) stopFadingOut(el); });
+        };
+
+        elements.forEach(el => {
+            el.addEventListener('timeupdate', handleTimeUpdate);
+            el.addEventListener('seeking', handleInterrupt);
+            el.addEventListener('pause', handlePause);
+            el.addEventListener('ended', handleEnded);
+        });
+        return () => {
+            cancelHandover();
+            elements.forEach(el => {
+                el.removeEventListener('timeupdate', handleTimeUpdate);
+                el.removeEventListener('seeking', handleInterrupt);
+                el.removeEventListener('pause', handlePause);
+                el.removeEventListener('ended', handleEnded);
+            });
+        };
+    }, []);
+
+    useEffect(() => () => {
+        cancelPendingFadeIn();
+        if (fadeTimerRef.current !== null) clearInterval(fadeTimerRef.current);
+    }, []);
+
+    /**
+     * Loads the song expected to play next into the standby element (null clears it).
+     * `crossfadeSeconds` is how long it overlaps the current song when it takes over.
+     */
+    const preload = useCallback((song: Song | null, crossfadeSeconds = 0) => {
+        crossfadeRef.current = crossfadeSeconds;
+        if (preloadedRef.current?.id === song?.id && preloadedRef.current?.url === song?.url) return;
+        cancelHandover();
+        preloadedRef.current = song;
+        if (song) decode(song);
+        pruneDecoded();
+        const standby = getStandby();
+
+        const load = () => {
+            standby.removeEventListener('pause', load);
+            standby.removeEventListener('ended', load);
+            // Something else was asked for in the meantime
+            if (preloadedRef.current !== song || standby === audioRef.current) return;
+            if (song) {
+                standby.preload = 'auto';
+                standby.src = song.url;
+                standby.load();
+            } else if (standby.getAttribute('src')) {
+                standby.removeAttribute('src');
+                standby.load();
+            }
+        };
+        // Don't cut off an element that's still playing out (or fading out) the last song
+        if (!standby.paused && !standby.ended) {
+            standby.addEventListener('pause', load);
+            standby.addEventListener('ended', load);
+        } else load();
+    }, []);
+
+    /**
+     * Called when `song` becomes current. True when an element already has it:
+     * either it was handed over at the end of the last song, or it was preloaded
+     * and is switched to now (a skip to the song that was up next), crossfading
+     * over `crossfadeSeconds` when the last song was still playing.
+     */
+    const adopt = useCallback((song: Song, crossfadeSeconds = 0): boolean => {
+        currentSongRef.current = song;
+        decode(song);
+        pruneDecoded();
+        const handedOverId = handedOverIdRef.current;
+        handedOverIdRef.current = null;
+        if (handedOverId === song.id && audioRef.current.src === song.url) return true;
+
+        const standby = getStandby();
+        if (preloadedRef.current?.id !== song.id || !isReady(standby, song)) return false;
+        cancelHandover();
+        const active = audioRef.current;
+        standby.currentTime = 0;
+        if (crossfadeSeconds > 0 && !active.paused) {
+            crossfade(active, standby, crossfadeSeconds);
+        } else {
+            active.pause();
+            setGain(standby, 1);
+        }
+        preloadedRef.current = null;
+        audioRef.current = standby;
+        return true;
+    }, []);
+
+    /**
+     * Readies `audioRef.current` for a song that wasn't preloaded. With a crossfade and
+     * something still playing, the song moves to the other element so the last one can
+     * fade out underneath it; the new one fades in once it actually starts.
+     */
+    const release = useCallback((crossfadeSeconds = 0) => {
+        const active = audioRef.current;
+        if (crossfadeSeconds <= 0 || active.paused) {
+            setGain(active, 1);
+            return;
+        }
+        cancelHandover();
+        const standby = getStandby();
+        stopFadingOut(standby);
+        preloadedRef.current = null;
+        fadeTo(active, 0, crossfadeSeconds, true);
+        setGain(standby, 0);
+        const start = () => {
+            cancelPendingFadeIn();
+            fadeTo(standby, 1, crossfadeSeconds);
+        };
+        pendingFadeInRef.current = { el: standby, start };
+        standby.addEventListener('playing', start);
+        audioRef.current = standby;
+    }, []);
+
+    return {
+        audioElements: elementsRef.current,
+        preload,
+        adopt,
+        release
+    };
+};
@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState, Dispatch, SetStateAction } from 'react';
+import { Song } from '../types';
+import { StoredSong, fromStoredSong, isStoredSongDirty, loadLibrary, saveLibraryChanges, toStoredSong } from '../utils/libraryStore';
+
+const SAVE_DELAY = 500;
+
+/**
+ * Restores the library from IndexedDB on mount and keeps it in sync afterwards.
+ * Saves are debounced and only touch songs whose persisted fields changed.
+ */
+export const useLibraryPersistence = (
+    songs: Song[],
+    setSongs: Dispatch<SetStateAction<Song[]>>,
+    enabled = true
+) => {
+    const [isRestored, setIsRestored] = useState(false);
+
+    // Last state written to the database
+    const savedRef = useRef<Map<string, StoredSong>>(new Map());
+    const savedOrderRef = useRef<string[]>([]);
+
+    // --- Restore ---
+    useEffect(() => {
+        if (!enabled) return;
+        let cancelled = false;
+
+        loadLibrary()
+            .then(stored => {
+                if (cancelled) return;
+                savedRef.current = new Map(stored.map(s => [s.id, s]));
+                savedOrderRef.current = stored.map(s => s.id);
+                if (stored.length > 0) {
+                    console.log(`[Library] Restored ${stored.length} songs`);
+                    // Anything imported while we were loading goes after the restored songs
+                    setSongs(prev => [...stored.map(fromStoredSong), ...prev]);
+                }
+            })
+            .catch(err => console.error("[Library] Failed to restore library:", err))
+            .finally(() => {
+                if (!cancelled) setIsRestored(true);
+            });
+
+        return () => { cancelled = true; };
+    }, [enabled]);
+
+    // --- Save ---
+    useEffect(() => {
+        if (!isRestored) return;
+
+        const timer = setTimeout(() => {
+            const upserts: StoredSong[] = [];
+            const next = new Map<string, StoredSong>();
+
+            songs.forEach(song => {
+                const record = toStoredSong(song);
+                if (!record) return;
+                const prev = savedRef.current.get(song.id);
+                if (isStoredSongDirty(prev, record)) {
+                    upserts.push(record);
+                    next.set(song.id, record);
+                } else {
+                    next.set(song.id, prev!);
+                }
+            });
+
+            const removedIds = [...savedRef.current.keys()].filter(id => !next.has(id));
+            const order = [...next.keys()];
+            const orderChanged = order.length !== savedOrderRef.current.length
+                || order.some((id, i) => savedOrderRef.current[i] !== id);
+
+            if (upserts.length === 0 && removedIds.length === 0 && !orderChanged) return;
+
+            savedRef.current = next;
+            savedOrderRef.current = order;
+
+            saveLibraryChanges(upserts, removedIds, orderChanged ? order : null)
+                .catch(err => console.error("[Library] Failed to save library:", err));
+        }, SAVE_DELAY);
+
+        return () => clearTimeout(timer);
+    }, [songs, isRestored]);
+
+    return { isRestored };
+};
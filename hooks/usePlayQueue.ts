@@ -0,0 +1,86 @@
+import { useEffect, useCallback, useRef, useState } from 'react';
+import { QueueEntry, QueuePosition } from '../types';
+
+const STORAGE_KEY = 'rakko_queue';
+
+const loadQueue = (): QueueEntry[] => {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return [];
+    try {
+        const parsed = JSON.parse(saved);
+        return Array.isArray(parsed) ? parsed.filter(e => e && typeof e.id === 'string' && typeof e.songId === 'string') : [];
+    } catch (e) {
+        console.error("[Queue] Failed to parse saved queue", e);
+        return [];
+    }
+};
+
+/**
+ * The up-next queue: songs picked to play before playback carries on in
+ * library (or playlist) order. Entries are consumed as they play.
+ */
+export const usePlayQueue = (enabled = true) => {
+    const [queue, setQueue] = useState<QueueEntry[]>(() => enabled ? loadQueue() : []);
+    // Mirrors state synchronously so playNext can take from it straight away
+    const queueRef = useRef(queue);
+
+    const update = useCallback((next: QueueEntry[]) => {
+        queueRef.current = next;
+        setQueue(next);
+    }, []);
+
+    useEffect(() => {
+        if (!enabled) return;
+        if (queue.length > 0) localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+        else localStorage.removeItem(STORAGE_KEY);
+    }, [queue, enabled]);
+
+    const enqueue = useCallback((songIds: string[], position: QueuePosition) => {
+        if (songIds.length === 0) return;
+        const entries = songIds.map(songId => ({ id: Math.random().toString(36).substr(2, 9), songId }));
+        update(position === 'next' ? [...entries, ...queueRef.current] : [...queueRef.current, ...entries]);
+    }, [update]);
+
+    const moveEntry = useCallback((from: number, to: number) => {
+        const next = [...queueRef.current];
+        if (from < 0 || from >= next.length || to < 0 || to >= next.length || from === to) return;
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+        update(next);
+    }, [update]);
+
+    const removeEntry = useCallback((entryId: string) => {
+        update(queueRef.current.filter(e => e.id !== entryId));
+    }, [update]);
+
+    const clearQueue = useCallback(() => update([]), [update]);
+
+    /** The song id `takeNext` would return, left in the queue. */
+    const peekNext = useCallback((isAvailable: (songId: string) => boolean): string | null =>
+        queueRef.current.find(e => isAvailable(e.songId))?.songId ?? null, []);
+
+    /**
+     * Removes and returns the next queued song id, or null once the queue is empty.
+     * Entries for songs no longer in the library are dropped on the way.
+     */
+    const takeNext = useCallback((isAvailable: (songId: string) => boolean): string | null => {
+        const index = queueRef.current.findIndex(e => isAvailable(e.songId));
+        if (index === -1) {
+            if (queueRef.current.length > 0) update([]);
+            return null;
+        }
+        const songId = queueRef.current[index].songId;
+        update(queueRef.current.slice(index + 1));
+        return songId;
+    }, [update]);
+
+    return {
+        queue,
+        enqueue,
+        moveEntry,
+        removeEntry,
+        clearQueue,
+        peekNext,
+        takeNext
+    };
+};
@@ -0,0 +1,80 @@
+import { useEffect, useCallback, useRef, useState } from 'react';
+import { ListenEvent, PlayStat } from '../types';
+import { loadPlayStats, saveListenEvent, savePlayStat } from '../utils/playStats';
+
+type StatUpdate = { songId: string; kind: 'play' | 'skip'; at: number };
+
+/**
+ * Per-song play and skip counts, plus the listening history, persisted in IndexedDB.
+ * Updates recorded before the stored stats have loaded are applied afterwards,
+ * so they add to the saved counts instead of overwriting them.
+ */
+export const usePlayStats = (enabled = true) => {
+    const [playStats, setPlayStats] = useState<Record<string, PlayStat>>({});
+    // Bumped whenever a listen is logged, so views reading the history can reload
+    const [historyVersion, setHistoryVersion] = useState(0);
+    const statsRef = useRef(playStats);
+    const isLoadedRef = useRef(false);
+    const pendingRef = useRef<StatUpdate[]>([]);
+
+    const applyUpdate = useCallback(({ songId, kind, at }: StatUpdate) => {
+        const previous = statsRef.current[songId];
+        const stat: PlayStat = {
+            songId,
+            playCount: (previous?.playCount || 0) + (kind === 'play' ? 1 : 0),
+            skipCount: (previous?.skipCount || 0) + (kind === 'skip' ? 1 : 0),
+            lastPlayedAt: kind === 'play' ? at : previous?.lastPlayedAt
+        };
+        statsRef.current = { ...statsRef.current, [songId]: stat };
+        savePlayStat(stat).catch(err => console.error("[PlayStats] Failed to save play stat:", err));
+    }, []);
+
+    const queueUpdate = useCallback((update: StatUpdate) => {
+        if (!isLoadedRef.current) {
+            pendingRef.current.push(update);
+            return;
+        }
+        applyUpdate(update);
+        setPlayStats(statsRef.current);
+    }, [applyUpdate]);
+
+    useEffect(() => {
+        if (!enabled) return;
+        let cancelled = false;
+
+        loadPlayStats()
+            .catch(err => {
+                console.error("[PlayStats] Failed to load play stats:", err);
+                return {};
+            })
+            .then(stored => {
+                if (cancelled) return;
+                statsRef.current = stored;
+                isLoadedRef.current = true;
+                pendingRef.current.forEach(applyUpdate);
+                pendingRef.current = [];
+                setPlayStats(statsRef.current);
+            });
+
+        return () => { cancelled = true; };
+    }, [enabled, applyUpdate]);
+
+    const recordPlay = useCallback((songId: string) => {
+        queueUpdate({ songId, kind: 'play', at: Date.now() });
+    }, [queueUpdate]);
+
+    /** Logs a finished listen; skipped listens also count towards the song's skips. */
+    const recordListen = useCallback((event: ListenEvent) => {
+        if (event.skipped) queueUpdate({ songId: event.songId, kind: 'skip', at: event.startedAt });
+        saveListenEvent(event)
+            .then(() => setHistoryVersion(v => v + 1))
+            .catch(err => console.error("[PlayStats] Failed to save listen:", err));
+    }, [queueUpdate]);
+
+    return {
+        playStats,
+        historyVersion,
+        recordPlay,
+        recordListen
+    };
+};
@@ -0,0 +1,115 @@
+import { useEffect, useCallback, useRef, useState } from 'react';
+import { NamedPlaylist, SmartPlaylistRules } from '../types';
+import { deletePlaylist, loadPlaylists, savePlaylist } from '../utils/playlists';
+
+/**
+ * Named playlists, persisted in IndexedDB.
+ * Every change is written right away; playlists are small.
+ */
+export const usePlaylists = (enabled = true) => {
+    const [playlists, setPlaylists] = useState<NamedPlaylist[]>([]);
+    // Mirrors state synchronously so chained edits see each other
+    const playlistsRef = useRef(playlists);
+
+    useEffect(() => {
+        if (!enabled) return;
+        let cancelled = false;
+
+        loadPlaylists()
+            .then(stored => {
+                if (cancelled) return;
+                // Anything created while loading stays after the stored playlists
+                playlistsRef.current = [...stored, ...playlistsRef.current.filter(p => !stored.some(s => s.id === p.id))];
+                setPlaylists(playlistsRef.current);
+            })
+            .catch(err => console.error("[Playlists] Failed to load playlists:", err));
+
+        return () => { cancelled = true; };
+    }, [enabled]);
+
+    const upsertPlaylist = useCallback((playlist: NamedPlaylist) => {
+        playlistsRef.current = playlistsRef.current.some(p => p.id === playlist.id)
+            ? playlistsRef.current.map(p => p.id === playlist.id ? playlist : p)
+            : [...playlistsRef.current, playlist];
+        setPlaylists(playlistsRef.current);
+        savePlaylist(playlist).catch(err => console.error("[Playlists] Failed to save playlist:", err));
+    }, []);
+
+    const removePlaylist = useCallback((id: string) => {
+        playlistsRef.current = playlistsRef.current.filter(p => p.id !== id);
+        setPlaylists(playlistsRef.current);
+        deletePlaylist(id).catch(err => console.error("[Playlists] Failed to delete playlist:", err));
+    }, []);
+
+    // "Mix", "Mix 2", "Mix 3"...
+    const uniqueName = (base: string) => {
+        const taken = new Set(playlistsRef.current.map(p => p.name));
+        if (!taken.has(base)) return base;
+        let n = 2;
+        while (taken.has(`${base} ${n}`)) n++;
+        return `${base} ${n}`;
+    };
+
+    const updatePlaylist = useCallback((id: string, update: (playlist: NamedPlaylist) => NamedPlaylist) => {
+        const current = playlistsRef.current.find(p => p.id === id);
+        if (current) upsertPlaylist(update(current));
+    }, [upsertPlaylist]);
+
+    const createPlaylist = useCallback((name: string, songIds: string[] = [], smart?: SmartPlaylistRules): NamedPlaylist => {
+        const playlist: NamedPlaylist = {
+            id: Math.random().toString(36).substr(2, 9),
+            name: uniqueName(name.trim() || 'New Playlist'),
+            songIds,
+            createdAt: Date.now(),
+            smart
+        };
+        upsertPlaylist(playlist);
+        return playlist;
+    }, [upsertPlaylist]);
+
+    const renamePlaylist = useCallback((id: string, name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        updatePlaylist(id, p => ({ ...p, name: trimmed }));
+    }, [updatePlaylist]);
+
+    const duplicatePlaylist = useCallback((id: string): NamedPlaylist | null => {
+        const original = playlistsRef.current.find(p => p.id === id);
+        if (!original) return null;
+        // The copy is a plain playlist; it no longer mirrors the imported file
+        return createPlaylist(`${original.name} (Copy)`, [...original.songIds], original.smart);
+    }, [createPlaylist]);
+
+    const updateSmartPlaylist = useCallback((id: string, name: string, smart: SmartPlaylistRules) => {
+        updatePlaylist(id, p => ({ ...p, name: name.trim() || p.name, smart }));
+    }, [updatePlaylist]);
+
+    const setPlaylistSongs = useCallback((id: string, songIds: string[]) => {
+        updatePlaylist(id, p => ({ ...p, songIds }));
+    }, [updatePlaylist]);
+
+    const addToPlaylist = useCallback((id: string, songIds: string[]) => {
+        updatePlaylist(id, p => {
+            const existing = new Set(p.songIds);
+            return { ...p, songIds: [...p.songIds, ...songIds.filter(s => !existing.has(s))] };
+        });
+    }, [updatePlaylist]);
+
+    const removeFromPlaylist = useCallback((id: string, songIds: string[]) => {
+        const ids = new Set(songIds);
+        updatePlaylist(id, p => ({ ...p, songIds: p.songIds.filter(s => !ids.has(s)) }));
+    }, [updatePlaylist]);
+
+    return {
+        playlists,
+        upsertPlaylist,
+        removePlaylist,
+        createPlaylist,
+        renamePlaylist,
+        duplicatePlaylist,
+        updateSmartPlaylist,
+        setPlaylistSongs,
+        addToPlaylist,
+        removeFromPlaylist
+    };
+};
@@ -1,6 +1,6 @@
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { Song, AudioState } from '../types';
+import { Song, AudioState, QueuePosition, RepeatMode } from '../types';
 
 // --- Types ---
 
@@ -18,10 +18,28 @@ export interface SyncStatePayload {
     currentCover: string | null;
     audioState: AudioState;
     songs: Song[];
+    playlists: SyncPlaylistSummary[];
+    activePlaylistId: string | null;
+    queue: SyncQueueEntry[];
     settings: any; // Using any to avoid circular dependency if types is not imported properly or minimal subset
     timestamp: number;
 }
 
+// Just enough for the controller to offer a playlist switcher
+export interface SyncPlaylistSummary {
+    id: string;
+    name: string;
+    count: number;
+}
+
+// A queued song, labelled so the controller can show it even when it isn't in `songs`
+export interface SyncQueueEntry {
+    id: string;
+    songId: string;
+    title: string;
+    artist: string;
+}
+
 export type SyncCommand =
     | 'PLAY'
     | 'PAUSE'
@@ -33,7 +51,12 @@ export type SyncCommand =
     | 'SET_LOOP'
     | 'SET_SHUFFLE'
     | 'PLAY_SONG'
-    | 'REORDER_SONGS';
+    | 'REORDER_SONGS'
+    | 'SET_PLAYLIST'
+    | 'ENQUEUE'
+    | 'REMOVE_FROM_QUEUE'
+    | 'MOVE_QUEUE_ITEM'
+    | 'CLEAR_QUEUE';
 
 interface UsePresentationSyncProps {
     role: SyncRole;
@@ -42,6 +65,9 @@ interface UsePresentationSyncProps {
     currentCover?: string | null;
     audioState?: AudioState;
     songs?: Song[];
+    playlists?: SyncPlaylistSummary[];
+    activePlaylistId?: string | null;
+    queue?: SyncQueueEntry[];
     settings?: any;
     // Player-only handlers (to execute commands)
     onPlay?: () => void;
@@ -51,10 +77,15 @@ interface UsePresentationSyncProps {
     onPrev?: () => void;
     onSeek?: (time: number) => void;
     onSetVolume?: (vol: number) => void;
-    onSetLoop?: (loop: boolean) => void;
+    onSetLoop?: (mode: RepeatMode) => void;
     onSetShuffle?: (shuffle: boolean) => void;
     onPlaySong?: (song: Song) => void;
     onReorder?: (from: number, to: number) => void;
+    onSetPlaylist?: (playlistId: string | null) => void;
+    onEnqueue?: (songIds: string[], position: QueuePosition) => void;
+    onRemoveFromQueue?: (entryId: string) => void;
+    onMoveQueueItem?: (from: number, to: number) => void;
+    onClearQueue?: () => void;
 }
 
 export const usePresentationSync = ({
@@ -63,6 +94,9 @@ export const usePresentationSync = ({
     currentCover,
     audioState,
     songs,
+    playlists,
+    activePlaylistId,
+    queue,
     settings,
     onPlay,
     onPause,
@@ -74,7 +108,12 @@ export const usePresentationSync = ({
     onSetLoop,
     onSetShuffle,
     onPlaySong,
-    onReorder
+    onReorder,
+    onSetPlaylist,
+    onEnqueue,
+    onRemoveFromQueue,
+    onMoveQueueItem,
+    onClearQueue
 }: UsePresentationSyncProps) => {
 
     // --- State for Controller ---
@@ -82,6 +121,9 @@ export const usePresentationSync = ({
     const [syncedCover, setSyncedCover] = useState<string | null>(null);
     const [syncedAudioState, setSyncedAudioState] = useState<AudioState | null>(null);
     const [syncedSongs, setSyncedSongs] = useState<Song[]>([]);
+    const [syncedPlaylists, setSyncedPlaylists] = useState<SyncPlaylistSummary[]>([]);
+    const [syncedActivePlaylistId, setSyncedActivePlaylistId] = useState<string | null>(null);
+    const [syncedQueue, setSyncedQueue] = useState<SyncQueueEntry[]>([]);
     const [syncedSettings, setSyncedSettings] = useState<any>(null);
     const [lastSyncTime, setLastSyncTime] = useState<number>(0);
     const [lastPongTime, setLastPongTime] = useState<number>(0);
@@ -105,6 +147,9 @@ export const usePresentationSync = ({
                     // Only update songs if changed (check length or hash if feasible, simple length/id check for now)
                     // For optimization, we rely on React's diffing, but could avoid setting if identical.
                     setSyncedSongs(msg.payload.songs);
+                    setSyncedPlaylists(msg.payload.playlists || []);
+                    setSyncedActivePlaylistId(msg.payload.activePlaylistId ?? null);
+                    setSyncedQueue(msg.payload.queue || []);
                     setSyncedSettings(msg.payload.settings);
                     setLastSyncTime(msg.payload.timestamp);
                 } else if (msg.type === 'PONG') {
@@ -144,9 +189,12 @@ export const usePresentationSync = ({
         const payload: SyncStatePayload = {
             currentSong: currentSong || null,
             currentCover: currentCover || null,
-            audioState: audioState || { isPlaying: false, currentTime: 0, duration: 0, volume: 1, isLooping: false, isShuffle: false },
+            audioState: audioState || { isPlaying: false, currentTime: 0, duration: 0, volume: 1, repeatMode: 'off', isShuffle: false },
             // To reduce bandwidth, we could just send IDs, but for Demo Mode (local), full objects are fine.
             songs: songs || [],
+            playlists: playlists || [],
+            activePlaylistId: activePlaylistId ?? null,
+            queue: queue || [],
             settings: settings || {},
             timestamp: Date.now()
         };
@@ -170,7 +218,7 @@ export const usePresentationSync = ({
         // For MVP/Demo with <100 songs, it's acceptable. For production, separate PLAYLIST_UPDATE message.
 
         channelRef.current.postMessage({ type: 'STATE_UPDATE', payload });
-    }, [role, currentSong, currentCover, audioState, songs, settings]);
+    }, [role, currentSong, currentCover, audioState, songs, playlists, activePlaylistId, queue, settings]);
 
     // --- Throttle Broadcasts ---
     useEffect(() => {
@@ -186,20 +234,22 @@ export const usePresentationSync = ({
         }, 100); // 10Hz sync rate is plenty for smooth Seek Bar in remote
 
         return () => clearTimeout(handler);
-    }, [role, audioState, currentSong, currentCover, songs, settings, broadcastState]);
+    }, [role, audioState, currentSong, currentCover, songs, playlists, activePlaylistId, queue, settings, broadcastState]);
 
 
     // --- Refs for Handlers (to avoid stale closures in useEffect) ---
     const handlersRef = useRef({
         onPlay, onPause, onTogglePlay, onNext, onPrev,
-        onSeek, onSetVolume, onSetLoop, onSetShuffle, onPlaySong, onReorder
+        onSeek, onSetVolume, onSetLoop, onSetShuffle, onPlaySong, onReorder, onSetPlaylist,
+        onEnqueue, onRemoveFromQueue, onMoveQueueItem, onClearQueue
     });
 
     // Update refs on every render
     useEffect(() => {
         handlersRef.current = {
             onPlay, onPause, onTogglePlay, onNext, onPrev,
-            onSeek, onSetVolume, onSetLoop, onSetShuffle, onPlaySong, onReorder
+            onSeek, onSetVolume, onSetLoop, onSetShuffle, onPlaySong, onReorder, onSetPlaylist,
+            onEnqueue, onRemoveFromQueue, onMoveQueueItem, onClearQueue
         };
     });
 
@@ -224,7 +274,11 @@ export const usePresentationSync = ({
                 break;
             case 'SEEK': handlers.onSeek?.(payload); break;
             case 'SET_VOLUME': handlers.onSetVolume?.(payload); break;
-            case 'SET_LOOP': handlers.onSetLoop?.(payload); break;
+            case 'SET_LOOP':
+                // Older controllers send a boolean, which meant repeat one
+                if (payload === 'off' || payload === 'all' || payload === 'one') handlers.onSetLoop?.(payload);
+                else if (typeof payload === 'boolean') handlers.onSetLoop?.(payload ? 'one' : 'off');
+                break;
             case 'SET_SHUFFLE': handlers.onSetShuffle?.(payload); break;
             case 'PLAY_SONG': handlers.onPlaySong?.(payload); break;
             case 'REORDER_SONGS':
@@ -232,6 +286,19 @@ export const usePresentationSync = ({
                     handlers.onReorder?.(payload.from, payload.to);
                 }
                 break;
+            case 'SET_PLAYLIST': handlers.onSetPlaylist?.(payload ?? null); break;
+            case 'ENQUEUE':
+                if (payload && Array.isArray(payload.songIds)) {
+                    handlers.onEnqueue?.(payload.songIds, payload.position === 'next' ? 'next' : 'last');
+                }
+                break;
+            case 'REMOVE_FROM_QUEUE': handlers.onRemoveFromQueue?.(payload); break;
+            case 'MOVE_QUEUE_ITEM':
+                if (payload && typeof payload.from === 'number' && typeof payload.to === 'number') {
+                    handlers.onMoveQueueItem?.(payload.from, payload.to);
+                }
+                break;
+            case 'CLEAR_QUEUE': handlers.onClearQueue?.(); break;
         }
     };
 
@@ -257,6 +324,9 @@ export const usePresentationSync = ({
         syncedCover,
         syncedAudioState,
         syncedSongs,
+        syncedPlaylists,
+        syncedActivePlaylistId,
+        syncedQueue,
         syncedSettings,
         lastSyncTime,
         lastPongTime,
@@ -0,0 +1,107 @@
+import { useEffect, useCallback, useMemo, useRef } from 'react';
+import { Song } from '../types';
+import { dealShuffle } from '../utils/shuffle';
+
+const HISTORY_LIMIT = 200;
+
+/**
+ * Shuffle playback and the history behind Prev.
+ * Songs are dealt from a deck so each plays once per cycle; the deck is re-dealt
+ * from the songs not yet heard whenever the list being shuffled changes.
+ * The history records what actually played, queued and hand-picked songs included.
+ */
+export const useShuffle = (songs: Song[], currentSong: Song | null, isShuffle: boolean, smart: boolean) => {
+    const deckRef = useRef<string[]>([]);
+    // Songs already heard in this cycle
+    const playedRef = useRef<Set<string>>(new Set());
+    const historyRef = useRef<string[]>([]);
+    const lastSongIdRef = useRef<string | null>(null);
+    // Set while stepping back, so the step isn't recorded as history
+    const goingBackRef = useRef(false);
+
+    useEffect(() => {
+        const id = currentSong?.id ?? null;
+        const previous = lastSongIdRef.current;
+        lastSongIdRef.current = id;
+        if (id) playedRef.current.add(id);
+        if (goingBackRef.current) {
+            goingBackRef.current = false;
+            return;
+        }
+        if (previous && previous !== id) {
+            historyRef.current = [...historyRef.current, previous].slice(-HISTORY_LIMIT);
+        }
+    }, [currentSong?.id]);
+
+    // A new or different list (or switching smart shuffle) deals again
+    const songIdsKey = useMemo(() => songs.map(s => s.id).sort().join('\n'), [songs]);
+    useEffect(() => {
+        deckRef.current = [];
+    }, [songIdsKey, smart]);
+
+    // Turning shuffle on starts a new cycle
+    useEffect(() => {
+        if (!isShuffle) return;
+        playedRef.current = new Set(lastSongIdRef.current ? [lastSongIdRef.current] : []);
+        deckRef.current = [];
+    }, [isShuffle]);
+
+    // The remaining deal, dealt again when it runs out. Once every song has played,
+    // a new cycle starts, unless `allowNewCycle` is off (repeat off).
+    const getDeck = useCallback((allowNewCycle: boolean): { deck: string[]; byId: Map<string, Song> } | null => {
+        if (songs.length === 0) return null;
+        const byId = new Map(songs.map(s => [s.id, s] as const));
+        let deck = deckRef.current.filter(id => byId.has(id) && !playedRef.current.has(id));
+
+        if (deck.length === 0) {
+            let unplayed = songs.filter(s => !playedRef.current.has(s.id));
+            if (unplayed.length === 0) {
+                if (!allowNewCycle) return null;
+                // Everything has played; start the next cycle
+                playedRef.current = new Set();
+                unplayed = songs;
+            }
+            const previous = lastSongIdRef.current ? byId.get(lastSongIdRef.current) || null : null;
+            deck = dealShuffle(unplayed, previous, smart).map(s => s.id);
+        }
+        deckRef.current = deck;
+        return { deck, byId };
+    }, [songs, smart]);
+
+    /** The song `takeShuffled` would return, without dealing it out. */
+    const peekShuffled = useCallback((allowNewCycle = true): Song | null => {
+        const dealt = getDeck(allowNewCycle);
+        return dealt ? dealt.byId.get(dealt.deck[0]) || null : null;
+    }, [getDeck]);
+
+    const takeShuffled = useCallback((allowNewCycle = true): Song | null => {
+        const dealt = getDeck(allowNewCycle);
+        if (!dealt) return null;
+        const [nextId, ...rest] = dealt.deck;
+        deckRef.current = rest;
+        playedRef.current.add(nextId);
+        return dealt.byId.get(nextId) || null;
+    }, [getDeck]);
+
+    /**
+     * The song that played before the current one, skipping any that have left the library.
+     */
+    const takePrevious = useCallback((findSong: (id: string) => Song | undefined): Song | null => {
+        while (historyRef.current.length > 0) {
+            const id = historyRef.current[historyRef.current.length - 1];
+            historyRef.current = historyRef.current.slice(0, -1);
+            const song = findSong(id);
+            if (song && song.id !== lastSongIdRef.current) {
+                goingBackRef.current = true;
+                return song;
+            }
+        }
+        return null;
+    }, []);
+
+    return {
+        peekShuffled,
+        takeShuffled,
+        takePrevious
+    };
+};
@@ -0,0 +1,89 @@
+import { useEffect, useCallback, useRef, useState } from 'react';
+
+/**
+ * A reversible edit. `redo` re-applies it after an undo; the edit itself is
+ * made by the caller before pushing.
+ */
+export interface UndoCommand {
+    label: string; // e.g. Removed "Song"
+    undo: () => void;
+    redo: () => void;
+}
+
+export interface UndoToast {
+    id: number;
+    message: string;
+    // Which way the toast's button goes
+    action: 'undo' | 'redo';
+}
+
+const HISTORY_LIMIT = 50;
+
+// Text fields keep their own undo
+const isEditableTarget = (target: EventTarget | null) => {
+    const el = target as HTMLElement | null;
+    return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable);
+};
+
+/**
+ * Undo/redo stacks for library edits, with Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y).
+ * The last step is surfaced as a toast so it can be reverted with a click.
+ */
+export const useUndoHistory = (enabled = true) => {
+    const undoStackRef = useRef<UndoCommand[]>([]);
+    const redoStackRef = useRef<UndoCommand[]>([]);
+    const [toast, setToast] = useState<UndoToast | null>(null);
+
+    const showToast = (message: string, action: UndoToast['action']) => {
+        setToast(prev => ({ id: (prev?.id || 0) + 1, message, action }));
+    };
+
+    const pushUndo = useCallback((command: UndoCommand) => {
+        undoStackRef.current = [...undoStackRef.current, command].slice(-HISTORY_LIMIT);
+        redoStackRef.current = [];
+        showToast(command.label, 'undo');
+    }, []);
+
+    const undo = useCallback(() => {
+        const command = undoStackRef.current.pop();
+        if (!command) return;
+        command.undo();
+        redoStackRef.current.push(command);
+        showToast(`Undone: ${command.label}`, 'redo');
+    }, []);
+
+    const redo = useCallback(() => {
+        const command = redoStackRef.current.pop();
+        if (!command) return;
+        command.redo();
+        undoStackRef.current.push(command);
+        showToast(command.label, 'undo');
+    }, []);
+
+    const dismissToast = useCallback(() => setToast(null), []);
+
+    useEffect(() => {
+        if (!enabled) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [enabled, undo, redo]);
+
+    return {
+        toast,
+        pushUndo,
+        undo,
+        redo,
+        dismissToast
+    };
+};
@@ -0,0 +1,204 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { Song } from '../types';
+import { pickDirectory, scanDirectory, verifyPermission } from '../utils/fileSystem';
+import { WatchedFolder, deleteWatchedFolder, diffFolderScan, loadWatchedFolders, saveWatchedFolder } from '../utils/watchedFolders';
+
+export type FolderStatus = 'ready' | 'needs-permission' | 'denied' | 'scanning';
+
+export interface WatchedFolderView {
+    id: string;
+    name: string;
+    status: FolderStatus;
+    lastScanned: number | null;
+}
+
+export interface ImportOptions {
+    folderId?: string;
+}
+
+interface UseWatchedFoldersProps {
+    songs: Song[];
+    isLibraryRestored: boolean;
+    importFiles: (files: File[], options?: ImportOptions) => Promise<void>;
+    removeSongs: (ids: string[]) => void;
+    enabled?: boolean;
+}
+
+/**
+ * Keeps track of registered library folders, their permission state and rescans.
+ * Folders that still have permission are rescanned once the library is restored;
+ * the others are re-requested on the first user interaction.
+ */
+export const useWatchedFolders = ({
+    songs,
+    isLibraryRestored,
+    importFiles,
+    removeSongs,
+    enabled = true
+}: UseWatchedFoldersProps) => {
+    const [folders, setFolders] = useState<WatchedFolder[]>([]);
+    const [statuses, setStatuses] = useState<Record<string, FolderStatus>>({});
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    // Refs so async scans always see the latest library and handlers
+    const songsRef = useRef(songs);
+    const foldersRef = useRef(folders);
+    const statusesRef = useRef(statuses);
+    const handlersRef = useRef({ importFiles, removeSongs });
+    const autoScannedRef = useRef(false);
+
+    useEffect(() => {
+        songsRef.current = songs;
+        foldersRef.current = folders;
+        statusesRef.current = statuses;
+        handlersRef.current = { importFiles, removeSongs };
+    });
+
+    const setStatus = (id: string, status: FolderStatus) => {
+        setStatuses(prev => ({ ...prev, [id]: status }));
+    };
+
+    const updateFolder = (folder: WatchedFolder) => {
+        setFolders(prev => prev.some(f => f.id === folder.id)
+            ? prev.map(f => f.id === folder.id ? folder : f)
+            : [...prev, folder]);
+        saveWatchedFolder(folder).catch(err => console.error("[Folders] Failed to save folder:", err));
+    };
+
+    // --- Scanning ---
+    const scanFolder = useCallback(async (folder: WatchedFolder) => {
+        setStatus(folder.id, 'scanning');
+        try {
+            const files = await scanDirectory(folder.handle);
+            const diff = diffFolderScan(folder, files, songsRef.current);
+
+            console.log(`[Folders] Rescan "${folder.name}": +${diff.added.length} ~${diff.changed.length} -${diff.removedSongIds.length - diff.changed.length}, ${diff.sidecars.length} other files`);
+
+            if (diff.removedSongIds.length > 0) {
+                handlersRef.current.removeSongs(diff.removedSongIds);
+            }
+
+            const toImport = [...diff.added, ...diff.changed, ...diff.sidecars];
+            if (toImport.length > 0) {
+                await handlersRef.current.importFiles(toImport, { folderId: folder.id });
+            }
+
+            updateFolder({ ...folder, lastScanned: Date.now(), knownFiles: diff.knownFiles });
+            setStatus(folder.id, 'ready');
+        } catch (err) {
+            console.error(`[Folders] Failed to scan "${folder.name}":`, err);
+            setStatus(folder.id, 'needs-permission');
+        }
+    }, []);
+
+    const rescanFolder = useCallback(async (id: string) => {
+        const folder = foldersRef.current.find(f => f.id === id);
+        if (!folder) return;
+
+        const permission = await verifyPermission(folder.handle, true);
+        if (permission !== 'granted') {
+            setStatus(id, permission === 'denied' ? 'denied' : 'needs-permission');
+            return;
+        }
+        await scanFolder(folder);
+    }, [scanFolder]);
+
+    // --- Registration ---
+    const addFolder = useCallback(async () => {
+        const handle = await pickDirectory();
+        if (!handle) return;
+
+        // Picking an already watched folder just rescans it
+        for (const folder of foldersRef.current) {
+            if (await folder.handle.isSameEntry(handle)) {
+                await scanFolder(folder);
+                return;
+            }
+        }
+
+        const folder: WatchedFolder = {
+            id: Math.random().toString(36).substr(2, 9),
+            name: handle.name,
+            handle,
+            addedAt: Date.now(),
+            lastScanned: null,
+            knownFiles: {}
+        };
+        updateFolder(folder);
+        await scanFolder(folder);
+    }, [scanFolder]);
+
+    const removeFolder = useCallback((id: string) => {
+        setFolders(prev => prev.filter(f => f.id !== id));
+        setStatuses(prev => {
+            const { [id]: _, ...rest } = prev;
+            return rest;
+        });
+        deleteWatchedFolder(id).catch(err => console.error("[Folders] Failed to delete folder:", err));
+
+        const songIds = songsRef.current.filter(s => s.folderId === id).map(s => s.id);
+        if (songIds.length > 0) handlersRef.current.removeSongs(songIds);
+    }, []);
+
+    // --- Load & Permission Check ---
+    useEffect(() => {
+        if (!enabled) return;
+        let cancelled = false;
+
+        loadWatchedFolders()
+            .then(async stored => {
+                const initial: Record<string, FolderStatus> = {};
+                for (const folder of stored) {
+                    const permission = await verifyPermission(folder.handle, false);
+                    initial[folder.id] = permission === 'granted' ? 'ready' : permission === 'denied' ? 'denied' : 'needs-permission';
+                }
+                if (cancelled) return;
+                setFolders(stored);
+                setStatuses(initial);
+                setIsLoaded(true);
+            })
+            .catch(err => console.error("[Folders] Failed to load watched folders:", err));
+
+        return () => { cancelled = true; };
+    }, [enabled]);
+
+    // Rescan folders we still have access to, once the library is in place to diff against
+    useEffect(() => {
+        if (!isLoaded || !isLibraryRestored || autoScannedRef.current) return;
+        autoScannedRef.current = true;
+
+        foldersRef.current
+            .filter(f => statusesRef.current[f.id] === 'ready')
+            .reduce((chain, folder) => chain.then(() => scanFolder(folder)), Promise.resolve());
+    }, [isLoaded, isLibraryRestored]);
+
+    // Permission prompts need a user gesture, so re-request on the first interaction
+    const needsPermission = folders.some(f => statuses[f.id] === 'needs-permission');
+    useEffect(() => {
+        if (!needsPermission || !isLibraryRestored) return;
+
+        const handleInteraction = () => {
+            window.removeEventListener('pointerdown', handleInteraction);
+            foldersRef.current
+                .filter(f => statusesRef.current[f.id] === 'needs-permission')
+                .forEach(f => rescanFolder(f.id));
+        };
+
+        window.addEventListener('pointerdown', handleInteraction);
+        return () => window.removeEventListener('pointerdown', handleInteraction);
+    }, [needsPermission, isLibraryRestored, rescanFolder]);
+
+    const folderViews: WatchedFolderView[] = folders.map(f => ({
+        id: f.id,
+        name: f.name,
+        status: statuses[f.id] || 'ready',
+        lastScanned: f.lastScanned
+    }));
+
+    return {
+        folders: folderViews,
+        addFolder,
+        rescanFolder,
+        removeFolder
+    };
+};
@@ -6,6 +6,33 @@ export interface ParsedMusicInfo {
   features: string[];
   version: string | null;
   extra: string | null;
+  // Filled from embedded tags when available
+  albumArtist?: string | null;
+  trackNumber?: number | null;
+  discNumber?: number | null;
+  year?: number | null;
+  genre?: string | null;
+}
+
+export interface TagPicture {
+  data: Uint8Array;
+  format: string; // MIME type
+  type?: number; // ID3/FLAC picture type, 3 = front cover
+}
+
+// Raw values read from an audio file's embedded tags
+export interface AudioTags {
+  title?: string;
+  artists: string[];
+  features?: string[]; // FEATURING (Vorbis) / TXXX:FEATURING (ID3)
+  album?: string;
+  albumArtist?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  year?: number;
+  genre?: string;
+  picture?: TagPicture;
+  lyrics?: string; // LRC when the tag was synced (SYLT), plain text otherwise
 }
 
 export interface Song {
@@ -15,9 +42,17 @@ export interface Song {
   artist: string; // Legacy fallback or joined string
   url: string;
   lyrics?: string;
+  embeddedLyrics?: boolean; // Lyrics came from the file's tags; a matching sidecar .lrc replaces them
   videoUrl?: string; // URL for the music video
+  videoFile?: File; // Source of videoUrl, kept so the association survives reloads
+  coverFile?: File; // Folder artwork (cover.jpg, folder.png...) used when nothing is embedded
+  coverOverride?: Blob; // Cover picked in the metadata editor; wins over embedded art
   metadata?: ParsedMusicInfo; // Rich metadata
+  duration?: number; // Seconds, known once the song was loaded or probed
   mysteryCode?: string; // The source code/URL for remote songs
+  folderId?: string; // Watched folder this song was scanned from
+  relativePath?: string; // Path inside the imported folder, e.g. "Music/Artist/Album/01 Title.flac"
+  addedAt?: number; // When the song entered the library (ms); unknown for songs imported before it was recorded
 }
 
 export interface AudioState {
@@ -25,10 +60,13 @@ export interface AudioState {
   currentTime: number;
   duration: number;
   volume: number;
-  isLooping: boolean;
+  repeatMode: RepeatMode;
   isShuffle: boolean;
 }
 
+// 'off' stops after the last song, 'all' wraps around, 'one' loops the current song
+export type RepeatMode = 'off' | 'all' | 'one';
+
 export interface AppSettings {
   wallpaper: string;
   bassBoost: boolean;
@@ -36,6 +74,106 @@ export interface AppSettings {
 
   performanceMode: boolean;
   idleMode: boolean;
+  smartShuffle: boolean; // Keep songs by the same artist apart when shuffling
+  crossfade: number; // Seconds the end of a song overlaps the next; 0 plays gaplessly
+  crossfadeSameAlbum: boolean; // Also fade between consecutive tracks of one album
+  crossfadeOnSkip: boolean; // Also fade when skipping, not just when a song ends
+}
+
+export type AppMode = 'standard' | 'immersive' | 'coverflow' | 'shelf';
+
+// Progress of a running import, shown while archives are extracted and tags are read
+export interface ImportProgressInfo {
+  label: string;
+  done: number;
+  total: number;
+}
+
+// A named, ordered list of library songs
+export interface NamedPlaylist {
+  id: string;
+  name: string;
+  songIds: string[]; // For smart playlists, filled from the rules whenever the library changes
+  createdAt: number;
+  source?: string; // Path of the playlist file it was imported from
+  smart?: SmartPlaylistRules;
+}
+
+// --- Smart Playlists ---
+
+export type SmartRuleField =
+  | 'title' | 'artist' | 'album' | 'version' | 'genre'  // text
+  | 'hasLyrics' | 'hasVideo'                            // yes/no
+  | 'playCount' | 'skipCount' | 'duration' | 'year'     // numbers (duration in seconds)
+  | 'addedAt' | 'lastPlayedAt';                         // dates, compared in days
+
+export type SmartRuleOperator =
+  | 'contains' | 'notContains' | 'is' | 'isNot'
+  | 'isTrue' | 'isFalse'
+  | 'equals' | 'greaterThan' | 'lessThan'
+  | 'inLastDays' | 'notInLastDays';
+
+export interface SmartRule {
+  id: string;
+  field: SmartRuleField;
+  operator: SmartRuleOperator;
+  value: string; // Kept as typed; numbers are parsed when evaluating
 }
 
-export type AppMode = 'standard' | 'immersive' | 'coverflow' | 'shelf';
\ No newline at end of file
+export interface SmartPlaylistRules {
+  match: 'all' | 'any';
+  rules: SmartRule[];
+}
+
+// --- Play Queue ---
+
+// Where "Play Next" / "Add to Queue" put songs
+export type QueuePosition = 'next' | 'last';
+
+// One queued play; its own id tells apart a song queued twice
+export interface QueueEntry {
+  id: string;
+  songId: string;
+}
+
+// Listening stats, kept per song id
+export interface PlayStat {
+  songId: string;
+  playCount: number;
+  skipCount?: number;    // Missing in stats saved before skips were counted
+  lastPlayedAt?: number; // Missing for songs that have only ever been skipped
+}
+
+// One listen of a song, from when it started until playback moved on.
+// Title and artists are copied so history outlives the song in the library.
+export interface ListenEvent {
+  id: string;
+  songId: string;
+  title: string;
+  artists: string[];
+  features: string[];
+  startedAt: number;
+  playedSeconds: number; // Time actually listened; seeking doesn't count
+  duration?: number;
+  completed: boolean; // Played to the end
+  skipped: boolean;   // Moved on early, before it counted as a play
+}
+
+// Outcome of importing a playlist file, listing the entries that matched no song
+export interface PlaylistImportReport {
+  playlistId: string;
+  name: string;
+  resolved: number;
+  total: number;
+  unresolved: string[];
+}
+
+// How library lists are ordered and grouped (the list, the shelf, and playback order)
+export type LibrarySortKey = 'manual' | 'title' | 'artist' | 'album' | 'duration' | 'dateAdded' | 'lyrics' | 'video';
+export type LibraryGroupKey = 'none' | 'artist' | 'album' | 'version';
+
+export interface LibraryViewOptions {
+  sortKey: LibrarySortKey; // 'manual' keeps import order and drag & drop
+  sortDirection: 'asc' | 'desc';
+  groupBy: LibraryGroupKey;
+}
@@ -1,4 +1,7 @@
-import { ParsedMusicInfo, Song } from './types';
+import { AudioTags, ParsedMusicInfo, RepeatMode, Song } from './types';
+import { readTags } from './utils/tagReader';
+import { getRelativePath } from './utils/fileSystem';
+import { REPEAT_MODES } from './constants';
 
 export const formatTime = (seconds: number): string => {
   if (!seconds || isNaN(seconds)) return "0:00";
@@ -7,6 +10,9 @@ export const formatTime = (seconds: number): string => {
   return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
 };
 
+export const nextRepeatMode = (mode: RepeatMode): RepeatMode =>
+  REPEAT_MODES[(REPEAT_MODES.indexOf(mode) + 1) % REPEAT_MODES.length];
+
 export const getFileNameWithoutExtension = (filename: string): string => {
   return filename.replace(/\.[^/.]+$/, "");
 };
@@ -20,6 +26,96 @@ export const readFileAsText = (file: File): Promise<string> => {
   });
 };
 
+/**
+ * Loads just the metadata of an audio URL to learn its duration.
+ * Resolves to undefined if the browser can't tell within the timeout.
+ */
+export const probeDuration = (url: string, timeoutMs = 10000): Promise<number | undefined> => {
+  return new Promise((resolve) => {
+    const audio = new Audio();
+    const finish = (duration?: number) => {
+      clearTimeout(timer);
+      audio.removeAttribute('src');
+      audio.load();
+      resolve(duration !== undefined && isFinite(duration) ? duration : undefined);
+    };
+    const timer = setTimeout(() => finish(), timeoutMs);
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(audio.duration);
+    audio.onerror = () => finish();
+    audio.src = url;
+  });
+};
+
+// --- File Type Detection ---
+
+const AUDIO_EXTENSIONS = /\.(mp3|wav|ogg|flac|m4a|weba)$/i;
+const LYRICS_EXTENSIONS = /\.(lrc|txt)$/i;
+const VIDEO_EXTENSIONS = /\.(mp4|webm|mkv|mov)$/i;
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|gif|bmp)$/i;
+const PLAYLIST_EXTENSIONS = /\.(m3u8?|pls)$/i;
+// Rakko's own export format, see utils/playlists.ts
+const RAKKO_PLAYLIST_EXTENSION = /\.rakko\.json$/i;
+
+export const isAudioFile = (file: File): boolean =>
+  file.type.startsWith('audio/') || AUDIO_EXTENSIONS.test(file.name);
+
+export const isLyricsFile = (file: File): boolean => LYRICS_EXTENSIONS.test(file.name);
+
+export const isVideoFile = (file: File): boolean =>
+  file.type.startsWith('video/') || VIDEO_EXTENSIONS.test(file.name);
+
+export const isPlaylistFile = (file: File): boolean =>
+  PLAYLIST_EXTENSIONS.test(file.name) || RAKKO_PLAYLIST_EXTENSION.test(file.name);
+
+export const isImageFile = (file: File): boolean =>
+  file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+
+// Artwork shipped next to the tracks, in order of preference
+const FOLDER_ART_NAMES = ['cover', 'folder', 'front', 'albumart', 'album'];
+
+const isFolderArtName = (name: string): boolean =>
+  FOLDER_ART_NAMES.includes(getFileNameWithoutExtension(name).toLowerCase());
+
+export const isFolderArtFile = (file: File): boolean => isImageFile(file) && isFolderArtName(file.name);
+
+// Name-only check for entries that aren't Files yet (e.g. archive members)
+export const isImportableFileName = (path: string): boolean => {
+  const name = path.split('/').pop() || path;
+  return AUDIO_EXTENSIONS.test(name) || LYRICS_EXTENSIONS.test(name) || VIDEO_EXTENSIONS.test(name)
+    || PLAYLIST_EXTENSIONS.test(name) || RAKKO_PLAYLIST_EXTENSION.test(name) || (IMAGE_EXTENSIONS.test(name) && isFolderArtName(name));
+};
+
+// "Artist/Album/01 Title.flac" -> "Artist/Album"
+export const getDirectoryPath = (relativePath?: string): string => {
+  if (!relativePath) return '';
+  const index = relativePath.lastIndexOf('/');
+  return index === -1 ? '' : relativePath.substring(0, index);
+};
+
+/**
+ * Pairs songs with the folder artwork found in their directory.
+ * Songs without a known directory only match artwork that has none either (a flat drop).
+ * @returns Map of songId -> image File
+ */
+export const matchFolderArt = (songs: Song[], images: File[]): Record<string, File> => {
+  const byDirectory = new Map<string, File>();
+  const rank = (file: File) => FOLDER_ART_NAMES.indexOf(getFileNameWithoutExtension(file.name).toLowerCase());
+
+  images.forEach(image => {
+    const dir = getDirectoryPath(getRelativePath(image));
+    const current = byDirectory.get(dir);
+    if (!current || rank(image) < rank(current)) byDirectory.set(dir, image);
+  });
+
+  const matches: Record<string, File> = {};
+  songs.forEach(song => {
+    const image = byDirectory.get(getDirectoryPath(song.relativePath));
+    if (image) matches[song.id] = image;
+  });
+  return matches;
+};
+
 export interface LrcLine {
   time: number;
   text: string;
@@ -51,64 +147,81 @@ export const parseLrc = (lrc: string): LrcLine[] => {
   return result.sort((a, b) => a.time - b.time);
 };
 
-export const extractAlbumArt = async (file?: File): Promise<string | null> => {
-  return new Promise((resolve) => {
-    if (!file) {
-      resolve(null);
-      return;
-    }
-    if (!(window as any).jsmediatags) {
-      console.warn("jsmediatags not loaded");
-      resolve(null);
-      return;
+const readBlobAsDataURL = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (e) => reject(e);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Embedded picture of the file as a data URL, falling back to folder artwork.
+ * A cover picked by hand wins over both.
+ */
+export const extractAlbumArt = async (file?: File, fallback?: File, override?: Blob): Promise<string | null> => {
+  try {
+    if (override) return await readBlobAsDataURL(override);
+    const tags = file ? await readTags(file, { includePicture: true }) : null;
+    if (tags?.picture) {
+      const { data, format } = tags.picture;
+      return await readBlobAsDataURL(new Blob([data], { type: format }));
     }
+    return fallback ? await readBlobAsDataURL(fallback) : null;
+  } catch (e) {
+    console.warn("Error reading cover art", e);
+    return null;
+  }
+};
 
-    (window as any).jsmediatags.read(file, {
-      onSuccess: (tag: any) => {
-        const { picture } = tag.tags;
-        if (picture) {
-          try {
-            const { data, format } = picture;
-            let base64String = "";
-            for (let i = 0; i < data.length; i++) {
-              base64String += String.fromCharCode(data[i]);
-            }
-            const base64 = window.btoa(base64String);
-            resolve(`data:${format};base64,${base64}`);
-          } catch (e) {
-            console.error("Error parsing cover art", e);
-            resolve(null);
-          }
-        } else {
-          resolve(null);
-        }
-      },
-      onError: (error: any) => {
-        console.warn("Error reading tags", error);
-        resolve(null);
-      }
-    });
-  });
+/**
+ * Runs an async mapper over items with at most `limit` calls in flight.
+ * Results keep the order of the input.
+ */
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 };
 
 // --- Advanced Music Info Parser ---
 
 const cleanString = (str: string): string => str.trim();
 
-export function parseMusicInfo(input: string): ParsedMusicInfo {
-  // 1. Separation of Artists and Title (Rule: Rightmost " - ")
-  // e.g. "Artist A - Artist B - Title" -> Artists: "Artist A - Artist B", Title: "Title"
-  const separator = " - ";
-  const lastIndex = input.lastIndexOf(separator);
-
-  let rawArtist = "";
-  let rawTitle = input;
+/**
+ * Splits a relative path into the folders that can describe a track.
+ * "Music/Artist/Album/CD1/01 Title.flac" -> ["Artist", "Album"]
+ */
+const getMeaningfulFolders = (relativePath: string): string[] => {
+  const parts = relativePath.split('/').filter(Boolean);
+  parts.pop(); // File name
+  // Every path starts with the folder (or archive) that was imported, which names the collection, not the track
+  parts.shift();
+  // Disc sub-folders don't name anything useful
+  return parts.filter(p => !/^(?:disc|disk|cd)\s*\d+$/i.test(p.trim()));
+};
 
-  if (lastIndex !== -1) {
-    rawArtist = input.substring(0, lastIndex);
-    rawTitle = input.substring(lastIndex + separator.length);
-  }
+interface TitleParts {
+  title: string;
+  album: string | null;
+  features: string[]; // Unsplit
+  version: string | null;
+  extra: string | null;
+}
 
+/**
+ * Pulls bracketed features, album, version and extra info out of a title.
+ * "Title (feat. B) [Live]" -> title "Title", features ["B"], version "Live"
+ */
+const parseTitleBrackets = (rawTitle: string): TitleParts => {
   let title = rawTitle;
   let album: string | null = null;
   let features: string[] = [];
@@ -118,7 +231,6 @@ export function parseMusicInfo(input: string): ParsedMusicInfo {
   // Helper to append to version/extra
   const append = (current: string | null, newVal: string) => current ? `${current} ${newVal}` : newVal;
 
-  // 2. Parse Title (Extract Brackets)
   // Match (...), [...], （...）, 【...】
   const bracketRegex = /([(\[（【])(.*?)([)\]）】])/g;
 
@@ -163,39 +275,82 @@ export function parseMusicInfo(input: string): ParsedMusicInfo {
   // Remove version info or extra symbols that might have been left over
   title = title.replace(/\s{2,}/g, ' ').trim();
 
-  // 3. Parse Artists
-  let artists: string[] = [];
+  return { title, album, features, version, extra };
+};
 
-  // Helper to split artist strings based on specified delimiters
-  const splitArtists = (str: string): string[] => {
-    // 1. Replace complex separators with a common one \0
-    // Delimiters: , & 、 和 / x ft. feat.
-    // Note: "ft." and "feat." usually precede a name, but if they appear in the artist string 
-    // (e.g. "Artist A feat. Artist B"), we treat "Artist B" as a main artist here or feature.
-    // The requirement says split artists by these.
+// Helper to split artist strings based on specified delimiters
+const splitArtists = (str: string): string[] => {
+  // 1. Replace complex separators with a common one \0
+  // Delimiters: , & 、 和 / x ft. feat.
+  // Note: "ft." and "feat." usually precede a name, but if they appear in the artist string 
+  // (e.g. "Artist A feat. Artist B"), we treat "Artist B" as a main artist here or feature.
+  // The requirement says split artists by these.
 
-    let s = str;
+  let s = str;
 
-    // Handle "feat." "ft." first to ensure they act as separators
-    s = s.replace(/\s+(?:feat\.|ft\.|with|featuring)\s+/gi, '\0');
+  // Handle "feat." "ft." first to ensure they act as separators
+  s = s.replace(/\s+(?:feat\.|ft\.|with|featuring)\s+/gi, '\0');
 
-    // Handle " x " (surrounded by spaces to avoid words like 'extra')
-    s = s.replace(/\s+[xX]\s+/g, '\0');
+  // Handle " x " (surrounded by spaces to avoid words like 'extra')
+  s = s.replace(/\s+[xX]\s+/g, '\0');
 
-    // Handle " / "
-    s = s.replace(/\s*\/\s*/g, '\0');
+  // Handle " / "
+  s = s.replace(/\s*\/\s*/g, '\0');
 
-    // Handle " & " and ", & "
-    s = s.replace(/\s*,?\s*&\s+/g, '\0');
+  // Handle " & " and ", & "
+  s = s.replace(/\s*,?\s*&\s+/g, '\0');
 
-    // Handle "、" "和" (CJK)
-    s = s.replace(/[、和]/g, '\0');
+  // Handle "、" "和" (CJK)
+  s = s.replace(/[、和]/g, '\0');
 
-    // Handle ","
-    s = s.replace(/,/g, '\0');
+  // Handle ","
+  s = s.replace(/,/g, '\0');
 
-    return s.split('\0').map(cleanString).filter(Boolean);
-  };
+  return s.split('\0').map(cleanString).filter(Boolean);
+};
+
+/**
+ * @param input File name without extension, ideally "Artist - Title (Version)"
+ * @param relativePath Path inside the imported folder. When the name has no artist,
+ *   the parent folders below the imported one are used as album and artist
+ *   ("Music/Artist/Album/01 Title.flac").
+ */
+export function parseMusicInfo(input: string, relativePath?: string): ParsedMusicInfo {
+  // 1. Separation of Artists and Title (Rule: Rightmost " - ")
+  // e.g. "Artist A - Artist B - Title" -> Artists: "Artist A - Artist B", Title: "Title"
+  const separator = " - ";
+  const lastIndex = input.lastIndexOf(separator);
+
+  let rawArtist = "";
+  let rawTitle = input;
+
+  if (lastIndex !== -1) {
+    rawArtist = input.substring(0, lastIndex);
+    rawTitle = input.substring(lastIndex + separator.length);
+  }
+
+  // A bare track number is not an artist ("01 - Title")
+  if (/^\d{1,3}$/.test(rawArtist.trim())) {
+    rawArtist = "";
+  }
+
+  // Folder fallback: "Artist/Album/01 Title"
+  let folderAlbum: string | null = null;
+  if (!rawArtist && relativePath) {
+    const folders = getMeaningfulFolders(relativePath);
+    if (folders.length > 0) {
+      folderAlbum = folders[folders.length - 1];
+      if (folders.length > 1) rawArtist = folders[folders.length - 2];
+      // Strip a leading track number ("01 Title", "1. Title", "03_Title")
+      rawTitle = rawTitle.replace(/^(?:\d{1,3}\s*[.\-_]|0\d\s)\s*/, '') || rawTitle;
+    }
+  }
+
+  // 2. Parse Title (Extract Brackets)
+  let { title, album, features, version, extra } = parseTitleBrackets(rawTitle);
+
+  // 3. Parse Artists
+  let artists: string[] = [];
 
   if (rawArtist) {
     artists = splitArtists(rawArtist);
@@ -212,6 +367,11 @@ export function parseMusicInfo(input: string): ParsedMusicInfo {
   // Remove artists from features to avoid duplication
   features = features.filter(f => !artists.includes(f));
 
+  // Album keywords in the title win over the folder name
+  if (!album && folderAlbum) {
+    album = folderAlbum;
+  }
+
   return {
     artists,
     title,
@@ -222,19 +382,75 @@ export function parseMusicInfo(input: string): ParsedMusicInfo {
   };
 }
 
+/**
+ * Lays embedded tags over info parsed from the file name.
+ * Tag values win; the file name fills whatever the tags leave empty.
+ */
+export function mergeTagInfo(info: ParsedMusicInfo, tags: AudioTags | null): ParsedMusicInfo {
+  if (!tags) return info;
+
+  let { title, version, extra } = info;
+  let album = info.album;
+  let features = info.features;
+
+  if (tags.title) {
+    const parts = parseTitleBrackets(tags.title);
+    title = parts.title || tags.title;
+    version = parts.version;
+    extra = parts.extra;
+    album = parts.album;
+    features = [...new Set(parts.features.flatMap(splitArtists))];
+  }
+  if (tags.features?.length) {
+    features = [...new Set([...features, ...tags.features.flatMap(splitArtists)])];
+  }
+
+  const tagArtists = [...new Set(tags.artists.flatMap(splitArtists))];
+  const artists = tagArtists.length > 0 ? tagArtists : info.artists;
+
+  return {
+    ...info,
+    title,
+    artists,
+    album: tags.album || album || info.album,
+    features: features.filter(f => !artists.includes(f)),
+    version,
+    extra,
+    albumArtist: tags.albumArtist ?? info.albumArtist,
+    trackNumber: tags.trackNumber ?? info.trackNumber,
+    discNumber: tags.discNumber ?? info.discNumber,
+    year: tags.year ?? info.year,
+    genre: tags.genre ?? info.genre
+  };
+}
+
 // --- Intelligent Lyrics Matching ---
 
+/**
+ * Folds away differences that don't change what a text says:
+ * full/half-width forms (NFKC), case, Latin accents, and katakana vs hiragana.
+ * Keeps the text otherwise intact, so it also works one character at a time.
+ */
+export const foldForMatch = (str: string): string =>
+  str
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .replace(/[\u30a1-\u30f6]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0x60));
+
 /**
  * Normalizes a string for comparison:
- * 1. Lowercase
+ * 1. Fold width, case, accents and kana (see foldForMatch)
  * 2. Trim
  * 3. Convert '…' to '...'
  * 4. Merge spaces
  * 5. Remove trailing dots
  * 6. Remove version info in brackets (if present in the string)
  */
-const normalizeForMatch = (str: string): string => {
-  let s = str.toLowerCase();
+export const normalizeForMatch = (str: string): string => {
+  let s = foldForMatch(str);
 
   // Convert ellipsis
   s = s.replace(/…/g, '...');
@@ -244,7 +460,7 @@ const normalizeForMatch = (str: string): string => {
   s = s.replace(/([(\[（【])(.*?)([)\]）】])/g, '');
 
   // Remove standard punctuation that often differs
-  s = s.replace(/[.,!?'"：]/g, ' ');
+  s = s.replace(/[.,!?'"：:]/g, ' ');
 
   // Merge spaces
   s = s.replace(/\s+/g, ' ').trim();
@@ -384,8 +600,12 @@ export interface VideoFile {
   file: File;
 }
 
-export const matchVideos = (songs: Song[], videoFiles: VideoFile[]): Record<string, string> => {
-  const matches: Record<string, string> = {};
+/**
+ * Matches video files to songs using the same rules as lyrics.
+ * @returns Map of songId -> matched video File
+ */
+export const matchVideos = (songs: Song[], videoFiles: VideoFile[]): Record<string, File> => {
+  const matches: Record<string, File> = {};
   const usedVideos = new Set<number>();
 
   const getVideoTitle = (filename: string): string => {
@@ -441,7 +661,7 @@ export const matchVideos = (songs: Song[], videoFiles: VideoFile[]): Record<stri
     });
 
     if (bestMatchIndex !== -1) {
-      matches[song.id] = URL.createObjectURL(videoFiles[bestMatchIndex].file);
+      matches[song.id] = videoFiles[bestMatchIndex].file;
       usedVideos.add(bestMatchIndex);
     }
   });
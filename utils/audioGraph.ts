@@ -0,0 +1,65 @@
+import { Song } from '../types';
+
+/**
+ * The app's one Web Audio graph. Playback is mixed into `bus`, which runs through
+ * the bass boost filter and the visualizer's analyser to the speakers, so anything
+ * routed in (elements or decoded songs) is heard and analysed alike.
+ */
+export interface AudioGraph {
+    context: AudioContext;
+    bus: GainNode;
+    bassFilter: BiquadFilterNode;
+    analyser: AnalyserNode;
+}
+
+// Decoded songs are held in memory as raw samples (about 20 MB a minute), so long ones stay on the audio element
+const MAX_DECODE_SECONDS = 12 * 60;
+const MAX_DECODE_BYTES = 150 * 1024 * 1024;
+
+let graph: AudioGraph | null = null;
+
+/**
+ * Created on first use. Browsers keep it suspended until it's resumed from a user
+ * gesture; null where Web Audio isn't available.
+ */
+export const getAudioGraph = (): AudioGraph | null => {
+    if (graph) return graph;
+    if (typeof AudioContext === 'undefined') return null;
+
+    const context = new AudioContext();
+    const bus = context.createGain();
+
+    // Bass boost (LowShelf), flat until the visualizer turns it up
+    const bassFilter = context.createBiquadFilter();
+    bassFilter.type = 'lowshelf';
+    bassFilter.frequency.value = 200; // Boost frequencies below 200Hz
+    bassFilter.gain.value = 0;
+
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048; // High resolution for smooth curves
+    analyser.smoothingTimeConstant = 0.85;
+
+    // Chain: Bus -> BassFilter -> Analyser -> Destination
+    bus.connect(bassFilter);
+    bassFilter.connect(analyser);
+    analyser.connect(context.destination);
+
+    graph = { context, bus, bassFilter, analyser };
+    return graph;
+};
+
+/** Decodes a whole song into memory; null when it's too long to hold or can't be decoded. */
+export async function decodeSong(song: Song, context: BaseAudioContext): Promise<AudioBuffer | null> {
+    if ((song.duration ?? 0) > MAX_DECODE_SECONDS || (song.file?.size ?? 0) > MAX_DECODE_BYTES) return null;
+    try {
+        const data = song.file
+            ? await song.file.arrayBuffer()
+            : await (await fetch(song.url)).arrayBuffer();
+        if (data.byteLength > MAX_DECODE_BYTES) return null;
+        const buffer = await context.decodeAudioData(data);
+        return buffer.duration > MAX_DECODE_SECONDS ? null : buffer;
+    } catch (err) {
+        console.warn(`[Gapless] Failed to decode ${song.name}:`, err);
+        return null;
+    }
+}
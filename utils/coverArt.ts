@@ -0,0 +1,295 @@
+import { Song } from '../types';
+import { idbBatch, idbGet, idbGetAll, idbPut } from './db';
+import { readTags } from './tagReader';
+
+/**
+ * Shared album art cache keyed by song id and thumbnail size.
+ * Embedded pictures are decoded once, downscaled, persisted as Blobs
+ * and handed out as object URLs. Both layers are bounded by an LRU budget.
+ */
+
+export const COVER_SIZES = {
+    shelf: 180,
+    coverflow: 360,
+} as const;
+
+// Object URLs kept alive in memory; entries still on screen are never evicted
+const MEMORY_BUDGET = 150;
+// Thumbnails kept in IndexedDB
+const DISK_BUDGET = 2000;
+// Pictures decoded at the same time
+const DECODE_CONCURRENCY = 2;
+
+interface StoredCover {
+    key: string;
+    songId: string;
+    size: number;
+    blob: Blob | null; // null = the song has no art, don't look again
+    lastUsed: number;
+}
+
+interface CacheEntry {
+    url: string | null;
+    refs: number;
+    forgotten?: boolean; // Dropped from the cache while on screen; revoked once released
+}
+
+/** A cover URL that stays valid until `release` is called. */
+export interface RetainedCover {
+    url: string | null;
+    release: () => void;
+}
+
+const coverKey = (songId: string, size: number) => `${songId}:${size}`;
+
+// --- Memory LRU ---
+
+// Map iteration order doubles as recency order
+const memory = new Map<string, CacheEntry>();
+const pending = new Map<string, Promise<string | null>>();
+
+const touch = (key: string, entry: CacheEntry) => {
+    memory.delete(key);
+    memory.set(key, entry);
+};
+
+// `keep` is the entry just added, which its caller hasn't had the chance to retain yet
+const evictMemory = (keep?: string) => {
+    if (memory.size <= MEMORY_BUDGET) return;
+    for (const [key, entry] of memory) {
+        if (memory.size <= MEMORY_BUDGET) break;
+        if (entry.refs > 0 || key === keep) continue;
+        if (entry.url) URL.revokeObjectURL(entry.url);
+        memory.delete(key);
+    }
+};
+
+const remember = (key: string, blob: Blob | null): string | null => {
+    const existing = memory.get(key);
+    if (existing) return existing.url;
+    const entry: CacheEntry = { url: blob ? URL.createObjectURL(blob) : null, refs: 0 };
+    memory.set(key, entry);
+    evictMemory(key);
+    return entry.url;
+};
+
+const retain = (entry: CacheEntry): RetainedCover => {
+    entry.refs++;
+    let released = false;
+    return {
+        url: entry.url,
+        release: () => {
+            if (released) return;
+            released = true;
+            entry.refs--;
+            if (entry.forgotten && entry.refs === 0 && entry.url) URL.revokeObjectURL(entry.url);
+            evictMemory();
+        }
+    };
+};
+
+// --- Decode Queue ---
+
+let activeDecodes = 0;
+const decodeQueue: (() => void)[] = [];
+
+const runLimited = async <T>(task: () => Promise<T>): Promise<T> => {
+    if (activeDecodes >= DECODE_CONCURRENCY) {
+        await new Promise<void>(resolve => decodeQueue.push(resolve));
+    }
+    activeDecodes++;
+    try {
+        return await task();
+    } finally {
+        activeDecodes--;
+        decodeQueue.shift()?.();
+    }
+};
+
+// Several sizes of the same song share one tag read
+const pictureRequests = new Map<string, Promise<Blob | null>>();
+
+const readPicture = (song: Song): Promise<Blob | null> => {
+    let request = pictureRequests.get(song.id);
+    if (!request) {
+        const tagsRequest = song.file && !song.coverOverride ? readTags(song.file, { includePicture: true }) : Promise.resolve(null);
+        request = tagsRequest
+            .then(tags => song.coverOverride || (tags?.picture ? new Blob([tags.picture.data], { type: tags.picture.format }) : song.coverFile || null))
+            .catch(err => {
+                console.warn(`[CoverArt] Failed to read picture of ${song.name}:`, err);
+                return null;
+            })
+            .finally(() => setTimeout(() => pictureRequests.delete(song.id), 0));
+        pictureRequests.set(song.id, request);
+    }
+    return request;
+};
+
+/**
+ * Scales an image so its shorter side is `size` pixels and re-encodes it as JPEG.
+ * Images that are already small enough are returned as they are.
+ */
+async function createThumbnail(source: Blob, size: number): Promise<Blob> {
+    const bitmap = await createImageBitmap(source);
+    const scale = size / Math.min(bitmap.width, bitmap.height);
+    if (scale >= 1) {
+        bitmap.close();
+        return source;
+    }
+
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    try {
+        if (typeof OffscreenCanvas !== 'undefined') {
+            const canvas = new OffscreenCanvas(width, height);
+            const ctx = canvas.getContext('2d')!;
+            ctx.imageSmoothingQuality = 'high';
+            ctx.drawImage(bitmap, 0, 0, width, height);
+            return await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.85 });
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        return await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Canvas encoding failed')), 'image/jpeg', 0.85);
+        });
+    } finally {
+        bitmap.close();
+    }
+}
+
+// --- Disk LRU ---
+
+let pruneTimer: number | null = null;
+
+const schedulePrune = () => {
+    if (pruneTimer !== null) return;
+    pruneTimer = window.setTimeout(async () => {
+        pruneTimer = null;
+        try {
+            const records = await idbGetAll<StoredCover>('covers');
+            if (records.length <= DISK_BUDGET) return;
+            const stale = records
+                .sort((a, b) => a.lastUsed - b.lastUsed)
+                .slice(0, records.length - DISK_BUDGET);
+            await idbBatch('covers', store => stale.forEach(r => store.delete(r.key)));
+        } catch (err) {
+            console.warn("[CoverArt] Failed to prune cache:", err);
+        }
+    }, 5000);
+};
+
+const persist = (record: StoredCover) => {
+    idbPut('covers', record)
+        .then(schedulePrune)
+        .catch(err => console.warn("[CoverArt] Failed to persist thumbnail:", err));
+};
+
+// Bumped by forgetCoverArt, so loads already under way can't bring back the old picture
+const generations = new Map<string, number>();
+
+async function loadCover(song: Song, size: number): Promise<string | null> {
+    const key = coverKey(song.id, size);
+    const generation = generations.get(song.id) ?? 0;
+    const isStale = () => (generations.get(song.id) ?? 0) !== generation;
+
+    try {
+        const stored = await idbGet<StoredCover>('covers', key);
+        if (isStale()) return null;
+        if (stored) {
+            persist({ ...stored, lastUsed: Date.now() });
+            return remember(key, stored.blob);
+        }
+    } catch (err) {
+        console.warn("[CoverArt] Failed to read cache:", err);
+    }
+
+    const blob = await runLimited(async () => {
+        const picture = await readPicture(song);
+        if (!picture) return null;
+        try {
+            return await createThumbnail(picture, size);
+        } catch (err) {
+            // Formats the browser can't decode are shown as they are
+            console.warn(`[CoverArt] Failed to scale picture of ${song.name}:`, err);
+            return picture;
+        }
+    });
+
+    // Whoever asked has moved on to the new artwork
+    if (isStale()) return null;
+    persist({ key, songId: song.id, size, blob, lastUsed: Date.now() });
+    return remember(key, blob);
+}
+
+// Callers asking for the same cover at once share one load
+function loadShared(song: Song, size: number): Promise<string | null> {
+    const key = coverKey(song.id, size);
+    let request = pending.get(key);
+    if (!request) {
+        const current: Promise<string | null> = loadCover(song, size).finally(() => {
+            if (pending.get(key) === current) pending.delete(key);
+        });
+        pending.set(key, current);
+        request = current;
+    }
+    return request;
+}
+
+// --- Public API ---
+
+const NO_COVER: RetainedCover = { url: null, release: () => {} };
+
+/**
+ * Resolves to an object URL of the song's cover at the given size (null if it has none),
+ * already retained so the LRU keeps it alive. Call `release` once it's off screen.
+ */
+export async function getCoverArt(song: Song, size: number): Promise<RetainedCover> {
+    if (!song.file && !song.coverFile && !song.coverOverride) return NO_COVER;
+
+    const key = coverKey(song.id, size);
+    // Another load finishing in between can evict it again before it's retained; then it's fetched anew
+    for (let attempt = 0; attempt < 3; attempt++) {
+        const cached = memory.get(key);
+        if (cached) {
+            touch(key, cached);
+            return retain(cached);
+        }
+        const url = await loadShared(song, size);
+        const entry = memory.get(key);
+        if (entry) return retain(entry);
+        if (!url) return NO_COVER;
+    }
+    return NO_COVER;
+}
+
+/**
+ * Drops cached covers of songs that left the library or got new artwork.
+ * URLs still on screen are revoked once released rather than under the image.
+ */
+export function forgetCoverArt(songIds: string[]) {
+    if (songIds.length === 0) return;
+
+    for (const id of songIds) {
+        generations.set(id, (generations.get(id) ?? 0) + 1);
+        pictureRequests.delete(id);
+        for (const key of pending.keys()) {
+            if (key.startsWith(`${id}:`)) pending.delete(key);
+        }
+        for (const [key, entry] of memory) {
+            if (!key.startsWith(`${id}:`)) continue;
+            if (entry.refs > 0) entry.forgotten = true;
+            else if (entry.url) URL.revokeObjectURL(entry.url);
+            memory.delete(key);
+        }
+    }
+
+    idbBatch('covers', store => {
+        songIds.forEach(id => store.delete(IDBKeyRange.bound(`${id}:`, `${id}:\uffff`)));
+    }).catch(err => console.warn("[CoverArt] Failed to forget covers:", err));
+}
@@ -0,0 +1,22 @@
+import { AppSettings, Song } from '../types';
+import { getAlbumKey } from './librarySort';
+
+// Seconds the crossfade slider goes up to
+export const MAX_CROSSFADE = 12;
+
+export const isSameAlbum = (a: Song, b: Song): boolean => {
+    const key = getAlbumKey(a);
+    return key !== null && key === getAlbumKey(b);
+};
+
+/**
+ * How long to crossfade from `from` into `to`, in seconds (0 for a clean cut).
+ * Albums play through without fading unless that's switched on, since their tracks
+ * often run into each other; `manual` is a skip rather than a song ending.
+ */
+export const getCrossfadeSeconds = (settings: AppSettings, from: Song | null, to: Song, manual: boolean): number => {
+    if (!from || settings.crossfade <= 0) return 0;
+    if (manual && !settings.crossfadeOnSkip) return 0;
+    if (!settings.crossfadeSameAlbum && isSameAlbum(from, to)) return 0;
+    return Math.min(settings.crossfade, MAX_CROSSFADE);
+};
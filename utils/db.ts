@@ -0,0 +1,126 @@
+/**
+ * Minimal promise wrapper around the app's IndexedDB database.
+ * Every persistent store is declared here so upgrades stay in one place.
+ */
+
+const DB_NAME = 'rakko_music';
+const DB_VERSION = 7;
+
+export type StoreName = 'songs' | 'meta' | 'folders' | 'covers' | 'playlists' | 'playStats' | 'history' | 'overrides';
+
+// keyPath null = out-of-line keys (key passed to put)
+const STORES: Record<StoreName, string | null> = {
+    songs: 'id',
+    meta: null,
+    folders: 'id',
+    covers: 'key',
+    playlists: 'id',
+    playStats: 'songId',
+    history: 'id',
+    overrides: 'key',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export function openDatabase(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            (Object.keys(STORES) as StoreName[]).forEach(name => {
+                if (!db.objectStoreNames.contains(name)) {
+                    const keyPath = STORES[name];
+                    db.createObjectStore(name, keyPath ? { keyPath } : undefined);
+                }
+            });
+        };
+
+        // Another tab still has an older version open and didn't let go
+        let blocked = false;
+        request.onblocked = () => {
+            blocked = true;
+            dbPromise = null;
+            reject(new Error('The music library is open in another tab running an older version. Close that tab and reload.'));
+        };
+
+        request.onsuccess = () => {
+            const db = request.result;
+            if (blocked) {
+                // Opened after all, but the caller already gave up; don't hold it open
+                db.close();
+                return;
+            }
+            // Step aside when a newer version opens in another tab instead of blocking its upgrade
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+                console.warn("[DB] Closed for an upgrade in another tab; reload this tab to keep saving");
+            };
+            resolve(db);
+        };
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+
+    return dbPromise;
+}
+
+export async function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(key));
+}
+
+export async function idbGetAll<T>(store: StoreName): Promise<T[]> {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll());
+}
+
+export async function idbPut(store: StoreName, value: unknown, key?: IDBValidKey): Promise<void> {
+    const db = await openDatabase();
+    await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+}
+
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+    const db = await openDatabase();
+    await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
+
+/**
+ * Runs several writes against one store in a single transaction.
+ * Resolves once the transaction commits.
+ */
+export async function idbBatch(store: StoreName, run: (objectStore: IDBObjectStore) => void): Promise<void> {
+    return idbTransaction([store], tx => run(tx.objectStore(store)));
+}
+
+/**
+ * Runs writes across several stores in one transaction: either all of them land or none do.
+ * Resolves once the transaction commits.
+ */
+export async function idbTransaction(stores: StoreName[], run: (tx: IDBTransaction) => void): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(stores, 'readwrite');
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+        run(tx);
+    });
+}
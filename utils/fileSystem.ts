@@ -1,22 +1,42 @@
+// Paths of files relative to the folder they were imported from.
+// File objects from the File System Access API don't carry one, so we track it here.
+const relativePaths = new WeakMap<File, string>();
+
+export function setRelativePath(file: File, path: string) {
+    relativePaths.set(file, path);
+}
+
+/**
+ * Returns the path of a file inside the folder it was imported from, if known.
+ * Falls back to `webkitRelativePath` for files from a directory <input>.
+ */
+export function getRelativePath(file: File): string | undefined {
+    return relativePaths.get(file) || file.webkitRelativePath || undefined;
+}
+
+export const isFileSystemAccessSupported = (): boolean => 'showDirectoryPicker' in window;
 
 /**
  * Recursively scans a directory handle for files.
- * Returns a flat array of File objects.
+ * Returns a flat array of File objects; each file's path is recorded for `getRelativePath`.
  */
-export async function scanDirectory(directoryHandle: FileSystemDirectoryHandle): Promise<File[]> {
+export async function scanDirectory(directoryHandle: FileSystemDirectoryHandle, basePath: string = directoryHandle.name): Promise<File[]> {
     const files: File[] = [];
 
+    // @ts-ignore - values() is not yet in all TS libs
     for await (const entry of directoryHandle.values()) {
+        const entryPath = `${basePath}/${entry.name}`;
         if (entry.kind === 'file') {
             try {
                 const file = await entry.getFile();
+                setRelativePath(file, entryPath);
                 files.push(file);
             } catch (err) {
                 console.warn(`Failed to read file ${entry.name}:`, err);
             }
         } else if (entry.kind === 'directory') {
             try {
-                const subFiles = await scanDirectory(entry);
+                const subFiles = await scanDirectory(entry, entryPath);
                 files.push(...subFiles);
             } catch (err) {
                 console.warn(`Failed to read directory ${entry.name}:`, err);
@@ -27,19 +47,107 @@ export async function scanDirectory(directoryHandle: FileSystemDirectoryHandle):
     return files;
 }
 
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+    new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectoryEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in batches until it yields an empty one
+    while (true) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        entries.push(...batch);
+    }
+    return entries;
+};
+
+async function scanEntry(entry: FileSystemEntry): Promise<File[]> {
+    if (entry.isFile) {
+        try {
+            const file = await readEntryFile(entry as FileSystemFileEntry);
+            const path = entry.fullPath.replace(/^\/+/, '');
+            // Only nested files carry useful folder information
+            if (path.includes('/')) setRelativePath(file, path);
+            return [file];
+        } catch (err) {
+            console.warn(`Failed to read file ${entry.name}:`, err);
+            return [];
+        }
+    }
+
+    if (entry.isDirectory) {
+        try {
+            const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+            const nested = await Promise.all(children.map(scanEntry));
+            return nested.flat();
+        } catch (err) {
+            console.warn(`Failed to read directory ${entry.name}:`, err);
+        }
+    }
+
+    return [];
+}
+
 /**
- * Prompts the user to select a directory and returns all files within it (recursively).
+ * Collects the files of a drop event, descending into dropped folders.
+ * Must be called synchronously inside the drop handler: the entries are grabbed before the first await.
  */
-export async function openDirectoryAndGetFiles(): Promise<File[]> {
+export async function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+    const entries = Array.from(dataTransfer.items || [])
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (entries.length === 0) {
+        return Array.from(dataTransfer.files || []);
+    }
+
+    const nested = await Promise.all(entries.map(scanEntry));
+    return nested.flat();
+}
+
+/**
+ * Prompts the user to select a directory and returns its handle.
+ * Returns null if the user cancelled.
+ */
+export async function pickDirectory(): Promise<FileSystemDirectoryHandle | null> {
     try {
         // @ts-ignore - showDirectoryPicker is not yet in all TS libs
-        const directoryHandle = await window.showDirectoryPicker();
-        return await scanDirectory(directoryHandle);
+        return await window.showDirectoryPicker({ mode: 'read' });
     } catch (err) {
         if ((err as Error).name === 'AbortError') {
-            return []; // User cancelled
+            return null; // User cancelled
         }
         console.error("Error accessing directory:", err);
         throw err;
     }
 }
+
+/**
+ * Checks read permission on a stored handle, optionally prompting for it.
+ * Prompting only works during a user gesture.
+ */
+export async function verifyPermission(handle: FileSystemHandle, request: boolean): Promise<PermissionState> {
+    const options = { mode: 'read' };
+    try {
+        // @ts-ignore - queryPermission is not yet in all TS libs
+        let state: PermissionState = await handle.queryPermission(options);
+        if (state === 'prompt' && request) {
+            // @ts-ignore - requestPermission is not yet in all TS libs
+            state = await handle.requestPermission(options);
+        }
+        return state;
+    } catch (err) {
+        console.warn(`Permission check failed for ${handle.name}:`, err);
+        return 'prompt';
+    }
+}
+
+/**
+ * Prompts the user to select a directory and returns all files within it (recursively).
+ */
+export async function openDirectoryAndGetFiles(): Promise<File[]> {
+    const directoryHandle = await pickDirectory();
+    return directoryHandle ? await scanDirectory(directoryHandle) : [];
+}
@@ -0,0 +1,193 @@
+import { LibraryGroupKey, LibrarySortKey, LibraryViewOptions, Song } from '../types';
+
+/**
+ * Ordering and grouping for library lists. The ordered list is also the playback
+ * order, so grouped songs are always kept together.
+ */
+
+export interface SongGroup {
+    key: string;
+    label: string;
+    sublabel?: string;
+    songs: Song[];
+}
+
+export const SORT_LABELS: Record<LibrarySortKey, string> = {
+    manual: 'Manual',
+    title: 'Title',
+    artist: 'Artist',
+    album: 'Album',
+    duration: 'Duration',
+    dateAdded: 'Date Added',
+    lyrics: 'Has Lyrics',
+    video: 'Has Video'
+};
+
+export const GROUP_LABELS: Record<LibraryGroupKey, string> = {
+    none: 'None',
+    artist: 'Artist',
+    album: 'Album',
+    version: 'Version'
+};
+
+// Keys for songs that have nothing to group by; these groups always come last
+const UNKNOWN_KEY = '\uffff';
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const getTitle = (song: Song) => song.metadata?.title || song.name;
+const getPrimaryArtist = (song: Song) => song.metadata?.artists[0] || song.artist;
+const getAlbumArtist = (song: Song) => song.metadata?.albumArtist || getPrimaryArtist(song);
+
+/**
+ * Identifies the record a song is on, or null when it has no album.
+ * The same album title by different artists is a different record.
+ */
+export const getAlbumKey = (song: Song): string | null => {
+    const album = song.metadata?.album;
+    return album ? `${album.toLowerCase()}\u0000${(song.metadata?.albumArtist || '').toLowerCase()}` : null;
+};
+
+// Missing values sort after everything else
+const compareText = (a: string | undefined, b: string | undefined) => {
+    if (!a || !b) return a ? -1 : b ? 1 : 0;
+    return collator.compare(a, b);
+};
+
+const compareNumber = (a: number | undefined, b: number | undefined) => {
+    if (a === undefined || b === undefined) return a !== undefined ? -1 : b !== undefined ? 1 : 0;
+    return a - b;
+};
+
+// Disc, then track number, then title: the order an album is meant to be heard in
+const compareAlbumPosition = (a: Song, b: Song) =>
+    compareNumber(a.metadata?.discNumber, b.metadata?.discNumber)
+    || compareNumber(a.metadata?.trackNumber, b.metadata?.trackNumber)
+    || compareText(getTitle(a), getTitle(b));
+
+const COMPARATORS: Record<Exclude<LibrarySortKey, 'manual'>, (a: Song, b: Song) => number> = {
+    title: (a, b) => compareText(getTitle(a), getTitle(b)),
+    artist: (a, b) => compareText(getPrimaryArtist(a), getPrimaryArtist(b))
+        || compareText(a.metadata?.album, b.metadata?.album)
+        || compareAlbumPosition(a, b),
+    album: (a, b) => compareText(a.metadata?.album, b.metadata?.album)
+        || compareText(getAlbumArtist(a), getAlbumArtist(b))
+        || compareAlbumPosition(a, b),
+    duration: (a, b) => compareNumber(a.duration, b.duration),
+    // Songs from before addedAt was recorded count as the oldest
+    dateAdded: (a, b) => (a.addedAt ?? 0) - (b.addedAt ?? 0),
+    lyrics: (a, b) => Number(!a.lyrics) - Number(!b.lyrics) || compareText(getTitle(a), getTitle(b)),
+    video: (a, b) => Number(!a.videoUrl) - Number(!b.videoUrl) || compareText(getTitle(a), getTitle(b))
+};
+
+const getGroup = (song: Song, groupBy: LibraryGroupKey): { key: string; label: string } => {
+    switch (groupBy) {
+        case 'artist': {
+            const artist = getAlbumArtist(song);
+            return artist ? { key: artist.toLowerCase(), label: artist } : { key: UNKNOWN_KEY, label: 'Unknown Artist' };
+        }
+        case 'album': {
+            const key = getAlbumKey(song);
+            return key
+                ? { key, label: song.metadata!.album! }
+                : { key: UNKNOWN_KEY, label: 'Unknown Album' };
+        }
+        case 'version': {
+            const version = song.metadata?.version;
+            return version ? { key: version.toLowerCase(), label: version } : { key: UNKNOWN_KEY, label: 'Original' };
+        }
+        default:
+            return { key: '', label: '' };
+    }
+};
+
+/**
+ * Sorts the songs and, when grouping, keeps each group together.
+ * Sorted by title, groups are alphabetical; otherwise a group sits where its first
+ * song would (e.g. newest albums first when sorting by date added, descending).
+ */
+export const orderSongs = (songs: Song[], view: LibraryViewOptions): Song[] => {
+    const direction = view.sortDirection === 'desc' ? -1 : 1;
+    let sorted = songs;
+    if (view.sortKey !== 'manual') {
+        const compare = COMPARATORS[view.sortKey];
+        sorted = [...songs].sort((a, b) => compare(a, b) * direction);
+    } else if (direction === -1) {
+        sorted = [...songs].reverse();
+    }
+
+    if (view.groupBy === 'none') return sorted;
+
+    const groups = new Map<string, { label: string; songs: Song[] }>();
+    for (const song of sorted) {
+        const { key, label } = getGroup(song, view.groupBy);
+        const group = groups.get(key);
+        if (group) group.songs.push(song);
+        else groups.set(key, { label, songs: [song] });
+    }
+
+    let keys = [...groups.keys()];
+    if (view.sortKey === 'title') {
+        keys.sort((a, b) => collator.compare(groups.get(a)!.label, groups.get(b)!.label) * direction);
+    }
+    keys = [...keys.filter(k => k !== UNKNOWN_KEY), ...keys.filter(k => k === UNKNOWN_KEY)];
+
+    return keys.flatMap(key => groups.get(key)!.songs);
+};
+
+/**
+ * Splits an ordered list (see orderSongs) into its groups.
+ */
+export const groupSongs = (orderedSongs: Song[], groupBy: LibraryGroupKey): SongGroup[] => {
+    if (groupBy === 'none') return [{ key: '', label: '', songs: orderedSongs }];
+
+    const result: SongGroup[] = [];
+    for (const song of orderedSongs) {
+        const { key, label } = getGroup(song, groupBy);
+        const last = result[result.length - 1];
+        if (last && last.key === key) last.songs.push(song);
+        else result.push({ key, label, songs: [song] });
+    }
+
+    // Albums also name their artist, or "Various Artists" for compilations
+    if (groupBy === 'album') {
+        for (const group of result) {
+            if (group.key === UNKNOWN_KEY) continue;
+            const artists = new Set(group.songs.map(getAlbumArtist));
+            group.sublabel = artists.size === 1 ? [...artists][0] : 'Various Artists';
+        }
+    }
+
+    return result;
+};
+
+/** Manual drag & drop only makes sense when the list shows the stored order. */
+export const isManualOrder = (view: LibraryViewOptions) =>
+    view.sortKey === 'manual' && view.sortDirection === 'asc' && view.groupBy === 'none';
+
+// --- Manual Order ---
+
+/**
+ * Moves a block of ids, keeping their relative order, in front of `beforeId`
+ * (to the end when null or when `beforeId` is part of the block).
+ */
+export const moveBlock = (order: string[], block: Set<string>, beforeId: string | null): string[] => {
+    const moving = order.filter(id => block.has(id));
+    const rest = order.filter(id => !block.has(id));
+    const index = beforeId ? rest.indexOf(beforeId) : -1;
+    const at = index === -1 ? rest.length : index;
+    return [...rest.slice(0, at), ...moving, ...rest.slice(at)];
+};
+
+/**
+ * Puts songs in the given id order. Songs the order doesn't know (added since) keep
+ * their relative order at the end.
+ */
+export const arrangeByIds = (songs: Song[], order: string[]): Song[] => {
+    const byId = new Map(songs.map(s => [s.id, s]));
+    const known = new Set(order);
+    return [
+        ...order.map(id => byId.get(id)).filter((s): s is Song => !!s),
+        ...songs.filter(s => !known.has(s.id))
+    ];
+};
@@ -0,0 +1,197 @@
+import { ListenEvent, NamedPlaylist, ParsedMusicInfo, PlayStat, Song } from '../types';
+import { idbBatch, idbGet, idbGetAll, idbPut, idbTransaction } from './db';
+import { isContentSongId } from './songHash';
+import { getSongId } from './songIds';
+
+/**
+ * Serializable form of a Song. Object URLs die with the page,
+ * so we keep the underlying Files and rebuild URLs on load.
+ */
+export interface StoredSong {
+    id: string;
+    file: File;
+    name: string;
+    artist: string;
+    lyrics?: string;
+    embeddedLyrics?: boolean;
+    videoFile?: File;
+    coverFile?: File;
+    coverOverride?: Blob;
+    metadata?: ParsedMusicInfo;
+    duration?: number;
+    mysteryCode?: string;
+    folderId?: string;
+    relativePath?: string;
+    addedAt?: number;
+}
+
+const ORDER_KEY = 'songOrder';
+
+export const toStoredSong = (song: Song): StoredSong | null => {
+    if (!song.file) return null;
+    return {
+        id: song.id,
+        file: song.file,
+        name: song.name,
+        artist: song.artist,
+        lyrics: song.lyrics,
+        embeddedLyrics: song.embeddedLyrics,
+        videoFile: song.videoFile,
+        coverFile: song.coverFile,
+        coverOverride: song.coverOverride,
+        metadata: song.metadata,
+        duration: song.duration,
+        mysteryCode: song.mysteryCode,
+        folderId: song.folderId,
+        relativePath: song.relativePath,
+        addedAt: song.addedAt,
+    };
+};
+
+export const fromStoredSong = (stored: StoredSong): Song => ({
+    ...stored,
+    url: URL.createObjectURL(stored.file),
+    videoUrl: stored.videoFile ? URL.createObjectURL(stored.videoFile) : undefined,
+});
+
+/**
+ * Frees the object URLs of a song leaving the library. Only URLs that can be
+ * recreated from a kept file are revoked; see restoreSongUrls.
+ */
+export const releaseSongUrls = (song: Song) => {
+    if (song.file) URL.revokeObjectURL(song.url);
+    if (song.videoFile && song.videoUrl) URL.revokeObjectURL(song.videoUrl);
+};
+
+/**
+ * Fresh object URLs for a song coming back after releaseSongUrls.
+ */
+export const restoreSongUrls = (song: Song): Song => ({
+    ...song,
+    url: song.file ? URL.createObjectURL(song.file) : song.url,
+    videoUrl: song.videoFile ? URL.createObjectURL(song.videoFile) : song.videoUrl,
+});
+
+/**
+ * True if any persisted field differs (by identity) from the last saved record.
+ */
+export const isStoredSongDirty = (prev: StoredSong | undefined, next: StoredSong): boolean => {
+    if (!prev) return true;
+    return (Object.keys(next) as (keyof StoredSong)[]).some(key => prev[key] !== next[key]);
+};
+
+// --- Song Id Migration ---
+
+/**
+ * Songs saved back when ids were random get their content id, and everything that
+ * refers to them (order, playlists, play counts, history) follows. Copies of the same
+ * file collapse into one song. Cached covers are keyed by the old id and simply age out.
+ */
+async function migrateSongIds(): Promise<void> {
+    const records = await idbGetAll<StoredSong>('songs');
+    const legacy = records.filter(r => r.file && !isContentSongId(r.id));
+    if (legacy.length === 0) return;
+
+    const idMap = new Map<string, string>();
+    for (const record of legacy) idMap.set(record.id, await getSongId(record.file));
+    const remap = (id: string) => idMap.get(id) ?? id;
+
+    const [order, playlists, stats, history] = await Promise.all([
+        idbGet<string[]>('meta', ORDER_KEY),
+        idbGetAll<NamedPlaylist>('playlists'),
+        idbGetAll<PlayStat>('playStats'),
+        idbGetAll<ListenEvent>('history'),
+    ]);
+
+    // Counts of copies that collapsed into one song add up
+    const merged = new Map<string, PlayStat>();
+    stats.forEach(stat => {
+        const songId = remap(stat.songId);
+        const other = merged.get(songId);
+        merged.set(songId, other ? {
+            songId,
+            playCount: other.playCount + stat.playCount,
+            skipCount: (other.skipCount || 0) + (stat.skipCount || 0),
+            lastPlayedAt: Math.max(other.lastPlayedAt || 0, stat.lastPlayedAt || 0) || undefined
+        } : { ...stat, songId });
+    });
+    const newIds = new Set(idMap.values());
+
+    // All in one transaction: an interrupted migration leaves the legacy ids in place, so it runs again
+    await idbTransaction(['songs', 'meta', 'playlists', 'playStats', 'history'], tx => {
+        const songStore = tx.objectStore('songs');
+        const kept = new Set(records.filter(r => !idMap.has(r.id)).map(r => r.id));
+        legacy.forEach(record => {
+            songStore.delete(record.id);
+            const id = remap(record.id);
+            if (kept.has(id)) return;
+            kept.add(id);
+            songStore.put({ ...record, id });
+        });
+
+        if (order) tx.objectStore('meta').put([...new Set(order.map(remap))], ORDER_KEY);
+
+        const playlistStore = tx.objectStore('playlists');
+        playlists
+            .filter(p => p.songIds.some(id => idMap.has(id)))
+            .forEach(p => playlistStore.put({ ...p, songIds: p.songIds.map(remap) }));
+
+        const statStore = tx.objectStore('playStats');
+        stats.filter(stat => idMap.has(stat.songId)).forEach(stat => statStore.delete(stat.songId));
+        merged.forEach((stat, songId) => { if (newIds.has(songId)) statStore.put(stat); });
+
+        const historyStore = tx.objectStore('history');
+        history
+            .filter(event => idMap.has(event.songId))
+            .forEach(event => historyStore.put({ ...event, songId: remap(event.songId) }));
+    });
+
+    console.log(`[Library] Moved ${legacy.length} songs to content ids`);
+}
+
+let idMigration: Promise<void> | null = null;
+
+/**
+ * Resolves once saved songs use content ids. Everything that loads song ids
+ * from the database waits for this first.
+ */
+export const whenSongIdsMigrated = (): Promise<void> => {
+    if (!idMigration) {
+        idMigration = migrateSongIds().catch(err => console.error("[Library] Failed to migrate song ids:", err));
+    }
+    return idMigration;
+};
+
+/**
+ * Loads the persisted library in its saved order.
+ */
+export async function loadLibrary(): Promise<StoredSong[]> {
+    await whenSongIdsMigrated();
+    const [records, order] = await Promise.all([
+        idbGetAll<StoredSong>('songs'),
+        idbGet<string[]>('meta', ORDER_KEY),
+    ]);
+
+    const position = new Map((order || []).map((id, index) => [id, index]));
+    return records
+        .filter(r => r.file)
+        .sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+}
+
+/**
+ * Writes only what changed since the last save.
+ * @param upserts Records that are new or modified
+ * @param removedIds Ids no longer in the library
+ * @param order Full id order, or null if unchanged
+ */
+export async function saveLibraryChanges(upserts: StoredSong[], removedIds: string[], order: string[] | null): Promise<void> {
+    if (upserts.length > 0 || removedIds.length > 0) {
+        await idbBatch('songs', store => {
+            upserts.forEach(record => store.put(record));
+            removedIds.forEach(id => store.delete(id));
+        });
+    }
+    if (order) {
+        await idbPut('meta', order, ORDER_KEY);
+    }
+}
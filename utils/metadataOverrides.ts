@@ -0,0 +1,77 @@
+import { ParsedMusicInfo, Song } from '../types';
+import { getFileNameWithoutExtension, mergeTagInfo, parseMusicInfo } from '../utils';
+import { idbDelete, idbGet, idbPut } from './db';
+import { readTags } from './tagReader';
+
+/**
+ * Metadata fixed by hand in the editor. Overrides are keyed to the file rather than
+ * the song id, so they come back when the same file is imported again.
+ */
+
+export interface MetadataOverride {
+    key: string;
+    metadata: ParsedMusicInfo;
+    cover?: Blob; // Custom cover; absent = the file's own art
+    updatedAt: number;
+}
+
+/**
+ * The file's name and size, or the mystery code for downloaded songs.
+ * Paths are left out since the same folder can be imported from a different root.
+ */
+export const getOverrideKey = (song: Song): string | null => {
+    if (song.mysteryCode) return `code:${song.mysteryCode}`;
+    if (song.file) return `file:${song.file.name}:${song.file.size}`;
+    return null;
+};
+
+/** Song.name and Song.artist follow the metadata. */
+export const getDisplayNames = (metadata: ParsedMusicInfo): Pick<Song, 'name' | 'artist'> => ({
+    name: metadata.title,
+    artist: metadata.artists.length > 0 ? metadata.artists.join(', ') : 'Unknown Artist'
+});
+
+export const withMetadata = (song: Song, metadata: ParsedMusicInfo, cover?: Blob): Song => ({
+    ...song,
+    ...getDisplayNames(metadata),
+    metadata,
+    coverOverride: cover
+});
+
+export const saveMetadataOverride = (song: Song, metadata: ParsedMusicInfo, cover?: Blob): Promise<void> => {
+    const key = getOverrideKey(song);
+    if (!key) return Promise.resolve();
+    const record: MetadataOverride = { key, metadata, cover, updatedAt: Date.now() };
+    return idbPut('overrides', record);
+};
+
+export const deleteMetadataOverride = (song: Song): Promise<void> => {
+    const key = getOverrideKey(song);
+    return key ? idbDelete('overrides', key) : Promise.resolve();
+};
+
+/**
+ * Lays saved overrides over freshly imported songs. Songs without one are returned as they are.
+ */
+export const applyMetadataOverrides = async (songs: Song[]): Promise<Song[]> => {
+    return Promise.all(songs.map(async song => {
+        const key = getOverrideKey(song);
+        if (!key) return song;
+        try {
+            const override = await idbGet<MetadataOverride>('overrides', key);
+            return override ? withMetadata(song, override.metadata, override.cover) : song;
+        } catch (err) {
+            console.warn("[Metadata] Failed to read override:", err);
+            return song;
+        }
+    }));
+};
+
+/**
+ * Metadata as import would derive it from the file name and tags, ignoring any override.
+ */
+export const deriveFileMetadata = async (song: Song): Promise<ParsedMusicInfo | null> => {
+    if (!song.file || song.mysteryCode) return null;
+    const tags = await readTags(song.file).catch(() => null);
+    return mergeTagInfo(parseMusicInfo(getFileNameWithoutExtension(song.file.name), song.relativePath), tags);
+};
@@ -0,0 +1,195 @@
+import { Song } from '../types';
+import { parseMusicInfo } from '../utils';
+import { applyMetadataOverrides } from './metadataOverrides';
+import { getSongId } from './songIds';
+
+/**
+ * Mystery codes point at a folder on a server holding music.*, video.mp4,
+ * lyrics.lrc and info.txt. Shared by the import modal and playlist round-trips.
+ */
+
+export interface MysteryCodeProgress {
+    status?: string;
+    progress?: number; // 0-100
+    speed?: string;
+}
+
+export const downloadFile = async (url: string, signal: AbortSignal, onProgress?: (loaded: number, total: number, speed: number) => void): Promise<Blob> => {
+    const startTime = performance.now();
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.statusText}`);
+
+    const contentLength = response.headers.get('content-length');
+    const total = contentLength ? parseInt(contentLength, 10) : 0;
+    let loaded = 0;
+
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('ReadableStream not supported');
+
+    const chunks: Uint8Array[] = [];
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            chunks.push(value);
+            loaded += value.length;
+
+            const currentTime = performance.now();
+            const elapsed = (currentTime - startTime) / 1000; // seconds
+            const speed = elapsed > 0 ? loaded / elapsed : 0; // bytes/sec
+
+            if (onProgress) {
+                onProgress(loaded, total, speed);
+            }
+        }
+    } catch (err: any) {
+        if (err.name === 'AbortError') {
+            throw new Error('Download cancelled');
+        }
+        throw err;
+    }
+
+    return new Blob(chunks as any, { type: response.headers.get('content-type') || 'application/octet-stream' });
+};
+
+export const formatSpeed = (bytesPerSec: number): string => {
+    if (bytesPerSec > 1024 * 1024) return `${(bytesPerSec / (1024 * 1024)).toFixed(1)} MB/s`;
+    if (bytesPerSec > 1024) return `${(bytesPerSec / 1024).toFixed(1)} KB/s`;
+    return `${Math.round(bytesPerSec)} B/s`;
+};
+
+/**
+ * Downloads the audio, video, lyrics and info behind a mystery code (a base URL).
+ * @param onProgress Receives status text, percentage and speed while downloading
+ */
+export const resolveMysteryCode = async (
+    inputCode: string,
+    signal: AbortSignal,
+    onProgress: (update: MysteryCodeProgress) => void = () => {}
+): Promise<Song> => {
+    const baseUrl = inputCode.replace(/\/+$/, '');
+    const codeName = baseUrl.split('/').pop() || 'Unknown';
+    const info = parseMusicInfo(decodeURIComponent(codeName));
+
+    onProgress({ status: 'Probing resources...' });
+    console.log(`[MysteryCode] Resolving: ${baseUrl}`);
+
+    // 1. Probe Audio
+    const audioExtensions = ['mp3', 'flac', 'wav', 'ogg', 'm4a'];
+    let audioUrl: string | null = null;
+    let foundExt = '';
+
+    // Probe Logic (HEAD requests)
+    for (const ext of audioExtensions) {
+        if (signal.aborted) throw new Error('Cancelled');
+        const testUrl = `${baseUrl}/music.${ext}`;
+        try {
+            const res = await fetch(testUrl, { method: 'HEAD', signal });
+            if (res.ok) {
+                const contentType = res.headers.get('content-type');
+                if (contentType && (contentType.includes('text/html') || contentType.includes('application/json'))) {
+                    continue;
+                }
+                audioUrl = testUrl;
+                foundExt = ext;
+                break;
+            }
+        } catch (e: any) {
+            if (e.name === 'AbortError') throw e;
+            console.warn(`[MysteryCode] Failed to probe ${testUrl}`, e);
+        }
+    }
+
+    if (!audioUrl) throw new Error("No audio found for this code.");
+
+    // 2. Download Audio
+    onProgress({ status: `Downloading Audio (${foundExt.toUpperCase()})...` });
+    const audioBlob = await downloadFile(audioUrl, signal, (loaded, total, speed) => {
+        if (total > 0) {
+            onProgress({ progress: Math.round((loaded / total) * 100) });
+        }
+        onProgress({ speed: formatSpeed(speed) });
+    });
+    const localAudioUrl = URL.createObjectURL(audioBlob);
+
+
+    // 3. Probe & Download Video (Optional)
+    let localVideoUrl: string | undefined = undefined;
+    let videoFile: File | undefined = undefined;
+    try {
+        if (signal.aborted) throw new Error('Cancelled');
+        // Quick HEAD check
+        const testVideo = `${baseUrl}/video.mp4`;
+        const headRes = await fetch(testVideo, { method: 'HEAD', signal });
+        if (headRes.ok) {
+            onProgress({ status: 'Downloading Video...', progress: 0 });
+            const videoBlob = await downloadFile(testVideo, signal, (loaded, total, speed) => {
+                if (total > 0) onProgress({ progress: Math.round((loaded / total) * 100) });
+                onProgress({ speed: formatSpeed(speed) });
+            });
+            videoFile = new File([videoBlob], 'video.mp4', { type: videoBlob.type });
+            localVideoUrl = URL.createObjectURL(videoFile);
+        }
+    } catch (e: any) { if (e.name === 'AbortError') throw e; }
+
+    // 4. Probe & Download Lyrics
+    let lyrics: string | undefined = undefined;
+    try {
+        if (signal.aborted) throw new Error('Cancelled');
+        onProgress({ status: 'Fetching Lyrics...' });
+        const testLrc = `${baseUrl}/lyrics.lrc`;
+        const res = await fetch(testLrc, { signal });
+        if (res.ok) {
+            lyrics = await res.text();
+        }
+    } catch (e: any) { if (e.name === 'AbortError') throw e; }
+
+    // 5. Probe & Info
+    try {
+        if (signal.aborted) throw new Error('Cancelled');
+        onProgress({ status: 'Reading Info...' });
+        const testInfo = `${baseUrl}/info.txt`;
+        const res = await fetch(testInfo, { signal });
+        if (res.ok) {
+            const text = await res.text();
+            const lines = text.split('\n');
+            lines.forEach(line => {
+                const [key, ...values] = line.split(':');
+                if (key && values.length > 0) {
+                    const cleanKey = key.trim().toLowerCase();
+                    const cleanValue = values.join(':').trim();
+                    if (cleanValue) {
+                        if (cleanKey === 'title') info.title = cleanValue;
+                        if (cleanKey === 'artist') info.artists = cleanValue.split(',').map(s => s.trim());
+                        if (cleanKey === 'album') info.album = cleanValue;
+                        if (cleanKey === 'version') info.version = cleanValue;
+                        if (cleanKey === 'extra') info.extra = cleanValue;
+                    }
+                }
+            });
+        }
+    } catch (e: any) { if (e.name === 'AbortError') throw e; }
+
+    const audioFile = new File([audioBlob], `music.${foundExt}`, { type: audioBlob.type });
+
+    const song: Song = {
+        // Same content, same id as a local copy of the song
+        id: await getSongId(audioFile),
+        name: info.title,
+        artist: info.artists.join(', ') || 'Unknown Artist',
+        url: localAudioUrl,
+        file: audioFile,
+        videoUrl: localVideoUrl,
+        videoFile,
+        lyrics,
+        metadata: info,
+        mysteryCode: inputCode,
+        addedAt: Date.now()
+    };
+
+    // Info fixed by hand last time this code was downloaded
+    const [withOverrides] = await applyMetadataOverrides([song]);
+    return withOverrides;
+};
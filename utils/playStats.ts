@@ -0,0 +1,187 @@
+import { ListenEvent, PlayStat, Song } from '../types';
+import { idbGetAll, idbPut } from './db';
+import { whenSongIdsMigrated } from './libraryStore';
+import { foldForMatch } from '../utils';
+
+// A play counts once this much of the song has been heard (or the whole song, if shorter)
+export const PLAY_THRESHOLD_SECONDS = 30;
+export const PLAY_THRESHOLD_RATIO = 0.5;
+// Listens shorter than this are neither logged nor counted as skips (e.g. flicking through songs)
+export const MIN_LISTEN_SECONDS = 2;
+
+export const hasListenedEnough = (currentTime: number, duration: number): boolean =>
+    currentTime >= Math.min(PLAY_THRESHOLD_SECONDS, duration * PLAY_THRESHOLD_RATIO);
+
+// --- Persistence ---
+
+export const loadPlayStats = async (): Promise<Record<string, PlayStat>> => {
+    await whenSongIdsMigrated();
+    const stats: Record<string, PlayStat> = {};
+    for (const stat of await idbGetAll<PlayStat>('playStats')) stats[stat.songId] = stat;
+    return stats;
+};
+
+export const savePlayStat = (stat: PlayStat): Promise<void> => idbPut('playStats', stat);
+
+export const loadListenEvents = async (): Promise<ListenEvent[]> => {
+    await whenSongIdsMigrated();
+    return (await idbGetAll<ListenEvent>('history')).sort((a, b) => a.startedAt - b.startedAt);
+};
+
+export const saveListenEvent = (event: ListenEvent): Promise<void> => idbPut('history', event);
+
+// --- Listens ---
+
+export interface ListenSession {
+    song: Song;
+    startedAt: number;
+    playedSeconds: number;
+    lastTime: number | null;
+    counted: boolean; // Already recorded as a play
+}
+
+export const startListen = (song: Song): ListenSession => ({
+    song,
+    startedAt: Date.now(),
+    playedSeconds: 0,
+    lastTime: null,
+    counted: false
+});
+
+/**
+ * Adds the time since the last update. Jumps (seeks, or a tab waking up) aren't counted.
+ */
+export const trackListen = (session: ListenSession, currentTime: number): void => {
+    if (session.lastTime !== null) {
+        const delta = currentTime - session.lastTime;
+        if (delta > 0 && delta < 2) session.playedSeconds += delta;
+    }
+    session.lastTime = currentTime;
+};
+
+/**
+ * Turns a finished session into a history entry, or null if it was too short to matter.
+ * Leaving a song before it counted as a play is a skip.
+ */
+export const finishListen = (session: ListenSession, completed: boolean, duration?: number): ListenEvent | null => {
+    if (!completed && session.playedSeconds < MIN_LISTEN_SECONDS) return null;
+    const meta = session.song.metadata;
+    return {
+        id: Math.random().toString(36).substr(2, 9),
+        songId: session.song.id,
+        title: meta?.title || session.song.name,
+        artists: meta?.artists.length ? meta.artists : [session.song.artist],
+        features: meta?.features || [],
+        startedAt: session.startedAt,
+        playedSeconds: Math.round(session.playedSeconds * 10) / 10,
+        duration: duration && isFinite(duration) ? duration : session.song.duration,
+        completed,
+        skipped: !completed && !session.counted
+    };
+};
+
+// --- Summaries ---
+
+export interface SongListenSummary {
+    songId: string;
+    title: string;
+    artists: string[];
+    plays: number;
+    skips: number;
+    seconds: number;
+}
+
+export interface ArtistListenSummary {
+    name: string;
+    plays: number;
+    seconds: number;
+}
+
+export interface DayListenSummary {
+    date: Date; // Local midnight
+    seconds: number;
+}
+
+export interface ListeningSummary {
+    totalSeconds: number;
+    plays: number;
+    skips: number;
+    topSongs: SongListenSummary[];
+    topArtists: ArtistListenSummary[];
+    days: DayListenSummary[];
+}
+
+const startOfDay = (time: number) => {
+    const date = new Date(time);
+    date.setHours(0, 0, 0, 0);
+    return date;
+};
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+const byPlaysThenTime = (a: { plays: number; seconds: number }, b: { plays: number; seconds: number }) =>
+    b.plays - a.plays || b.seconds - a.seconds;
+
+/**
+ * Totals over the listens of the last `rangeDays` days (all of them when null).
+ * Artists are credited for features too, once per listen. The per-day breakdown
+ * covers the same range, or the last `chartDays` days for all-time summaries.
+ */
+export const summarizeListens = (events: ListenEvent[], rangeDays: number | null, limit = 10, chartDays = 30, now = Date.now()): ListeningSummary => {
+    const days = rangeDays ?? chartDays;
+    const firstDay = startOfDay(now);
+    firstDay.setDate(firstDay.getDate() - (days - 1));
+    const since = rangeDays === null ? -Infinity : firstDay.getTime();
+
+    const songs = new Map<string, SongListenSummary>();
+    const artists = new Map<string, ArtistListenSummary>();
+    const perDay = new Map<string, number>();
+    let totalSeconds = 0, plays = 0, skips = 0;
+
+    for (const event of events) {
+        if (event.startedAt < since) continue;
+        const isPlay = !event.skipped;
+        totalSeconds += event.playedSeconds;
+        if (isPlay) plays++;
+        else skips++;
+
+        let song = songs.get(event.songId);
+        if (!song) {
+            song = { songId: event.songId, title: event.title, artists: event.artists, plays: 0, skips: 0, seconds: 0 };
+            songs.set(event.songId, song);
+        }
+        song.plays += isPlay ? 1 : 0;
+        song.skips += isPlay ? 0 : 1;
+        song.seconds += event.playedSeconds;
+
+        const credited = new Set<string>();
+        for (const name of [...event.artists, ...event.features]) {
+            const key = foldForMatch(name.trim());
+            if (!key || credited.has(key)) continue;
+            credited.add(key);
+            const artist = artists.get(key) || { name: name.trim(), plays: 0, seconds: 0 };
+            artist.plays += isPlay ? 1 : 0;
+            artist.seconds += event.playedSeconds;
+            artists.set(key, artist);
+        }
+
+        const key = dayKey(new Date(event.startedAt));
+        perDay.set(key, (perDay.get(key) || 0) + event.playedSeconds);
+    }
+
+    const dayList: DayListenSummary[] = [];
+    for (let i = 0; i < days; i++) {
+        const date = new Date(firstDay);
+        date.setDate(firstDay.getDate() + i);
+        dayList.push({ date, seconds: perDay.get(dayKey(date)) || 0 });
+    }
+
+    return {
+        totalSeconds,
+        plays,
+        skips,
+        topSongs: [...songs.values()].filter(s => s.plays > 0).sort(byPlaysThenTime).slice(0, limit),
+        topArtists: [...artists.values()].filter(a => a.plays > 0).sort(byPlaysThenTime).slice(0, limit),
+        days: dayList
+    };
+};
@@ -0,0 +1,358 @@
+import { NamedPlaylist, Song } from '../types';
+import { getFileNameWithoutExtension, normalizeForMatch, parseMusicInfo } from '../utils';
+import { idbDelete, idbGetAll, idbPut } from './db';
+import { whenSongIdsMigrated } from './libraryStore';
+
+export interface PlaylistEntry {
+    path: string;
+    title?: string;    // "Artist - Title" from #EXTINF or PLS TitleN
+    duration?: number; // Seconds, when known
+    // Only carried by Rakko JSON playlists
+    lyrics?: string;
+    mysteryCode?: string;
+}
+
+export interface ParsedPlaylist {
+    name: string;
+    entries: PlaylistEntry[];
+}
+
+export interface PlaylistResolution {
+    songIds: string[];
+    unresolved: PlaylistEntry[];
+    entrySongIds: (string | null)[]; // Per entry, in order
+}
+
+export type PlaylistExportFormat = 'm3u8' | 'xspf' | 'json';
+
+/**
+ * Rakko's own playlist file. Unlike M3U/XSPF it carries lyrics and mystery codes,
+ * so a list can be rebuilt in another browser.
+ */
+export interface RakkoPlaylistFile {
+    format: 'rakko-playlist';
+    version: 1;
+    name: string;
+    exportedAt: string;
+    tracks: {
+        path: string;
+        title: string;
+        artists: string[];
+        album?: string;
+        duration?: number;
+        lyrics?: string;
+        mysteryCode?: string;
+    }[];
+}
+
+const RAKKO_FORMAT = 'rakko-playlist';
+
+// --- Persistence ---
+
+export const loadPlaylists = async (): Promise<NamedPlaylist[]> => {
+    await whenSongIdsMigrated();
+    return (await idbGetAll<NamedPlaylist>('playlists')).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const savePlaylist = (playlist: NamedPlaylist): Promise<void> => idbPut('playlists', playlist);
+
+export const deletePlaylist = (id: string): Promise<void> => idbDelete('playlists', id);
+
+// --- Parsing ---
+
+/**
+ * Reads a playlist file. `.m3u8` is UTF-8 by definition; plain `.m3u` files
+ * from older players are often in the system code page, so fall back to Shift_JIS.
+ */
+export async function readPlaylistText(file: File): Promise<string> {
+    const buffer = await file.arrayBuffer();
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+        return new TextDecoder('shift_jis').decode(buffer);
+    }
+}
+
+const parseDuration = (value?: string): number | undefined => {
+    const seconds = parseFloat(value || '');
+    return isFinite(seconds) && seconds > 0 ? seconds : undefined;
+};
+
+// M3U and extended M3U (#EXTM3U, #EXTINF:duration,Artist - Title, #PLAYLIST:name)
+const parseM3U = (text: string, fallbackName: string): ParsedPlaylist => {
+    let name = fallbackName;
+    const entries: PlaylistEntry[] = [];
+    let pending: Omit<PlaylistEntry, 'path'> = {};
+
+    text.replace(/^\ufeff/, '').split(/\r?\n/).forEach(rawLine => {
+        const line = rawLine.trim();
+        if (!line) return;
+
+        if (line.startsWith('#')) {
+            const info = /^#EXTINF:\s*(-?[\d.]+)[^,]*,(.*)$/i.exec(line);
+            if (info) {
+                pending = { duration: parseDuration(info[1]), title: info[2].trim() || undefined };
+            } else if (/^#PLAYLIST:/i.test(line)) {
+                name = line.substring('#PLAYLIST:'.length).trim() || name;
+            }
+            return;
+        }
+
+        entries.push({ path: line, ...pending });
+        pending = {};
+    });
+
+    return { name, entries };
+};
+
+// PLS: [playlist] section with FileN / TitleN / LengthN keys
+const parsePLS = (text: string, fallbackName: string): ParsedPlaylist => {
+    const byIndex = new Map<number, Partial<PlaylistEntry>>();
+
+    text.split(/\r?\n/).forEach(rawLine => {
+        const match = /^\s*(File|Title|Length)(\d+)\s*=\s*(.*)$/i.exec(rawLine);
+        if (!match) return;
+        const index = parseInt(match[2]);
+        const entry = byIndex.get(index) || {};
+        const value = match[3].trim();
+        switch (match[1].toLowerCase()) {
+            case 'file': entry.path = value; break;
+            case 'title': entry.title = value || undefined; break;
+            case 'length': entry.duration = parseDuration(value); break;
+        }
+        byIndex.set(index, entry);
+    });
+
+    const entries = [...byIndex.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, entry]) => entry)
+        .filter((entry): entry is PlaylistEntry => !!entry.path);
+
+    return { name: fallbackName, entries };
+};
+
+const parseRakkoJson = (text: string, fallbackName: string): ParsedPlaylist => {
+    const data = JSON.parse(text) as RakkoPlaylistFile;
+    if (data?.format !== RAKKO_FORMAT || !Array.isArray(data.tracks)) {
+        throw new Error('Not a Rakko playlist');
+    }
+    return {
+        name: data.name || fallbackName,
+        entries: data.tracks.map(track => ({
+            path: track.path || '',
+            title: track.artists?.length ? `${track.artists.join(', ')} - ${track.title}` : track.title,
+            duration: track.duration,
+            lyrics: track.lyrics,
+            mysteryCode: track.mysteryCode,
+        })),
+    };
+};
+
+export function parsePlaylist(text: string, fileName: string): ParsedPlaylist {
+    const fallbackName = getFileNameWithoutExtension(fileName.replace(/\.rakko\.json$/i, '.json'));
+    if (/\.json$/i.test(fileName)) return parseRakkoJson(text, fallbackName);
+    const isPls = /\.pls$/i.test(fileName) || /^\s*\[playlist\]/i.test(text);
+    return isPls ? parsePLS(text, fallbackName) : parseM3U(text, fallbackName);
+}
+
+// --- Resolution ---
+
+// "file:///C:/Music/a%20b.mp3" / "Music\\a b.mp3" -> ["C:", "Music", "a b.mp3"]
+const splitEntryPath = (path: string): { segments: string[]; isAbsolute: boolean } => {
+    let p = path.trim();
+    if (/^file:\/\//i.test(p)) {
+        try {
+            p = decodeURIComponent(new URL(p).pathname);
+        } catch {
+            p = p.replace(/^file:\/\//i, '');
+        }
+    }
+    p = p.replace(/\\/g, '/');
+    const isAbsolute = p.startsWith('/') || /^[a-z]:\//i.test(p) || /^[a-z][a-z0-9+.-]*:\/\//i.test(p);
+    return { segments: p.split('/').filter(Boolean), isAbsolute };
+};
+
+// Applies "." and ".." segments
+const joinSegments = (base: string[], relative: string[]): string[] => {
+    const result = [...base];
+    relative.forEach(part => {
+        if (part === '.') return;
+        if (part === '..') result.pop();
+        else result.push(part);
+    });
+    return result;
+};
+
+const pathKey = (segments: string[]) => segments.join('/').toLowerCase();
+
+const songFileName = (song: Song): string =>
+    (song.relativePath?.split('/').pop() || song.file?.name || '').toLowerCase();
+
+const songArtists = (song: Song): string[] =>
+    (song.metadata?.artists.length ? song.metadata.artists : [song.artist]).map(normalizeForMatch);
+
+/**
+ * Matches playlist entries to library songs: by relative path, then file name,
+ * then parsed title/artist. Entries that match nothing are returned as unresolved.
+ * @param playlistPath Relative path of the playlist file, used to resolve relative entries
+ */
+export function resolvePlaylistEntries(entries: PlaylistEntry[], songs: Song[], playlistPath?: string): PlaylistResolution {
+    const byPath = new Map<string, Song>();
+    const byName = new Map<string, Song[]>();
+    const byTitle = new Map<string, Song[]>();
+
+    songs.forEach(song => {
+        if (song.relativePath) byPath.set(song.relativePath.toLowerCase(), song);
+        const name = songFileName(song);
+        if (name) byName.set(name, [...(byName.get(name) || []), song]);
+        const title = normalizeForMatch(song.metadata?.title || song.name);
+        byTitle.set(title, [...(byTitle.get(title) || []), song]);
+    });
+
+    const playlistDir = (playlistPath || '').split('/').filter(Boolean).slice(0, -1);
+
+    const byMysteryCode = new Map<string, Song>();
+    songs.forEach(song => {
+        if (song.mysteryCode) byMysteryCode.set(song.mysteryCode, song);
+    });
+
+    const resolveEntry = (entry: PlaylistEntry): Song | undefined => {
+        // Downloaded songs are identified by their code
+        if (entry.mysteryCode && byMysteryCode.has(entry.mysteryCode)) return byMysteryCode.get(entry.mysteryCode);
+
+        const { segments, isAbsolute } = splitEntryPath(entry.path);
+        if (segments.length === 0) return undefined;
+
+        // 1. Relative path, as written next to the playlist
+        if (!isAbsolute && playlistPath) {
+            const song = byPath.get(pathKey(joinSegments(playlistDir, segments)));
+            if (song) return song;
+        }
+
+        // Absolute or foreign paths: the longest tail (folder + file at least) that exists in the library
+        for (let start = 0; start <= segments.length - 2; start++) {
+            const song = byPath.get(pathKey(segments.slice(start)));
+            if (song) return song;
+        }
+
+        // 2. File name, preferring a song from a folder with the same name
+        const fileName = segments[segments.length - 1];
+        const named = byName.get(fileName.toLowerCase());
+        if (named?.length) {
+            const parentDir = (segments[segments.length - 2] || '').toLowerCase();
+            return named.find(s => s.relativePath?.toLowerCase().split('/').slice(-2, -1)[0] === parentDir) || named[0];
+        }
+
+        // 3. Title and artist, from #EXTINF / TitleN or else the file name
+        const info = parseMusicInfo(entry.title || getFileNameWithoutExtension(fileName));
+        const candidates = byTitle.get(normalizeForMatch(info.title)) || [];
+        if (info.artists.length > 0) {
+            const artists = info.artists.map(normalizeForMatch);
+            return candidates.find(s => songArtists(s).some(a => artists.includes(a)));
+        }
+        // Without an artist only an unambiguous title counts
+        return candidates.length === 1 ? candidates[0] : undefined;
+    };
+
+    const result: PlaylistResolution = { songIds: [], unresolved: [], entrySongIds: [] };
+    entries.forEach(entry => {
+        const song = resolveEntry(entry);
+        if (song) result.songIds.push(song.id);
+        else result.unresolved.push(entry);
+        result.entrySongIds.push(song?.id ?? null);
+    });
+    return result;
+}
+
+// --- Export ---
+
+// Where a song lives relative to its library folder; its code for downloads, the file name for loose files
+const songPath = (song: Song): string => song.relativePath || song.mysteryCode || song.file?.name || song.name;
+
+const songTitle = (song: Song): string => song.metadata?.title || song.name;
+
+const songArtistLine = (song: Song): string =>
+    song.metadata?.artists.length ? song.metadata.artists.join(', ') : song.artist;
+
+const escapeXml = (value: string): string =>
+    value.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]!));
+
+// Percent-encodes each path segment for use as a relative URI; URLs only get their spaces etc. escaped
+const toUriPath = (path: string): string =>
+    /^[a-z][a-z0-9+.-]*:\/\//i.test(path) ? encodeURI(path) : path.split('/').map(encodeURIComponent).join('/');
+
+export function buildM3U8(name: string, songs: Song[]): string {
+    const lines = ['#EXTM3U', `#PLAYLIST:${name}`];
+    songs.forEach(song => {
+        const duration = song.duration ? Math.round(song.duration) : -1;
+        lines.push(`#EXTINF:${duration},${songArtistLine(song)} - ${songTitle(song)}`);
+        lines.push(songPath(song));
+    });
+    return lines.join('\n') + '\n';
+}
+
+export function buildXSPF(name: string, songs: Song[]): string {
+    const tracks = songs.map(song => {
+        const fields = [
+            `      <location>${escapeXml(toUriPath(songPath(song)))}</location>`,
+            `      <title>${escapeXml(songTitle(song))}</title>`,
+            `      <creator>${escapeXml(songArtistLine(song))}</creator>`,
+        ];
+        if (song.metadata?.album) fields.push(`      <album>${escapeXml(song.metadata.album)}</album>`);
+        if (song.duration) fields.push(`      <duration>${Math.round(song.duration * 1000)}</duration>`);
+        return `    <track>\n${fields.join('\n')}\n    </track>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+        `  <title>${escapeXml(name)}</title>`,
+        '  <trackList>',
+        ...tracks,
+        '  </trackList>',
+        '</playlist>',
+        '',
+    ].join('\n');
+}
+
+export function buildRakkoJson(name: string, songs: Song[]): string {
+    const file: RakkoPlaylistFile = {
+        format: RAKKO_FORMAT,
+        version: 1,
+        name,
+        exportedAt: new Date().toISOString(),
+        tracks: songs.map(song => ({
+            path: songPath(song),
+            title: songTitle(song),
+            artists: song.metadata?.artists.length ? song.metadata.artists : [song.artist],
+            album: song.metadata?.album || undefined,
+            duration: song.duration,
+            lyrics: song.lyrics,
+            mysteryCode: song.mysteryCode,
+        })),
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+const EXPORT_TYPES: Record<PlaylistExportFormat, { extension: string; mime: string; build: (name: string, songs: Song[]) => string }> = {
+    m3u8: { extension: '.m3u8', mime: 'audio/x-mpegurl', build: buildM3U8 },
+    xspf: { extension: '.xspf', mime: 'application/xspf+xml', build: buildXSPF },
+    json: { extension: '.rakko.json', mime: 'application/json', build: buildRakkoJson },
+};
+
+/**
+ * Builds the playlist file and hands it to the browser as a download.
+ */
+export function downloadPlaylist(name: string, songs: Song[], format: PlaylistExportFormat) {
+    const type = EXPORT_TYPES[format];
+    const blob = new Blob([type.build(name, songs)], { type: `${type.mime};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name.replace(/[\\/:*?"<>|]/g, '_') || 'playlist'}${type.extension}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
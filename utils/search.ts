@@ -0,0 +1,278 @@
+import { Song } from '../types';
+import { foldForMatch } from '../utils';
+
+/**
+ * Library search. Each field is folded once with foldForMatch (width, case, accents, kana)
+ * while remembering where every folded character came from, so matches can be
+ * highlighted in the original text. Query words must all match somewhere; longer
+ * words may be off by a typo or two.
+ */
+
+export type SearchField = 'title' | 'artists' | 'features' | 'album' | 'version' | 'lyrics';
+
+// [start, end) offsets into the displayed text
+export type MatchRange = [number, number];
+
+export interface SearchResult {
+    song: Song;
+    score: number;
+    matches: Partial<Record<SearchField, MatchRange[]>>;
+    // The lyric line of the first lyrics match, when lyrics were searched
+    lyricsSnippet?: { text: string; ranges: MatchRange[] };
+}
+
+interface IndexedField {
+    field: SearchField;
+    text: string;
+    folded: string;
+    // folded index -> original [start, end)
+    origins: MatchRange[];
+}
+
+interface IndexedSong {
+    song: Song;
+    fields: IndexedField[];
+}
+
+export interface SearchIndex {
+    entries: IndexedSong[];
+    includesLyrics: boolean;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+    title: 10,
+    artists: 6,
+    features: 4,
+    album: 4,
+    version: 2,
+    lyrics: 1
+};
+
+// Lyrics are long; typo tolerance there costs a lot and mostly finds noise
+const FUZZY_FIELDS = new Set<SearchField>(['title', 'artists', 'features', 'album', 'version']);
+
+const LRC_TAG_REGEX = /\[[^\]]*\]/g;
+
+// A base character with its combining marks (incl. half-width dakuten), folded as one
+const CLUSTER_REGEX = /.[\u0300-\u036f\u3099\u309a\uff9e\uff9f]*/gsu;
+
+const QUERY_SEPARATORS = /[\s.,!?'"、。・,:;/\\|()[\]{}<>\-_~]+/;
+
+const indexField = (field: SearchField, text: string): IndexedField | null => {
+    if (!text) return null;
+    let folded = '';
+    const origins: MatchRange[] = [];
+    for (const match of text.matchAll(CLUSTER_REGEX)) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        const piece = foldForMatch(match[0]);
+        for (let i = 0; i < piece.length; i++) origins.push([start, end]);
+        folded += piece;
+    }
+    return { field, text, folded, origins };
+};
+
+/** The text a song's row shows for each field, which is also what gets highlighted. */
+export const getSearchFieldText = (song: Song, field: SearchField): string => {
+    const meta = song.metadata;
+    switch (field) {
+        case 'title': return meta ? meta.title : song.name;
+        case 'artists': return meta ? meta.artists.join(', ') : song.artist;
+        case 'features': return meta?.features?.join(', ') || '';
+        case 'album': return meta?.album || '';
+        case 'version': return meta?.version || '';
+        case 'lyrics': return song.lyrics ? song.lyrics.replace(LRC_TAG_REGEX, '') : '';
+    }
+};
+
+export const buildSearchIndex = (songs: Song[], includeLyrics = false): SearchIndex => {
+    const fields: SearchField[] = ['title', 'artists', 'features', 'album', 'version'];
+    if (includeLyrics) fields.push('lyrics');
+
+    return {
+        includesLyrics: includeLyrics,
+        entries: songs.map(song => ({
+            song,
+            fields: fields
+                .map(field => indexField(field, getSearchFieldText(song, field)))
+                .filter((f): f is IndexedField => f !== null)
+        }))
+    };
+};
+
+const maxTypos = (token: string): number => {
+    const length = Array.from(token).length;
+    if (length >= 8) return 2;
+    if (length >= 4) return 1;
+    return 0;
+};
+
+/**
+ * Best approximate occurrence of `pattern` anywhere in `text` (Sellers' algorithm),
+ * with its folded range. Returns null when it needs more than `maxDistance` edits.
+ */
+const fuzzyFind = (pattern: string, text: string, maxDistance: number): { distance: number; start: number; end: number } | null => {
+    const m = pattern.length;
+    let prevCost = new Array<number>(m + 1);
+    let prevStart = new Array<number>(m + 1);
+    let cost = new Array<number>(m + 1);
+    let start = new Array<number>(m + 1);
+
+    for (let i = 0; i <= m; i++) {
+        prevCost[i] = i;
+        prevStart[i] = 0;
+    }
+
+    let best: { distance: number; start: number; end: number } | null = null;
+
+    for (let j = 1; j <= text.length; j++) {
+        // A match may begin anywhere in the text
+        cost[0] = 0;
+        start[0] = j;
+        for (let i = 1; i <= m; i++) {
+            const substitution = prevCost[i - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+            const deletion = cost[i - 1] + 1;
+            const insertion = prevCost[i] + 1;
+
+            if (substitution <= deletion && substitution <= insertion) {
+                cost[i] = substitution;
+                start[i] = prevStart[i - 1];
+            } else if (deletion <= insertion) {
+                cost[i] = deletion;
+                start[i] = start[i - 1];
+            } else {
+                cost[i] = insertion;
+                start[i] = prevStart[i];
+            }
+        }
+
+        // An equally good match that only extends the current one reads better highlighted
+        if (cost[m] <= maxDistance && (!best || cost[m] < best.distance || (cost[m] === best.distance && start[m] === best.start))) {
+            best = { distance: cost[m], start: start[m], end: j };
+            if (cost[m] === 0) break;
+        }
+
+        [prevCost, cost] = [cost, prevCost];
+        [prevStart, start] = [start, prevStart];
+    }
+
+    return best;
+};
+
+const WORD_BREAK = /[\s(\[（【)\]）】\-/・,]/;
+
+const isWordStart = (text: string, index: number): boolean =>
+    index === 0 || WORD_BREAK.test(text[index - 1]);
+
+// Typos often sit at the edges of a word; grow the highlight to cover it (by at most `slack` characters)
+const snapToWord = (text: string, [start, end]: MatchRange, slack: number): MatchRange => {
+    let s = start;
+    let e = end;
+    while (s > 0 && start - s < slack && !WORD_BREAK.test(text[s - 1])) s--;
+    while (e < text.length && e - end < slack && !WORD_BREAK.test(text[e])) e++;
+    const isWholeWord = (s === 0 || WORD_BREAK.test(text[s - 1])) && (e === text.length || WORD_BREAK.test(text[e]));
+    return isWholeWord ? [s, e] : [start, end];
+};
+
+interface TokenMatch {
+    field: IndexedField;
+    score: number;
+    range: MatchRange; // folded offsets
+}
+
+const matchToken = (token: string, fields: IndexedField[]): TokenMatch | null => {
+    let best: TokenMatch | null = null;
+    const typos = maxTypos(token);
+
+    for (const field of fields) {
+        const weight = FIELD_WEIGHTS[field.field];
+        let score = 0;
+        let range: MatchRange | null = null;
+
+        const index = field.folded.indexOf(token);
+        if (index !== -1) {
+            range = [index, index + token.length];
+            score = weight * (isWordStart(field.folded, index) ? 1.5 : 1);
+            if (token.length === field.folded.length) score *= 1.5;
+        } else if (typos > 0 && FUZZY_FIELDS.has(field.field)) {
+            const found = fuzzyFind(token, field.folded, typos);
+            if (found) {
+                range = snapToWord(field.folded, [found.start, found.end], typos);
+                score = weight * (0.6 - 0.2 * found.distance);
+            }
+        }
+
+        if (range && (!best || score > best.score)) best = { field, score, range };
+    }
+
+    return best;
+};
+
+// Folded ranges -> original text ranges, merged where they touch
+const toOriginalRanges = (field: IndexedField, ranges: MatchRange[]): MatchRange[] => {
+    const mapped = ranges
+        .filter(([s, e]) => e > s)
+        .map(([s, e]) => [field.origins[s][0], field.origins[e - 1][1]] as MatchRange)
+        .sort((a, b) => a[0] - b[0]);
+
+    const merged: MatchRange[] = [];
+    for (const range of mapped) {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+        else merged.push([...range] as MatchRange);
+    }
+    return merged;
+};
+
+const buildLyricsSnippet = (text: string, range: MatchRange): SearchResult['lyricsSnippet'] => {
+    const lineStart = text.lastIndexOf('\n', range[0] - 1) + 1;
+    const newline = text.indexOf('\n', range[1]);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const raw = text.slice(lineStart, lineEnd);
+    const trimmedStart = raw.length - raw.trimStart().length;
+    return {
+        text: raw.trim(),
+        ranges: [[range[0] - lineStart - trimmedStart, Math.min(range[1], lineEnd) - lineStart - trimmedStart]]
+    };
+};
+
+export const splitQuery = (query: string): string[] =>
+    foldForMatch(query).split(QUERY_SEPARATORS).filter(Boolean);
+
+/**
+ * Songs matching every word of the query, best first. Ties keep library order.
+ */
+export const searchSongs = (index: SearchIndex, query: string): SearchResult[] => {
+    const tokens = splitQuery(query);
+    if (tokens.length === 0) return [];
+
+    const results: (SearchResult & { order: number })[] = [];
+
+    index.entries.forEach((entry, order) => {
+        let score = 0;
+        const folded: Map<IndexedField, MatchRange[]> = new Map();
+
+        for (const token of tokens) {
+            const match = matchToken(token, entry.fields);
+            if (!match) return;
+            score += match.score;
+            folded.set(match.field, [...(folded.get(match.field) || []), match.range]);
+        }
+
+        const matches: SearchResult['matches'] = {};
+        let lyricsSnippet: SearchResult['lyricsSnippet'];
+        folded.forEach((ranges, field) => {
+            const original = toOriginalRanges(field, ranges);
+            matches[field.field] = original;
+            if (field.field === 'lyrics' && original.length > 0) {
+                lyricsSnippet = buildLyricsSnippet(field.text, original[0]);
+            }
+        });
+
+        results.push({ song: entry.song, score, matches, lyricsSnippet, order });
+    });
+
+    return results
+        .sort((a, b) => b.score - a.score || a.order - b.order)
+        .map(({ order, ...result }) => result);
+};
@@ -0,0 +1,54 @@
+import { Song } from '../types';
+import { foldForMatch } from '../utils';
+
+/**
+ * Shuffle deals: every song plays once per cycle, in a random order.
+ * Smart shuffle also keeps songs by the same artist apart where it can.
+ */
+
+const getArtistKeys = (song: Song): string[] =>
+    (song.metadata?.artists.length ? song.metadata.artists : [song.artist]).map(a => foldForMatch(a));
+
+export const sharesArtist = (a: Song, b: Song): boolean => {
+    const keys = getArtistKeys(a);
+    return getArtistKeys(b).some(k => keys.includes(k));
+};
+
+export const shuffleSongs = (songs: Song[], random = Math.random): Song[] => {
+    const result = [...songs];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+/**
+ * Moves songs so no two neighbours share an artist, as far as the library allows.
+ * Each clash is swapped with the nearest later song that fits; leftovers stay put.
+ */
+export const spreadArtists = (songs: Song[], previous?: Song | null): Song[] => {
+    const result = [...songs];
+    for (let i = 0; i < result.length; i++) {
+        const before = i > 0 ? result[i - 1] : previous;
+        if (!before || !sharesArtist(before, result[i])) continue;
+        const swapIndex = result.findIndex((s, j) => j > i && !sharesArtist(before, s));
+        if (swapIndex === -1) continue;
+        [result[i], result[swapIndex]] = [result[swapIndex], result[i]];
+    }
+    return result;
+};
+
+/**
+ * A fresh deal of `songs`. `previous` (usually what's playing) never comes first
+ * unless it's the only song, so a new cycle doesn't repeat the last track.
+ */
+export const dealShuffle = (songs: Song[], previous: Song | null, smart: boolean, random = Math.random): Song[] => {
+    let deck = shuffleSongs(songs, random);
+    if (smart) deck = spreadArtists(deck, previous);
+    if (previous && deck.length > 1 && deck[0].id === previous.id) {
+        const swapIndex = 1 + Math.floor(random() * (deck.length - 1));
+        [deck[0], deck[swapIndex]] = [deck[swapIndex], deck[0]];
+    }
+    return deck;
+};
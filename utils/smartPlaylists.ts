@@ -0,0 +1,146 @@
+import { PlayStat, SmartPlaylistRules, SmartRule, SmartRuleField, SmartRuleOperator, Song } from '../types';
+import { foldForMatch } from '../utils';
+
+/**
+ * Smart playlists: songs are picked by rules over the song, its parsed metadata and
+ * its play stats. Text is compared with foldForMatch, so width, case and kana don't matter.
+ */
+
+export type SmartFieldKind = 'text' | 'boolean' | 'number' | 'date';
+
+export const SMART_FIELDS: Record<SmartRuleField, { label: string; kind: SmartFieldKind; unit?: string }> = {
+    title: { label: 'Title', kind: 'text' },
+    artist: { label: 'Artist', kind: 'text' },
+    album: { label: 'Album', kind: 'text' },
+    version: { label: 'Version', kind: 'text' },
+    genre: { label: 'Genre', kind: 'text' },
+    hasLyrics: { label: 'Has Lyrics', kind: 'boolean' },
+    hasVideo: { label: 'Has Music Video', kind: 'boolean' },
+    playCount: { label: 'Play Count', kind: 'number' },
+    skipCount: { label: 'Skip Count', kind: 'number' },
+    duration: { label: 'Duration', kind: 'number', unit: 'sec' },
+    year: { label: 'Year', kind: 'number' },
+    addedAt: { label: 'Date Added', kind: 'date', unit: 'days' },
+    lastPlayedAt: { label: 'Last Played', kind: 'date', unit: 'days' }
+};
+
+export const OPERATORS_BY_KIND: Record<SmartFieldKind, SmartRuleOperator[]> = {
+    text: ['contains', 'notContains', 'is', 'isNot'],
+    boolean: ['isTrue', 'isFalse'],
+    number: ['equals', 'greaterThan', 'lessThan'],
+    date: ['inLastDays', 'notInLastDays']
+};
+
+export const OPERATOR_LABELS: Record<SmartRuleOperator, string> = {
+    contains: 'contains',
+    notContains: 'does not contain',
+    is: 'is',
+    isNot: 'is not',
+    isTrue: 'yes',
+    isFalse: 'no',
+    equals: 'is',
+    greaterThan: 'is more than',
+    lessThan: 'is less than',
+    inLastDays: 'is in the last',
+    notInLastDays: 'is not in the last'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const createSmartRule = (field: SmartRuleField = 'artist'): SmartRule => ({
+    id: Math.random().toString(36).substr(2, 9),
+    field,
+    operator: OPERATORS_BY_KIND[SMART_FIELDS[field].kind][0],
+    value: ''
+});
+
+/** Switching field keeps the operator when it still applies. */
+export const changeRuleField = (rule: SmartRule, field: SmartRuleField): SmartRule => {
+    const operators = OPERATORS_BY_KIND[SMART_FIELDS[field].kind];
+    return {
+        ...rule,
+        field,
+        operator: operators.includes(rule.operator) ? rule.operator : operators[0],
+        value: SMART_FIELDS[field].kind === SMART_FIELDS[rule.field].kind ? rule.value : ''
+    };
+};
+
+// Every value a text rule can match; a song with several artists matches on any of them
+const getTextValues = (song: Song, field: SmartRuleField): string[] => {
+    const meta = song.metadata;
+    switch (field) {
+        case 'title': return [meta?.title || song.name];
+        case 'artist': return [...(meta?.artists || [song.artist]), ...(meta?.features || []), ...(meta?.albumArtist ? [meta.albumArtist] : [])];
+        case 'album': return meta?.album ? [meta.album] : [];
+        case 'version': return meta?.version ? [meta.version] : [];
+        case 'genre': return meta?.genre ? [meta.genre] : [];
+        default: return [];
+    }
+};
+
+const getNumber = (song: Song, field: SmartRuleField, stat?: PlayStat): number | undefined => {
+    switch (field) {
+        case 'playCount': return stat?.playCount || 0;
+        case 'skipCount': return stat?.skipCount || 0;
+        case 'duration': return song.duration;
+        case 'year': return song.metadata?.year;
+        case 'addedAt': return song.addedAt;
+        case 'lastPlayedAt': return stat?.lastPlayedAt;
+        default: return undefined;
+    }
+};
+
+/** Rules still missing their value are left out rather than matching nothing. */
+export const isRuleComplete = (rule: SmartRule): boolean =>
+    SMART_FIELDS[rule.field].kind === 'boolean'
+    || (SMART_FIELDS[rule.field].kind === 'text' ? rule.value.trim() !== '' : rule.value.trim() !== '' && !isNaN(Number(rule.value)));
+
+const matchesRule = (song: Song, rule: SmartRule, stat: PlayStat | undefined, now: number): boolean => {
+    switch (SMART_FIELDS[rule.field].kind) {
+        case 'text': {
+            const needle = foldForMatch(rule.value.trim());
+            const values = getTextValues(song, rule.field).map(v => foldForMatch(v));
+            switch (rule.operator) {
+                case 'contains': return values.some(v => v.includes(needle));
+                case 'notContains': return !values.some(v => v.includes(needle));
+                case 'is': return values.some(v => v === needle);
+                case 'isNot': return !values.some(v => v === needle);
+            }
+            return false;
+        }
+        case 'boolean': {
+            const value = rule.field === 'hasLyrics' ? !!song.lyrics : !!song.videoUrl;
+            return rule.operator === 'isTrue' ? value : !value;
+        }
+        case 'number': {
+            const value = getNumber(song, rule.field, stat);
+            if (value === undefined) return false;
+            const target = Number(rule.value);
+            switch (rule.operator) {
+                case 'equals': return value === target;
+                case 'greaterThan': return value > target;
+                case 'lessThan': return value < target;
+            }
+            return false;
+        }
+        case 'date': {
+            const time = getNumber(song, rule.field, stat);
+            const isRecent = time !== undefined && now - time <= Number(rule.value) * DAY_MS;
+            return rule.operator === 'inLastDays' ? isRecent : !isRecent;
+        }
+    }
+};
+
+export const matchesSmartRules = (song: Song, smart: SmartPlaylistRules, stat: PlayStat | undefined, now = Date.now()): boolean => {
+    const rules = smart.rules.filter(isRuleComplete);
+    if (rules.length === 0) return true;
+    return smart.match === 'all'
+        ? rules.every(rule => matchesRule(song, rule, stat, now))
+        : rules.some(rule => matchesRule(song, rule, stat, now));
+};
+
+/**
+ * Ids of the matching songs, in library order.
+ */
+export const evaluateSmartPlaylist = (smart: SmartPlaylistRules, songs: Song[], playStats: Record<string, PlayStat>, now = Date.now()): string[] =>
+    songs.filter(song => matchesSmartRules(song, smart, playStats[song.id], now)).map(song => song.id);
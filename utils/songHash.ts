@@ -0,0 +1,48 @@
+/**
+ * Content ids for songs. The id is a hash of the file size plus its first and
+ * last chunks, so the same file gets the same id on every import and every device,
+ * without reading whole files. Pure JS rather than crypto.subtle, which is missing
+ * outside secure contexts (e.g. a phone opening the dev server over the LAN).
+ */
+
+const CHUNK_SIZE = 64 * 1024;
+
+// Content ids are 32 hex characters; the old random ids were shorter base36 strings
+export const isContentSongId = (id: string): boolean => /^[0-9a-f]{32}$/.test(id);
+
+// cyrb128: four 32-bit lanes, well mixed and fast enough for a few hundred KB
+const hashBytes = (bytes: Uint8Array): string => {
+    let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+    for (let i = 0; i < bytes.length; i++) {
+        const k = bytes[i];
+        h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+        h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+        h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+        h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+    }
+    h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+    h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+    h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+    h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+    h1 ^= h2 ^ h3 ^ h4;
+    h2 ^= h1;
+    h3 ^= h1;
+    h4 ^= h1;
+    return [h1, h2, h3, h4].map(h => (h >>> 0).toString(16).padStart(8, '0')).join('');
+};
+
+export async function computeSongId(file: Blob): Promise<string> {
+    const size = new Uint8Array(8);
+    new DataView(size.buffer).setFloat64(0, file.size);
+
+    const head = new Uint8Array(await file.slice(0, CHUNK_SIZE).arrayBuffer());
+    const tail = file.size > CHUNK_SIZE
+        ? new Uint8Array(await file.slice(Math.max(CHUNK_SIZE, file.size - CHUNK_SIZE)).arrayBuffer())
+        : new Uint8Array(0);
+
+    const bytes = new Uint8Array(size.length + head.length + tail.length);
+    bytes.set(size, 0);
+    bytes.set(head, size.length);
+    bytes.set(tail, size.length + head.length);
+    return hashBytes(bytes);
+}
@@ -0,0 +1,14 @@
+import { computeSongId } from './songHash';
+
+/**
+ * Hashes song files off the main thread; see songIds.ts for the other end.
+ */
+
+self.onmessage = async (e: MessageEvent<{ requestId: number; file: Blob }>) => {
+    const { requestId, file } = e.data;
+    try {
+        self.postMessage({ requestId, id: await computeSongId(file) });
+    } catch (err) {
+        self.postMessage({ requestId, error: err instanceof Error ? err.message : String(err) });
+    }
+};
@@ -0,0 +1,74 @@
+import { computeSongId } from './songHash';
+
+/**
+ * Song ids from file content, hashed in a worker so large imports don't stall the UI.
+ * Falls back to hashing on the main thread where workers aren't available.
+ */
+
+interface PendingRequest {
+    file: Blob;
+    resolve: (id: string) => void;
+    reject: (err: Error) => void;
+}
+
+interface WorkerResponse {
+    requestId: number;
+    id?: string;
+    error?: string;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+const getWorker = (): Worker | null => {
+    if (worker || workerFailed) return worker;
+    if (typeof Worker === 'undefined') {
+        workerFailed = true;
+        return null;
+    }
+
+    try {
+        worker = new Worker(new URL('./songHash.worker.ts', import.meta.url), { type: 'module' });
+    } catch (err) {
+        console.warn("[SongIds] Worker unavailable, hashing on the main thread:", err);
+        workerFailed = true;
+        return null;
+    }
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        const request = pending.get(e.data.requestId);
+        if (!request) return;
+        pending.delete(e.data.requestId);
+        if (e.data.id) request.resolve(e.data.id);
+        else request.reject(new Error(e.data.error || 'Hashing failed'));
+    };
+
+    // A worker that fails to load takes its queue with it; finish those here
+    worker.onerror = (e) => {
+        console.warn("[SongIds] Worker failed, hashing on the main thread:", e.message);
+        worker?.terminate();
+        worker = null;
+        workerFailed = true;
+        const requests = [...pending.values()];
+        pending.clear();
+        requests.forEach(r => computeSongId(r.file).then(r.resolve, r.reject));
+    };
+
+    return worker;
+};
+
+/**
+ * The id of the song in this file. The same content always gives the same id.
+ */
+export const getSongId = (file: Blob): Promise<string> => {
+    const target = getWorker();
+    if (!target) return computeSongId(file);
+
+    return new Promise((resolve, reject) => {
+        const requestId = nextRequestId++;
+        pending.set(requestId, { file, resolve, reject });
+        target.postMessage({ requestId, file });
+    });
+};
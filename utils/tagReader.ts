@@ -0,0 +1,699 @@
+import { AudioTags, TagPicture } from '../types';
+
+/**
+ * In-house tag reader for ID3v2.2-2.4 (+ ID3v1), FLAC / Ogg Vorbis comments and MP4 `ilst` atoms.
+ * Embedded lyrics (USLT/SYLT, LYRICS, ©lyr) come back as LRC or plain text.
+ * Only the bytes that are needed are read from the file, so large pictures
+ * and audio data are skipped unless a picture was asked for.
+ */
+
+export interface ReadTagsOptions {
+    includePicture?: boolean;
+}
+
+// --- Byte Source ---
+
+interface ByteSource {
+    size: number;
+    read: (offset: number, length: number) => Promise<Uint8Array>;
+}
+
+const CHUNK_SIZE = 64 * 1024;
+
+// Reads file slices through a single cached window, so sequential header reads stay cheap
+const createByteSource = (file: Blob): ByteSource => {
+    let cacheStart = 0;
+    let cache = new Uint8Array(0);
+
+    return {
+        size: file.size,
+        read: async (offset, length) => {
+            const end = Math.min(offset + length, file.size);
+            if (offset >= cacheStart && end <= cacheStart + cache.length) {
+                return cache.subarray(offset - cacheStart, end - cacheStart);
+            }
+            const loadEnd = Math.min(file.size, offset + Math.max(length, CHUNK_SIZE));
+            cache = new Uint8Array(await file.slice(offset, loadEnd).arrayBuffer());
+            cacheStart = offset;
+            return cache.subarray(0, end - offset);
+        }
+    };
+};
+
+// --- Binary Helpers ---
+
+const latin1 = new TextDecoder('iso-8859-1');
+const utf8 = new TextDecoder('utf-8');
+const utf16le = new TextDecoder('utf-16le');
+const utf16be = new TextDecoder('utf-16be');
+
+export const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+    latin1.decode(bytes.subarray(start, start + length));
+
+export const uint32BE = (b: Uint8Array, i: number): number =>
+    ((b[i] << 24) >>> 0) + (b[i + 1] << 16) + (b[i + 2] << 8) + b[i + 3];
+
+const uint32LE = (b: Uint8Array, i: number): number =>
+    ((b[i + 3] << 24) >>> 0) + (b[i + 2] << 16) + (b[i + 1] << 8) + b[i];
+
+const uint24BE = (b: Uint8Array, i: number): number => (b[i] << 16) + (b[i + 1] << 8) + b[i + 2];
+
+export const syncsafe = (b: Uint8Array, i: number): number =>
+    ((b[i] & 0x7f) << 21) | ((b[i + 1] & 0x7f) << 14) | ((b[i + 2] & 0x7f) << 7) | (b[i + 3] & 0x7f);
+
+// Reverses ID3 unsynchronisation (0xFF 0x00 -> 0xFF)
+export const removeUnsync = (data: Uint8Array): Uint8Array => {
+    const out = new Uint8Array(data.length);
+    let j = 0;
+    for (let i = 0; i < data.length; i++) {
+        out[j++] = data[i];
+        if (data[i] === 0xff && data[i + 1] === 0x00) i++;
+    }
+    return out.subarray(0, j);
+};
+
+const normalizeMime = (format: string): string => {
+    const f = format.trim().toLowerCase();
+    if (f.includes('/')) return f;
+    if (f === 'jpg' || f === 'jpeg') return 'image/jpeg';
+    if (f === 'png') return 'image/png';
+    return f ? `image/${f}` : 'image/jpeg';
+};
+
+// Picture type 3 is "Cover (front)" in both ID3 and FLAC
+const pickPicture = (pictures: TagPicture[]): TagPicture | undefined =>
+    pictures.find(p => p.type === 3) || pictures[0];
+
+// "3/12" -> 3
+const parseNumberPair = (value?: string): number | undefined => {
+    if (!value) return undefined;
+    const n = parseInt(value.split('/')[0], 10);
+    return isNaN(n) || n <= 0 ? undefined : n;
+};
+
+const parseYear = (value?: string): number | undefined => {
+    const match = value?.match(/\d{4}/);
+    return match ? parseInt(match[0], 10) : undefined;
+};
+
+const ID3V1_GENRES = (
+    'Blues|Classic Rock|Country|Dance|Disco|Funk|Grunge|Hip-Hop|Jazz|Metal|New Age|Oldies|Other|Pop|R&B|Rap|Reggae|Rock|Techno|Industrial|' +
+    'Alternative|Ska|Death Metal|Pranks|Soundtrack|Euro-Techno|Ambient|Trip-Hop|Vocal|Jazz+Funk|Fusion|Trance|Classical|Instrumental|Acid|House|' +
+    'Game|Sound Clip|Gospel|Noise|AlternRock|Bass|Soul|Punk|Space|Meditative|Instrumental Pop|Instrumental Rock|Ethnic|Gothic|Darkwave|' +
+    'Techno-Industrial|Electronic|Pop-Folk|Eurodance|Dream|Southern Rock|Comedy|Cult|Gangsta|Top 40|Christian Rap|Pop/Funk|Jungle|' +
+    'Native American|Cabaret|New Wave|Psychadelic|Rave|Showtunes|Trailer|Lo-Fi|Tribal|Acid Punk|Acid Jazz|Polka|Retro|Musical|Rock & Roll|Hard Rock'
+).split('|');
+
+// "(17)", "17" or "(17)Rock" -> "Rock"
+const resolveGenre = (value?: string): string | undefined => {
+    if (!value) return undefined;
+    const match = value.match(/^\((\d+)\)(.*)$/) || value.match(/^(\d+)()$/);
+    if (match) {
+        return match[2].trim() || ID3V1_GENRES[parseInt(match[1], 10)] || undefined;
+    }
+    return value;
+};
+
+const emptyTags = (): AudioTags => ({ artists: [] });
+
+const hasAnyTag = (tags: AudioTags): boolean =>
+    !!(tags.title || tags.artists.length || tags.album || tags.picture || tags.lyrics);
+
+// --- Lyrics ---
+
+interface TimedLine {
+    time: number; // Seconds
+    text: string;
+}
+
+const formatLrcTime = (time: number): string => {
+    const mins = Math.floor(time / 60);
+    const secs = time - mins * 60;
+    return `[${String(mins).padStart(2, '0')}:${secs.toFixed(2).padStart(5, '0')}]`;
+};
+
+const toLrc = (lines: TimedLine[]): string =>
+    lines.map(line => `${formatLrcTime(line.time)}${line.text}`).join('\n');
+
+const cleanLyrics = (text: string): string | undefined =>
+    text.replace(/\r\n?/g, '\n').trim() || undefined;
+
+// --- ID3v2 ---
+
+export const decodeId3Text = (encoding: number, data: Uint8Array): string => {
+    switch (encoding) {
+        case 1: {
+            // UTF-16 with BOM
+            if (data[0] === 0xfe && data[1] === 0xff) return utf16be.decode(data.subarray(2));
+            if (data[0] === 0xff && data[1] === 0xfe) return utf16le.decode(data.subarray(2));
+            return utf16le.decode(data);
+        }
+        case 2: return utf16be.decode(data);
+        case 3: return utf8.decode(data);
+        default: return latin1.decode(data);
+    }
+};
+
+// Finds the end of a null-terminated string (2-byte terminator for UTF-16)
+export const findTerminator = (data: Uint8Array, start: number, encoding: number): number => {
+    const wide = encoding === 1 || encoding === 2;
+    for (let i = start; i < data.length; i += wide ? 2 : 1) {
+        if (data[i] === 0 && (!wide || data[i + 1] === 0)) return i;
+    }
+    return data.length;
+};
+
+// Text frames may hold several null-separated values (ID3v2.4)
+const decodeTextFrame = (data: Uint8Array): string[] => {
+    if (data.length < 2) return [];
+    const encoding = data[0];
+    return decodeId3Text(encoding, data.subarray(1))
+        .split('\0')
+        .map(v => v.trim())
+        .filter(Boolean);
+};
+
+const decodePictureFrame = (data: Uint8Array, version: number): TagPicture | null => {
+    const encoding = data[0];
+    let pos = 1;
+    let format: string;
+
+    if (version === 2) {
+        // PIC: 3-char image format
+        format = ascii(data, pos, 3);
+        pos += 3;
+    } else {
+        const mimeEnd = findTerminator(data, pos, 0);
+        format = ascii(data, pos, mimeEnd - pos);
+        pos = mimeEnd + 1;
+    }
+
+    const type = data[pos++];
+    const wide = encoding === 1 || encoding === 2;
+    const descEnd = findTerminator(data, pos, encoding);
+    pos = descEnd + (wide ? 2 : 1);
+
+    if (pos >= data.length) return null;
+    return { data: data.slice(pos), format: normalizeMime(format), type };
+};
+
+// USLT / ULT: encoding, language, descriptor, text
+const decodeUnsyncedLyricsFrame = (data: Uint8Array): string | undefined => {
+    if (data.length < 5) return undefined;
+    const encoding = data[0];
+    const wide = encoding === 1 || encoding === 2;
+    const descEnd = findTerminator(data, 4, encoding);
+    return cleanLyrics(decodeId3Text(encoding, data.subarray(descEnd + (wide ? 2 : 1))));
+};
+
+/**
+ * SYLT / SLT: encoding, language, timestamp format, content type, descriptor,
+ * then (text, 32-bit time) pairs. Only millisecond timestamps can be converted.
+ * Entries starting with a line break begin a new line; when none do, every entry is a line.
+ */
+const decodeSyncedLyricsFrame = (data: Uint8Array): string | undefined => {
+    if (data.length < 7) return undefined;
+    const encoding = data[0];
+    const timestampFormat = data[4];
+    if (timestampFormat !== 2) return undefined;
+
+    const wide = encoding === 1 || encoding === 2;
+    const terminatorSize = wide ? 2 : 1;
+    let pos = findTerminator(data, 6, encoding) + terminatorSize;
+
+    const entries: TimedLine[] = [];
+    while (pos < data.length) {
+        const textEnd = findTerminator(data, pos, encoding);
+        if (textEnd + terminatorSize + 4 > data.length) break;
+        const text = decodeId3Text(encoding, data.subarray(pos, textEnd)).replace(/^\ufeff/, '');
+        entries.push({ text, time: uint32BE(data, textEnd + terminatorSize) / 1000 });
+        pos = textEnd + terminatorSize + 4;
+    }
+    if (entries.length === 0) return undefined;
+
+    const byLineBreak = entries.some(e => /^[\r\n]/.test(e.text));
+    const lines: TimedLine[] = [];
+    entries.forEach(entry => {
+        if (!byLineBreak || lines.length === 0 || /^[\r\n]/.test(entry.text)) {
+            lines.push({ time: entry.time, text: entry.text });
+        } else {
+            lines[lines.length - 1].text += entry.text;
+        }
+    });
+
+    return toLrc(lines.map(l => ({ ...l, text: l.text.trim() })));
+};
+
+const ID3_TEXT_FRAMES: Record<string, string> = {
+    TIT2: 'title', TT2: 'title',
+    TPE1: 'artist', TP1: 'artist',
+    TALB: 'album', TAL: 'album',
+    TPE2: 'albumArtist', TP2: 'albumArtist',
+    TRCK: 'track', TRK: 'track',
+    TPOS: 'disc', TPA: 'disc',
+    TYER: 'year', TYE: 'year', TDRC: 'year', TDOR: 'originalYear',
+    TCON: 'genre', TCO: 'genre',
+};
+
+// "FEATURING" as written by the tag writer; other TXXX frames are ignored
+const decodeFeaturingFrame = (data: Uint8Array): string[] => {
+    if (data.length < 2) return [];
+    const encoding = data[0];
+    const wide = encoding === 1 || encoding === 2;
+    const descEnd = findTerminator(data, 1, encoding);
+    if (decodeId3Text(encoding, data.subarray(1, descEnd)).trim().toUpperCase() !== 'FEATURING') return [];
+    return decodeId3Text(encoding, data.subarray(descEnd + (wide ? 2 : 1)))
+        .split('\0')
+        .map(v => v.trim())
+        .filter(Boolean);
+};
+
+const ID3_PICTURE_FRAMES = new Set(['APIC', 'PIC']);
+const ID3_UNSYNCED_LYRICS_FRAMES = new Set(['USLT', 'ULT']);
+const ID3_SYNCED_LYRICS_FRAMES = new Set(['SYLT', 'SLT']);
+
+interface Id3Result {
+    tags: AudioTags;
+    end: number; // Offset right after the tag
+}
+
+async function readId3v2(source: ByteSource, offset: number, options: ReadTagsOptions): Promise<Id3Result | null> {
+    const header = await source.read(offset, 10);
+    if (header.length < 10 || ascii(header, 0, 3) !== 'ID3') return null;
+
+    const version = header[3];
+    const flags = header[5];
+    const size = syncsafe(header, 6);
+    const hasFooter = version === 4 && (flags & 0x10) !== 0;
+    const end = offset + 10 + size + (hasFooter ? 10 : 0);
+
+    if (version < 2 || version > 4) return { tags: emptyTags(), end };
+
+    // Whole-tag unsynchronisation (v2.2/2.3) means we need the full body in memory
+    let body: ByteSource = source;
+    let pos = offset + 10;
+    let limit = offset + 10 + size;
+    if ((flags & 0x80) && version < 4) {
+        const raw = removeUnsync((await source.read(pos, size)).slice());
+        body = { size: raw.length, read: async (o, l) => raw.subarray(o, o + l) };
+        pos = 0;
+        limit = raw.length;
+    }
+
+    // Skip extended header
+    if (flags & 0x40) {
+        const ext = await body.read(pos, 4);
+        pos += version === 4 ? syncsafe(ext, 0) : uint32BE(ext, 0) + 4;
+    }
+
+    const headerSize = version === 2 ? 6 : 10;
+    const text: Record<string, string[]> = {};
+    const pictures: TagPicture[] = [];
+    let unsyncedLyrics: string | undefined;
+    let syncedLyrics: string | undefined;
+
+    while (pos + headerSize <= limit) {
+        const fh = await body.read(pos, headerSize);
+        if (fh.length < headerSize || fh[0] === 0) break; // Padding
+
+        const id = ascii(fh, 0, version === 2 ? 3 : 4);
+        const frameSize = version === 2 ? uint24BE(fh, 3) : version === 4 ? syncsafe(fh, 4) : uint32BE(fh, 4);
+        const formatFlags = version === 2 ? 0 : fh[9];
+        const dataStart = pos + headerSize;
+        pos = dataStart + frameSize;
+
+        if (frameSize <= 0 || pos > limit) break;
+
+        const textKey = ID3_TEXT_FRAMES[id];
+        const isPicture = ID3_PICTURE_FRAMES.has(id);
+        const isLyrics = ID3_UNSYNCED_LYRICS_FRAMES.has(id) || ID3_SYNCED_LYRICS_FRAMES.has(id);
+        const isUserText = id === 'TXXX';
+        if (!textKey && !isLyrics && !isUserText && !(isPicture && options.includePicture)) continue;
+
+        // v2.3 compression/encryption (0x80/0x40), v2.4 (0x08/0x04)
+        if (version === 3 && (formatFlags & 0xc0)) continue;
+        if (version === 4 && (formatFlags & 0x0c)) continue;
+
+        let data = await body.read(dataStart, frameSize);
+        if (version === 4) {
+            if (formatFlags & 0x01) data = data.subarray(4); // Data length indicator
+            if (formatFlags & 0x02) data = removeUnsync(data);
+        }
+
+        if (textKey) {
+            text[textKey] = [...(text[textKey] || []), ...decodeTextFrame(data)];
+        } else if (isUserText) {
+            text.features = [...(text.features || []), ...decodeFeaturingFrame(data)];
+        } else if (ID3_SYNCED_LYRICS_FRAMES.has(id)) {
+            syncedLyrics = syncedLyrics || decodeSyncedLyricsFrame(data);
+        } else if (isLyrics) {
+            unsyncedLyrics = unsyncedLyrics || decodeUnsyncedLyricsFrame(data);
+        } else {
+            const picture = decodePictureFrame(data, version);
+            if (picture) pictures.push(picture);
+        }
+    }
+
+    const first = (key: string) => text[key]?.[0];
+    const tags: AudioTags = {
+        title: first('title'),
+        // v2.3 writers often join artists with "/", the artist splitter handles that later
+        artists: text.artist || [],
+        features: text.features,
+        album: first('album'),
+        albumArtist: first('albumArtist'),
+        trackNumber: parseNumberPair(first('track')),
+        discNumber: parseNumberPair(first('disc')),
+        year: parseYear(first('year') || first('originalYear')),
+        genre: resolveGenre(first('genre')),
+        picture: pickPicture(pictures),
+        // Timed lyrics win over plain text
+        lyrics: syncedLyrics || unsyncedLyrics,
+    };
+
+    return { tags, end };
+}
+
+// --- ID3v1 ---
+
+async function readId3v1(source: ByteSource): Promise<AudioTags | null> {
+    if (source.size < 128) return null;
+    const data = await source.read(source.size - 128, 128);
+    if (ascii(data, 0, 3) !== 'TAG') return null;
+
+    const field = (start: number, length: number) =>
+        latin1.decode(data.subarray(start, start + length)).replace(/\0.*$/, '').trim() || undefined;
+
+    const artist = field(33, 30);
+    return {
+        title: field(3, 30),
+        artists: artist ? [artist] : [],
+        album: field(63, 30),
+        year: parseYear(field(93, 4)),
+        // ID3v1.1: zero byte before the track number
+        trackNumber: data[125] === 0 && data[126] > 0 ? data[126] : undefined,
+        genre: ID3V1_GENRES[data[127]],
+    };
+}
+
+// --- Vorbis Comments (FLAC / Ogg) ---
+
+const decodeFlacPicture = (data: Uint8Array): TagPicture | null => {
+    if (data.length < 32) return null;
+    let pos = 0;
+    const type = uint32BE(data, pos); pos += 4;
+    const mimeLength = uint32BE(data, pos); pos += 4;
+    const format = ascii(data, pos, mimeLength); pos += mimeLength;
+    const descLength = uint32BE(data, pos); pos += 4 + descLength;
+    pos += 16; // width, height, depth, colors
+    const dataLength = uint32BE(data, pos); pos += 4;
+    if (pos + dataLength > data.length) return null;
+    return { data: data.slice(pos, pos + dataLength), format: normalizeMime(format), type };
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+const parseVorbisComments = (data: Uint8Array, options: ReadTagsOptions, pictures: TagPicture[]): Record<string, string[]> => {
+    const fields: Record<string, string[]> = {};
+    let pos = 0;
+    const vendorLength = uint32LE(data, pos);
+    pos += 4 + vendorLength;
+    const count = uint32LE(data, pos);
+    pos += 4;
+
+    for (let i = 0; i < count && pos + 4 <= data.length; i++) {
+        const length = uint32LE(data, pos);
+        pos += 4;
+        const entry = data.subarray(pos, pos + length);
+        pos += length;
+
+        const eq = entry.indexOf(0x3d); // '='
+        if (eq <= 0) continue;
+        const key = ascii(entry, 0, eq).toUpperCase();
+
+        if (key === 'METADATA_BLOCK_PICTURE') {
+            if (options.includePicture) {
+                try {
+                    const picture = decodeFlacPicture(base64ToBytes(ascii(entry, eq + 1, entry.length - eq - 1)));
+                    if (picture) pictures.push(picture);
+                } catch (e) {
+                    console.warn("[Tags] Invalid METADATA_BLOCK_PICTURE", e);
+                }
+            }
+            continue;
+        }
+
+        const value = utf8.decode(entry.subarray(eq + 1)).trim();
+        if (value) fields[key] = [...(fields[key] || []), value];
+    }
+
+    return fields;
+};
+
+const vorbisFieldsToTags = (fields: Record<string, string[]>, pictures: TagPicture[]): AudioTags => {
+    const first = (...keys: string[]) => keys.map(k => fields[k]?.[0]).find(Boolean);
+    return {
+        title: first('TITLE'),
+        artists: fields.ARTIST || [],
+        features: fields.FEATURING,
+        album: first('ALBUM'),
+        albumArtist: first('ALBUMARTIST', 'ALBUM ARTIST', 'ALBUM_ARTIST'),
+        trackNumber: parseNumberPair(first('TRACKNUMBER')),
+        discNumber: parseNumberPair(first('DISCNUMBER')),
+        year: parseYear(first('DATE', 'YEAR', 'ORIGINALDATE')),
+        genre: first('GENRE'),
+        picture: pickPicture(pictures),
+        lyrics: cleanLyrics(first('LYRICS', 'UNSYNCEDLYRICS', 'UNSYNCED LYRICS') || ''),
+    };
+};
+
+async function readFlac(source: ByteSource, offset: number, options: ReadTagsOptions): Promise<AudioTags | null> {
+    const magic = await source.read(offset, 4);
+    if (ascii(magic, 0, 4) !== 'fLaC') return null;
+
+    let pos = offset + 4;
+    let fields: Record<string, string[]> = {};
+    const pictures: TagPicture[] = [];
+
+    while (pos + 4 <= source.size) {
+        const header = await source.read(pos, 4);
+        const isLast = (header[0] & 0x80) !== 0;
+        const type = header[0] & 0x7f;
+        const length = uint24BE(header, 1);
+        const dataStart = pos + 4;
+        pos = dataStart + length;
+
+        if (type === 4) {
+            fields = parseVorbisComments(await source.read(dataStart, length), options, pictures);
+        } else if (type === 6 && options.includePicture) {
+            const picture = decodeFlacPicture(await source.read(dataStart, length));
+            if (picture) pictures.push(picture);
+        }
+
+        if (isLast) break;
+    }
+
+    return vorbisFieldsToTags(fields, pictures);
+}
+
+// Ogg packets that make up a logical stream's headers. Comment headers with
+// embedded art can span many pages, so packets are reassembled across pages.
+const MAX_OGG_HEADER_BYTES = 32 * 1024 * 1024;
+
+async function readOggHeaderPackets(source: ByteSource, count: number): Promise<Uint8Array[]> {
+    const packets: Uint8Array[] = [];
+    let pending: Uint8Array[] = [];
+    let pos = 0;
+
+    while (packets.length < count && pos + 27 <= source.size && pos < MAX_OGG_HEADER_BYTES) {
+        const header = await source.read(pos, 27);
+        if (ascii(header, 0, 4) !== 'OggS') break;
+
+        const segmentCount = header[26];
+        const segments = (await source.read(pos + 27, segmentCount)).slice();
+        const bodyLength = segments.reduce((sum, s) => sum + s, 0);
+        const body = await source.read(pos + 27 + segmentCount, bodyLength);
+        pos += 27 + segmentCount + bodyLength;
+
+        let bodyPos = 0;
+        let pieceStart = 0;
+        for (let i = 0; i < segments.length; i++) {
+            bodyPos += segments[i];
+            // A segment shorter than 255 ends the packet
+            if (segments[i] < 255) {
+                pending.push(body.slice(pieceStart, bodyPos));
+                const total = pending.reduce((sum, p) => sum + p.length, 0);
+                const packet = new Uint8Array(total);
+                let o = 0;
+                pending.forEach(p => { packet.set(p, o); o += p.length; });
+                packets.push(packet);
+                pending = [];
+                pieceStart = bodyPos;
+                if (packets.length >= count) break;
+            }
+        }
+        if (pieceStart < bodyPos) pending.push(body.slice(pieceStart, bodyPos));
+    }
+
+    return packets;
+}
+
+async function readOgg(source: ByteSource, options: ReadTagsOptions): Promise<AudioTags | null> {
+    const [identification, comment] = await readOggHeaderPackets(source, 2);
+    if (!identification || !comment) return null;
+
+    let commentData: Uint8Array | null = null;
+    if (ascii(identification, 1, 6) === 'vorbis' && comment[0] === 3) {
+        commentData = comment.subarray(7); // "\x03vorbis"
+    } else if (ascii(identification, 0, 8) === 'OpusHead' && ascii(comment, 0, 8) === 'OpusTags') {
+        commentData = comment.subarray(8);
+    } else if (ascii(identification, 1, 4) === 'FLAC') {
+        commentData = comment.subarray(4); // FLAC metadata block header
+    }
+    if (!commentData) return null;
+
+    const pictures: TagPicture[] = [];
+    const fields = parseVorbisComments(commentData, options, pictures);
+    return vorbisFieldsToTags(fields, pictures);
+}
+
+// --- MP4 ---
+
+interface Mp4Box {
+    type: string;
+    start: number; // Content start
+    end: number;
+}
+
+async function findMp4Box(source: ByteSource, start: number, end: number, type: string): Promise<Mp4Box | null> {
+    let pos = start;
+    while (pos + 8 <= end) {
+        const header = await source.read(pos, 16);
+        let size = uint32BE(header, 0);
+        const boxType = ascii(header, 4, 4);
+        let headerSize = 8;
+
+        if (size === 1) {
+            size = uint32BE(header, 8) * 2 ** 32 + uint32BE(header, 12);
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - pos;
+        }
+        if (size < headerSize) return null;
+
+        if (boxType === type) {
+            return { type, start: pos + headerSize, end: Math.min(pos + size, end) };
+        }
+        pos += size;
+    }
+    return null;
+}
+
+async function readMp4(source: ByteSource, options: ReadTagsOptions): Promise<AudioTags | null> {
+    const moov = await findMp4Box(source, 0, source.size, 'moov');
+    if (!moov) return null;
+
+    const udta = await findMp4Box(source, moov.start, moov.end, 'udta');
+    const meta = (udta && await findMp4Box(source, udta.start, udta.end, 'meta'))
+        || await findMp4Box(source, moov.start, moov.end, 'meta');
+    if (!meta) return null;
+
+    // meta is a full box: 4 bytes of version/flags before its children
+    const ilst = await findMp4Box(source, meta.start + 4, meta.end, 'ilst');
+    if (!ilst) return null;
+
+    const tags = emptyTags();
+    let pos = ilst.start;
+
+    while (pos + 8 <= ilst.end) {
+        const header = await source.read(pos, 8);
+        const size = uint32BE(header, 0);
+        const type = ascii(header, 4, 4);
+        if (size < 8) break;
+        const item: Mp4Box = { type, start: pos + 8, end: pos + size };
+        pos += size;
+
+        if (type === 'covr' && !options.includePicture) continue;
+
+        const dataBox = await findMp4Box(source, item.start, item.end, 'data');
+        if (!dataBox) continue;
+
+        const raw = await source.read(dataBox.start, dataBox.end - dataBox.start);
+        const dataType = uint32BE(raw, 0) & 0xffffff;
+        const value = raw.subarray(8); // type indicator + locale
+        const text = () => utf8.decode(value).trim() || undefined;
+
+        switch (type) {
+            case '©nam': tags.title = text(); break;
+            case '©ART': { const a = text(); if (a) tags.artists.push(a); break; }
+            case '©alb': tags.album = text(); break;
+            case 'aART': tags.albumArtist = text(); break;
+            case '©day': tags.year = parseYear(text()); break;
+            case '©gen': tags.genre = text(); break;
+            case '©lyr': tags.lyrics = cleanLyrics(utf8.decode(value)); break;
+            case 'gnre': tags.genre = value.length >= 2 ? ID3V1_GENRES[((value[0] << 8) | value[1]) - 1] : undefined; break;
+            case 'trkn': tags.trackNumber = value.length >= 4 ? ((value[2] << 8) | value[3]) || undefined : undefined; break;
+            case 'disk': tags.discNumber = value.length >= 4 ? ((value[2] << 8) | value[3]) || undefined : undefined; break;
+            case 'covr':
+                tags.picture = { data: value.slice(), format: dataType === 14 ? 'image/png' : 'image/jpeg', type: 3 };
+                break;
+        }
+    }
+
+    return tags;
+}
+
+// --- Entry Point ---
+
+const fillGap = <K extends keyof AudioTags>(target: AudioTags, source: AudioTags, key: K) => {
+    if (target[key] === undefined) target[key] = source[key];
+};
+
+// Fills gaps in `primary` with values from `secondary`
+const mergeTags = (primary: AudioTags, secondary: AudioTags | null): AudioTags => {
+    if (!secondary) return primary;
+    const merged: AudioTags = { ...secondary, ...primary };
+    (Object.keys(merged) as (keyof AudioTags)[]).forEach(key => fillGap(merged, secondary, key));
+    merged.artists = primary.artists.length ? primary.artists : secondary.artists;
+    return merged;
+};
+
+/**
+ * Reads the embedded tags of an audio file.
+ * Returns null if the format is unknown or the file has no usable tags.
+ */
+export async function readTags(file: Blob, options: ReadTagsOptions = {}): Promise<AudioTags | null> {
+    const source = createByteSource(file);
+    const head = await source.read(0, 12);
+    if (head.length < 4) return null;
+
+    let tags: AudioTags | null = null;
+
+    if (ascii(head, 0, 3) === 'ID3') {
+        const id3 = await readId3v2(source, 0, options);
+        tags = id3?.tags || null;
+        // Some FLAC files carry an ID3 tag in front of the stream
+        if (id3) {
+            const flac = await readFlac(source, id3.end, options);
+            if (flac) tags = tags ? mergeTags(tags, flac) : flac;
+        }
+    } else if (ascii(head, 0, 4) === 'fLaC') {
+        tags = await readFlac(source, 0, options);
+    } else if (ascii(head, 0, 4) === 'OggS') {
+        tags = await readOgg(source, options);
+    } else if (ascii(head, 4, 4) === 'ftyp') {
+        tags = await readMp4(source, options);
+    }
+
+    if (!tags || !hasAnyTag(tags)) {
+        const v1 = await readId3v1(source);
+        if (v1) tags = tags ? mergeTags(tags, v1) : v1;
+    }
+
+    return tags && hasAnyTag(tags) ? tags : null;
+}
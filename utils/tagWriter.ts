@@ -0,0 +1,383 @@
+import { ParsedMusicInfo, Song } from '../types';
+import { getFileNameWithoutExtension, parseLrc } from '../utils';
+import { ascii, decodeId3Text, findTerminator, readTags, removeUnsync, syncsafe, uint32BE } from './tagReader';
+
+/**
+ * Writes metadata back into a copy of an audio file: an ID3v2.4 tag for MP3,
+ * Vorbis comments for FLAC. Only the tag is rebuilt; the audio data is copied
+ * over as a slice of the original file, and tag fields we don't manage
+ * (ReplayGain, comments, other pictures...) are carried over.
+ */
+
+export interface TagsToWrite {
+    metadata: ParsedMusicInfo;
+    lyrics?: string; // LRC or plain text
+    cover?: Blob; // Replaces the embedded pictures; absent = keep the file's own
+}
+
+const PADDING_SIZE = 1024;
+const MAX_FLAC_BLOCK = 0xffffff;
+
+const utf8 = new TextEncoder();
+
+const isMp3Name = (name: string) => /\.mp3$/i.test(name);
+const isFlacName = (name: string) => /\.flac$/i.test(name);
+
+/** Whether writeTags knows the container, judged by the file name. */
+export const canWriteTags = (file?: File): boolean => !!file && (isMp3Name(file.name) || isFlacName(file.name));
+
+// --- Binary Helpers ---
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let pos = 0;
+    parts.forEach(p => { out.set(p, pos); pos += p.length; });
+    return out;
+};
+
+const toSyncsafe = (n: number): Uint8Array =>
+    new Uint8Array([(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f]);
+
+const toUint32BE = (n: number): Uint8Array =>
+    new Uint8Array([(n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]);
+
+const toUint32LE = (n: number): Uint8Array =>
+    new Uint8Array([n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >>> 24) & 0xff]);
+
+const toUint24BE = (n: number): Uint8Array =>
+    new Uint8Array([(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]);
+
+const uint24BE = (b: Uint8Array, i: number): number => (b[i] << 16) + (b[i + 1] << 8) + b[i + 2];
+
+const uint32LE = (b: Uint8Array, i: number): number =>
+    ((b[i + 3] << 24) >>> 0) + (b[i + 2] << 16) + (b[i + 1] << 8) + b[i];
+
+const latin1Bytes = (text: string): Uint8Array =>
+    new Uint8Array([...text].map(c => c.charCodeAt(0) & 0xff));
+
+const readRange = async (file: Blob, start: number, length: number): Promise<Uint8Array> =>
+    new Uint8Array(await file.slice(start, start + length).arrayBuffer());
+
+// Blob.type is often empty for picked files, so sniff the common formats
+const sniffImageMime = (bytes: Uint8Array, fallback: string): string => {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'image/jpeg';
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'image/png';
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+    if (ascii(bytes, 0, 3) === 'GIF') return 'image/gif';
+    return fallback || 'image/jpeg';
+};
+
+// --- Field Values ---
+
+/**
+ * Version and extra go back into the title in brackets, the way the parser
+ * reads them out of tags: "Title [Live] (Piano)".
+ */
+const composeTitle = (metadata: ParsedMusicInfo): string =>
+    [metadata.title, metadata.version && `[${metadata.version}]`, metadata.extra && `(${metadata.extra})`]
+        .filter(Boolean)
+        .join(' ');
+
+const formatNumber = (value?: number | null): string | undefined =>
+    value !== null && value !== undefined && value > 0 ? String(value) : undefined;
+
+// LRC timestamps stripped, for players that only show plain lyrics
+const toPlainLyrics = (lyrics: string): string => {
+    const lines = parseLrc(lyrics);
+    return lines.length > 0 ? lines.map(l => l.text).join('\n') : lyrics.trim();
+};
+
+// --- ID3v2.4 ---
+
+// Frames rebuilt from the metadata, plus v2.3 frames that have no place in v2.4
+const ID3_REPLACED_FRAMES = new Set([
+    'TIT2', 'TPE1', 'TPE2', 'TALB', 'TRCK', 'TPOS', 'TDRC', 'TCON', 'USLT', 'SYLT',
+    'TYER', 'TDAT', 'TIME', 'TRDA', 'TORY', 'TSIZ', 'EQUA', 'RVAD', 'IPLS'
+]);
+
+const id3Frame = (id: string, data: Uint8Array): Uint8Array =>
+    concat([latin1Bytes(id), toSyncsafe(data.length), new Uint8Array(2), data]);
+
+// ID3v2.4 text frames hold several values separated by null; encoding 3 = UTF-8
+const id3TextFrame = (id: string, values: string[]): Uint8Array =>
+    id3Frame(id, concat([new Uint8Array([3]), utf8.encode(values.join('\0'))]));
+
+const id3UserTextFrame = (description: string, values: string[]): Uint8Array =>
+    id3Frame('TXXX', concat([new Uint8Array([3]), utf8.encode(description), new Uint8Array([0]), utf8.encode(values.join('\0'))]));
+
+// "XXX" = unknown language
+const id3UnsyncedLyricsFrame = (text: string): Uint8Array =>
+    id3Frame('USLT', concat([new Uint8Array([3]), latin1Bytes('XXX'), new Uint8Array([0]), utf8.encode(text)]));
+
+// Timestamp format 2 = milliseconds, content type 1 = lyrics; one entry per line
+const id3SyncedLyricsFrame = (lyrics: string): Uint8Array | null => {
+    const lines = parseLrc(lyrics);
+    if (lines.length === 0) return null;
+    return id3Frame('SYLT', concat([
+        new Uint8Array([3]), latin1Bytes('XXX'), new Uint8Array([2, 1, 0]),
+        ...lines.flatMap(line => [utf8.encode(line.text), new Uint8Array([0]), toUint32BE(Math.round(line.time * 1000))])
+    ]));
+};
+
+// Picture type 3 = front cover, empty description
+const id3PictureFrame = (mime: string, data: Uint8Array): Uint8Array =>
+    id3Frame('APIC', concat([new Uint8Array([0]), latin1Bytes(mime), new Uint8Array([0, 3, 0]), data]));
+
+const isFeaturingFrame = (data: Uint8Array): boolean => {
+    const encoding = data[0];
+    const description = decodeId3Text(encoding, data.subarray(1, findTerminator(data, 1, encoding)));
+    return description.trim().toUpperCase() === 'FEATURING';
+};
+
+/**
+ * Frames of an existing v2.3/v2.4 tag that we don't rebuild, re-encoded for v2.4.
+ * Compressed, encrypted and grouped frames are dropped, as are frames that ask
+ * to be discarded when the tag changes. v2.2 tags use other frame ids and are dropped whole.
+ */
+async function readKeptId3Frames(file: Blob, replaceCover: boolean): Promise<Uint8Array[]> {
+    const header = await readRange(file, 0, 10);
+    const version = header[3];
+    const flags = header[5];
+    if (version !== 3 && version !== 4) return [];
+
+    let body = await readRange(file, 10, syncsafe(header, 6));
+    if ((flags & 0x80) && version === 3) body = removeUnsync(body);
+
+    let pos = 0;
+    if (flags & 0x40) pos += version === 4 ? syncsafe(body, 0) : uint32BE(body, 0) + 4;
+
+    const kept: Uint8Array[] = [];
+    while (pos + 10 <= body.length) {
+        if (body[pos] === 0) break; // Padding
+        const id = ascii(body, pos, 4);
+        const size = version === 4 ? syncsafe(body, pos + 4) : uint32BE(body, pos + 4);
+        const statusFlags = body[pos + 8];
+        const formatFlags = body[pos + 9];
+        const dataStart = pos + 10;
+        pos = dataStart + size;
+        if (size <= 0 || pos > body.length) break;
+
+        if (ID3_REPLACED_FRAMES.has(id) || (id === 'APIC' && replaceCover)) continue;
+        const discardOnTagChange = version === 4 ? statusFlags & 0x40 : statusFlags & 0x80;
+        const unsupported = version === 4 ? formatFlags & 0x4c : formatFlags & 0xe0;
+        if (discardOnTagChange || unsupported) continue;
+
+        let data = body.subarray(dataStart, pos);
+        if (version === 4) {
+            if (formatFlags & 0x01) data = data.subarray(4); // Data length indicator
+            if (formatFlags & 0x02) data = removeUnsync(data);
+        }
+        if (id === 'TXXX' && isFeaturingFrame(data)) continue;
+        kept.push(id3Frame(id, data));
+    }
+    return kept;
+}
+
+async function writeId3(file: File, tags: TagsToWrite): Promise<Blob> {
+    const head = await readRange(file, 0, 10);
+    const hasTag = ascii(head, 0, 3) === 'ID3';
+    const hasFooter = hasTag && head[3] === 4 && (head[5] & 0x10) !== 0;
+    const audioStart = hasTag ? 10 + syncsafe(head, 6) + (hasFooter ? 10 : 0) : 0;
+
+    // A trailing ID3v1 tag would keep the old values; drop it
+    const tail = file.size >= 128 ? await readRange(file, file.size - 128, 3) : new Uint8Array(0);
+    const audioEnd = tail.length === 3 && ascii(tail, 0, 3) === 'TAG' ? file.size - 128 : file.size;
+
+    const { metadata, lyrics, cover } = tags;
+    const frames: Uint8Array[] = [id3TextFrame('TIT2', [composeTitle(metadata)])];
+    const addText = (id: string, value?: string | null) => { if (value) frames.push(id3TextFrame(id, [value])); };
+
+    if (metadata.artists.length > 0) frames.push(id3TextFrame('TPE1', metadata.artists));
+    if (metadata.features.length > 0) frames.push(id3UserTextFrame('FEATURING', metadata.features));
+    addText('TALB', metadata.album);
+    addText('TPE2', metadata.albumArtist);
+    addText('TRCK', formatNumber(metadata.trackNumber));
+    addText('TPOS', formatNumber(metadata.discNumber));
+    addText('TDRC', formatNumber(metadata.year));
+    addText('TCON', metadata.genre);
+
+    if (lyrics?.trim()) {
+        frames.push(id3UnsyncedLyricsFrame(toPlainLyrics(lyrics)));
+        const synced = id3SyncedLyricsFrame(lyrics);
+        if (synced) frames.push(synced);
+    }
+
+    if (cover) {
+        const data = new Uint8Array(await cover.arrayBuffer());
+        frames.push(id3PictureFrame(sniffImageMime(data, cover.type), data));
+    }
+
+    if (hasTag) frames.push(...await readKeptId3Frames(file, !!cover));
+
+    const body = concat([...frames, new Uint8Array(PADDING_SIZE)]);
+    const header = concat([latin1Bytes('ID3'), new Uint8Array([4, 0, 0]), toSyncsafe(body.length)]);
+    return new Blob([header, body, file.slice(audioStart, audioEnd)]);
+}
+
+// --- FLAC ---
+
+interface FlacBlock {
+    type: number;
+    data: Uint8Array;
+}
+
+// Keys rebuilt from the metadata; the other comments are carried over
+const VORBIS_REPLACED_KEYS = new Set([
+    'TITLE', 'ARTIST', 'FEATURING', 'ALBUM', 'ALBUMARTIST', 'ALBUM ARTIST', 'ALBUM_ARTIST',
+    'TRACKNUMBER', 'DISCNUMBER', 'DATE', 'YEAR', 'GENRE', 'LYRICS', 'UNSYNCEDLYRICS', 'UNSYNCED LYRICS'
+]);
+
+// Returns the vendor string and the raw "KEY=value" entries
+const parseVorbisEntries = (data: Uint8Array): { vendor: Uint8Array; entries: Uint8Array[] } => {
+    let pos = 0;
+    const vendorLength = uint32LE(data, pos);
+    const vendor = data.slice(pos + 4, pos + 4 + vendorLength);
+    pos += 4 + vendorLength;
+    const count = uint32LE(data, pos);
+    pos += 4;
+
+    const entries: Uint8Array[] = [];
+    for (let i = 0; i < count && pos + 4 <= data.length; i++) {
+        const length = uint32LE(data, pos);
+        entries.push(data.slice(pos + 4, pos + 4 + length));
+        pos += 4 + length;
+    }
+    return { vendor, entries };
+};
+
+const entryKey = (entry: Uint8Array): string => {
+    const eq = entry.indexOf(0x3d); // '='
+    return eq > 0 ? ascii(entry, 0, eq).toUpperCase() : '';
+};
+
+const buildVorbisComment = (vendor: Uint8Array, entries: Uint8Array[]): Uint8Array =>
+    concat([toUint32LE(vendor.length), vendor, toUint32LE(entries.length), ...entries.flatMap(e => [toUint32LE(e.length), e])]);
+
+// Width, height, depth and colour count are optional, 0 = unknown
+const buildFlacPicture = (mime: string, data: Uint8Array): Uint8Array =>
+    concat([toUint32BE(3), toUint32BE(mime.length), latin1Bytes(mime), toUint32BE(0), new Uint8Array(16), toUint32BE(data.length), data]);
+
+async function writeFlac(file: File, tags: TagsToWrite, offset: number): Promise<Blob> {
+    const blocks: FlacBlock[] = [];
+    let comment: { vendor: Uint8Array; entries: Uint8Array[] } = { vendor: utf8.encode('Rakko'), entries: [] };
+    let pos = offset + 4;
+
+    while (true) {
+        const header = await readRange(file, pos, 4);
+        if (header.length < 4) throw new Error("Unexpected end of FLAC metadata");
+        const isLast = (header[0] & 0x80) !== 0;
+        const type = header[0] & 0x7f;
+        const length = uint24BE(header, 1);
+        const data = await readRange(file, pos + 4, length);
+        pos += 4 + length;
+
+        // Padding is added back once at the end, and pictures give way to a new cover
+        if (type === 4) {
+            comment = parseVorbisEntries(data);
+        } else if (type !== 1 && !(type === 6 && tags.cover)) {
+            blocks.push({ type, data });
+        }
+        if (isLast) break;
+    }
+
+    const { metadata, lyrics, cover } = tags;
+    const entries: string[] = [`TITLE=${composeTitle(metadata)}`];
+    const add = (key: string, value?: string | null) => { if (value) entries.push(`${key}=${value}`); };
+    metadata.artists.forEach(artist => add('ARTIST', artist));
+    metadata.features.forEach(feature => add('FEATURING', feature));
+    add('ALBUM', metadata.album);
+    add('ALBUMARTIST', metadata.albumArtist);
+    add('TRACKNUMBER', formatNumber(metadata.trackNumber));
+    add('DISCNUMBER', formatNumber(metadata.discNumber));
+    add('DATE', formatNumber(metadata.year));
+    add('GENRE', metadata.genre);
+    add('LYRICS', lyrics?.trim());
+
+    const kept = comment.entries.filter(entry => {
+        const key = entryKey(entry);
+        return !VORBIS_REPLACED_KEYS.has(key) && !(key === 'METADATA_BLOCK_PICTURE' && cover);
+    });
+    blocks.push({ type: 4, data: buildVorbisComment(comment.vendor, [...entries.map(e => utf8.encode(e)), ...kept]) });
+
+    if (cover) {
+        const data = new Uint8Array(await cover.arrayBuffer());
+        blocks.push({ type: 6, data: buildFlacPicture(sniffImageMime(data, cover.type), data) });
+    }
+    blocks.push({ type: 1, data: new Uint8Array(PADDING_SIZE) });
+
+    const tooLarge = blocks.find(b => b.data.length > MAX_FLAC_BLOCK);
+    if (tooLarge) throw new Error(tooLarge.type === 6 ? "The cover image is too large for FLAC (16 MB max)" : "The tags are too large for FLAC");
+
+    // Original order is kept, so STREAMINFO stays first
+    const metadataBytes = concat(blocks.flatMap((block, index) => [
+        new Uint8Array([(index === blocks.length - 1 ? 0x80 : 0) | block.type]),
+        toUint24BE(block.data.length),
+        block.data
+    ]));
+    return new Blob([latin1Bytes('fLaC'), metadataBytes, file.slice(pos)]);
+}
+
+// --- Entry Point ---
+
+/**
+ * Returns a copy of the file with the given tags written in.
+ * Throws for formats other than MP3 and FLAC.
+ */
+export async function writeTags(file: File, tags: TagsToWrite, fileName = file.name): Promise<File> {
+    const head = await readRange(file, 0, 10);
+    // FLAC files sometimes carry an ID3 tag in front of the stream; it's dropped
+    const flacOffset = ascii(head, 0, 3) === 'ID3' ? 10 + syncsafe(head, 6) + (head[3] === 4 && (head[5] & 0x10) ? 10 : 0) : 0;
+    const magic = await readRange(file, flacOffset, 4);
+
+    let blob: Blob;
+    if (ascii(magic, 0, 4) === 'fLaC') {
+        blob = await writeFlac(file, tags, flacOffset);
+    } else if (isMp3Name(file.name) || file.type === 'audio/mpeg') {
+        blob = await writeId3(file, tags);
+    } else {
+        throw new Error(`Tags can only be written into MP3 and FLAC files, not "${file.name}"`);
+    }
+    return new File([blob], fileName, { type: file.type });
+}
+
+/**
+ * The song's file with its current info, lyrics and cover written in.
+ * Folder artwork is embedded only when the file has no picture of its own.
+ */
+export async function buildTaggedFile(song: Song): Promise<File> {
+    if (!song.file) throw new Error(`"${song.name}" has no file to write tags into`);
+
+    const metadata: ParsedMusicInfo = song.metadata || {
+        title: song.name, artists: song.artist === 'Unknown Artist' ? [] : [song.artist],
+        album: null, features: [], version: null, extra: null
+    };
+
+    let cover = song.coverOverride;
+    if (!cover && song.coverFile) {
+        const existing = await readTags(song.file, { includePicture: true }).catch(() => null);
+        if (!existing?.picture) cover = song.coverFile;
+    }
+
+    // Downloaded songs are all called "music.mp3"; name the copy after the song
+    const extension = song.file.name.match(/\.[^.]+$/)?.[0] || '';
+    const baseName = song.mysteryCode
+        ? [song.artist, song.name].filter(Boolean).join(' - ')
+        : getFileNameWithoutExtension(song.file.name);
+    const fileName = `${baseName.replace(/[\\/:*?"<>|]/g, '_')}${extension}`;
+
+    return writeTags(song.file, { metadata, lyrics: song.lyrics, cover }, fileName);
+}
+
+/**
+ * Hands a file to the browser as a download.
+ */
+export function downloadFile(file: File) {
+    const url = URL.createObjectURL(file);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,95 @@
+import { Song } from '../types';
+import { getDirectoryPath, getFileNameWithoutExtension, isAudioFile, isLyricsFile, isVideoFile } from '../utils';
+import { idbDelete, idbGetAll, idbPut } from './db';
+import { getRelativePath } from './fileSystem';
+import { isZipFile } from './zip';
+
+/**
+ * A library folder the user registered. The handle is persisted so the
+ * folder can be rescanned in later sessions once permission is granted.
+ */
+export interface WatchedFolder {
+    id: string;
+    name: string;
+    handle: FileSystemDirectoryHandle;
+    addedAt: number;
+    lastScanned: number | null;
+    // Fingerprints of non-audio files (lyrics, videos, ...) seen on the last scan, by path
+    knownFiles: Record<string, string>;
+}
+
+export interface FolderScanDiff {
+    added: File[];       // Audio files not in the library yet
+    changed: File[];     // Audio files whose size or modification time changed
+    sidecars: File[];    // New or changed non-audio files, plus the lyrics and videos of changed tracks
+    removedSongIds: string[]; // Songs whose file is gone or changed
+    knownFiles: Record<string, string>;
+}
+
+export const fileFingerprint = (file: File): string => `${file.size}:${file.lastModified}`;
+
+// "Album/01 Title.flac" and "Album/01 Title.lrc" share "album/01 title"
+const getTrackKey = (path: string): string =>
+    `${getDirectoryPath(path)}/${getFileNameWithoutExtension(path.split('/').pop() || path)}`.toLowerCase();
+
+export const loadWatchedFolders = (): Promise<WatchedFolder[]> => idbGetAll<WatchedFolder>('folders');
+
+export const saveWatchedFolder = (folder: WatchedFolder): Promise<void> => idbPut('folders', folder);
+
+export const deleteWatchedFolder = (id: string): Promise<void> => idbDelete('folders', id);
+
+/**
+ * Compares a fresh scan of a folder against the songs already imported from it.
+ * Audio is diffed against the library itself; other files against the last scan.
+ */
+export const diffFolderScan = (folder: WatchedFolder, scanned: File[], songs: Song[]): FolderScanDiff => {
+    const existing = new Map<string, Song>();
+    songs.forEach(song => {
+        if (song.folderId === folder.id && song.relativePath) {
+            existing.set(song.relativePath, song);
+        }
+    });
+
+    const diff: FolderScanDiff = { added: [], changed: [], sidecars: [], removedSongIds: [], knownFiles: {} };
+    const seenPaths = new Set<string>();
+    // Songs extracted from an archive that didn't change stay as they are
+    const unchangedArchives: string[] = [];
+
+    scanned.forEach(file => {
+        const path = getRelativePath(file) || file.name;
+        seenPaths.add(path);
+
+        if (isAudioFile(file)) {
+            const song = existing.get(path);
+            if (!song) {
+                diff.added.push(file);
+            } else if (!song.file || fileFingerprint(song.file) !== fileFingerprint(file)) {
+                diff.changed.push(file);
+                diff.removedSongIds.push(song.id);
+            }
+        } else {
+            const fingerprint = fileFingerprint(file);
+            diff.knownFiles[path] = fingerprint;
+            if (folder.knownFiles[path] !== fingerprint) {
+                diff.sidecars.push(file);
+            } else if (isZipFile(file)) {
+                unchangedArchives.push(`${path.replace(/\.zip$/i, '')}/`);
+            }
+        }
+    });
+
+    existing.forEach((song, path) => {
+        if (seenPaths.has(path) || unchangedArchives.some(prefix => path.startsWith(prefix))) return;
+        diff.removedSongIds.push(song.id);
+    });
+
+    // A changed track is imported as a new song, so its unchanged lyrics and video go along again
+    const changedTracks = new Set(diff.changed.map(file => getTrackKey(getRelativePath(file) || file.name)));
+    scanned.forEach(file => {
+        if (!isLyricsFile(file) && !isVideoFile(file)) return;
+        if (diff.sidecars.includes(file) || !changedTracks.has(getTrackKey(getRelativePath(file) || file.name))) return;
+        diff.sidecars.push(file);
+    });
+
+    return diff;
+};
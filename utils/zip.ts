@@ -0,0 +1,204 @@
+import { getRelativePath, setRelativePath } from './fileSystem';
+
+/**
+ * Minimal ZIP reader. Entries are located through the central directory and
+ * read straight from the archive with File.slice; deflated entries are inflated
+ * with the browser's DecompressionStream, so nothing leaves the machine.
+ */
+
+export interface ZipEntry {
+    path: string;
+    method: number; // 0 = stored, 8 = deflate
+    compressedSize: number;
+    size: number;
+    localHeaderOffset: number;
+    lastModified: number;
+    encrypted: boolean;
+}
+
+export interface ExtractZipOptions {
+    // Only entries whose path passes are extracted
+    filter?: (path: string) => boolean;
+    onProgress?: (done: number, total: number) => void;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+export const isZipFile = (file: File): boolean =>
+    /\.zip$/i.test(file.name) || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+
+const readBytes = async (blob: Blob, start: number, end: number): Promise<DataView> =>
+    new DataView(await blob.slice(start, end).arrayBuffer());
+
+const getUint64 = (view: DataView, offset: number): number =>
+    view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+
+// Archives made on Windows/macOS without the UTF-8 flag are usually Shift_JIS here
+const decodeName = (bytes: Uint8Array, isUtf8: boolean): string => {
+    if (isUtf8) return new TextDecoder('utf-8').decode(bytes);
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+        return new TextDecoder('shift_jis').decode(bytes);
+    }
+};
+
+const dosDateTimeToMs = (time: number, date: number): number =>
+    new Date(
+        ((date >> 9) & 0x7f) + 1980,
+        ((date >> 5) & 0x0f) - 1,
+        date & 0x1f,
+        (time >> 11) & 0x1f,
+        (time >> 5) & 0x3f,
+        (time & 0x1f) * 2
+    ).getTime();
+
+interface CentralDirectory {
+    offset: number;
+    size: number;
+    count: number;
+}
+
+async function findCentralDirectory(file: Blob): Promise<CentralDirectory> {
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+    const tailStart = Math.max(0, file.size - 22 - 0xffff);
+    const tail = await readBytes(file, tailStart, file.size);
+
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+        if (tail.getUint32(i, true) !== EOCD_SIGNATURE) continue;
+
+        let count = tail.getUint16(i + 10, true);
+        let size = tail.getUint32(i + 12, true);
+        let offset = tail.getUint32(i + 16, true);
+
+        // ZIP64: the real values live in a separate record found through the locator
+        if ((offset === 0xffffffff || count === 0xffff) && i >= 20 && tail.getUint32(i - 20, true) === ZIP64_LOCATOR_SIGNATURE) {
+            const zip64Offset = getUint64(tail, i - 20 + 8);
+            const record = await readBytes(file, zip64Offset, zip64Offset + 56);
+            if (record.getUint32(0, true) === ZIP64_EOCD_SIGNATURE) {
+                count = getUint64(record, 32);
+                size = getUint64(record, 40);
+                offset = getUint64(record, 48);
+            }
+        }
+
+        return { offset, size, count };
+    }
+
+    throw new Error('Not a ZIP archive');
+}
+
+/**
+ * Lists the file entries of an archive (folders are skipped).
+ */
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+    const directory = await findCentralDirectory(file);
+    const view = await readBytes(file, directory.offset, directory.offset + directory.size);
+    const bytes = new Uint8Array(view.buffer);
+    const entries: ZipEntry[] = [];
+
+    let pos = 0;
+    for (let i = 0; i < directory.count && pos + 46 <= view.byteLength; i++) {
+        if (view.getUint32(pos, true) !== CENTRAL_SIGNATURE) break;
+
+        const flags = view.getUint16(pos + 8, true);
+        const method = view.getUint16(pos + 10, true);
+        const time = view.getUint16(pos + 12, true);
+        const date = view.getUint16(pos + 14, true);
+        let compressedSize = view.getUint32(pos + 20, true);
+        let size = view.getUint32(pos + 24, true);
+        const nameLength = view.getUint16(pos + 28, true);
+        const extraLength = view.getUint16(pos + 30, true);
+        const commentLength = view.getUint16(pos + 32, true);
+        let localHeaderOffset = view.getUint32(pos + 42, true);
+
+        const nameStart = pos + 46;
+        const path = decodeName(bytes.subarray(nameStart, nameStart + nameLength), (flags & 0x800) !== 0);
+
+        // ZIP64 extra field holds the sizes/offset that overflowed, in this order
+        let extraPos = nameStart + nameLength;
+        const extraEnd = extraPos + extraLength;
+        while (extraPos + 4 <= extraEnd) {
+            const id = view.getUint16(extraPos, true);
+            const length = view.getUint16(extraPos + 2, true);
+            if (id === 0x0001) {
+                let p = extraPos + 4;
+                if (size === 0xffffffff) { size = getUint64(view, p); p += 8; }
+                if (compressedSize === 0xffffffff) { compressedSize = getUint64(view, p); p += 8; }
+                if (localHeaderOffset === 0xffffffff) { localHeaderOffset = getUint64(view, p); }
+            }
+            extraPos += 4 + length;
+        }
+
+        pos = extraEnd + commentLength;
+
+        if (path.endsWith('/')) continue;
+        entries.push({
+            path,
+            method,
+            compressedSize,
+            size,
+            localHeaderOffset,
+            lastModified: dosDateTimeToMs(time, date),
+            encrypted: (flags & 0x1) !== 0,
+        });
+    }
+
+    return entries;
+}
+
+/**
+ * Extracts one entry as a File named after the last part of its path.
+ */
+export async function extractZipEntry(file: Blob, entry: ZipEntry): Promise<File> {
+    if (entry.encrypted) throw new Error(`Encrypted entry: ${entry.path}`);
+
+    // The local header repeats name and extra field, with lengths that may differ from the central ones
+    const header = await readBytes(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+    if (header.getUint32(0, true) !== LOCAL_SIGNATURE) throw new Error(`Corrupt entry: ${entry.path}`);
+    const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    const raw = file.slice(dataStart, dataStart + entry.compressedSize);
+
+    let data: Blob;
+    if (entry.method === 0) {
+        data = raw;
+    } else if (entry.method === 8) {
+        data = await new Response(raw.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+    } else {
+        throw new Error(`Unsupported compression method ${entry.method}: ${entry.path}`);
+    }
+
+    const name = entry.path.split('/').pop() || entry.path;
+    return new File([data], name, { lastModified: entry.lastModified });
+}
+
+/**
+ * Extracts the archive's files. Each file's path is recorded under the archive's own path
+ * ("Music/Album.zip" -> "Music/Album/CD1/01 Title.flac"), so folder based matching keeps working.
+ */
+export async function extractZip(archive: File, options: ExtractZipOptions = {}): Promise<File[]> {
+    const basePath = (getRelativePath(archive) || archive.name).replace(/\.zip$/i, '');
+    const entries = (await readZipEntries(archive))
+        .filter(e => !e.path.startsWith('__MACOSX/') && !e.path.split('/').pop()!.startsWith('._'))
+        .filter(e => !options.filter || options.filter(e.path));
+
+    const files: File[] = [];
+    options.onProgress?.(0, entries.length);
+
+    for (let i = 0; i < entries.length; i++) {
+        try {
+            const file = await extractZipEntry(archive, entries[i]);
+            setRelativePath(file, `${basePath}/${entries[i].path}`);
+            files.push(file);
+        } catch (err) {
+            console.warn(`[Zip] Failed to extract ${entries[i].path} from ${archive.name}:`, err);
+        }
+        options.onProgress?.(i + 1, entries.length);
+    }
+
+    return files;
+}